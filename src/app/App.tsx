@@ -2,6 +2,7 @@ import { Suspense } from 'react';
 import { Outlet, ScrollRestoration } from 'react-router-dom';
 import Container from '../components/layout/Container';
 import Footer from '../components/layout/Footer';
+import ModalHost from '../components/layout/ModalHost';
 import Navbar from '../components/layout/Navbar';
 import Skeleton from '../components/ui/Skeleton';
 
@@ -27,6 +28,8 @@ const App = () => {
         </Suspense>
       </main>
       <Footer />
+      {/* Every dialog renders here, from the ui.store modal stack */}
+      <ModalHost />
     </div>
   );
 };
@@ -5,7 +5,9 @@ import App from './App';
 // Lazy-load each top-level page so the initial bundle stays focused on the shared shell.
 const HomePage = lazy(() => import('../pages/Home/HomePage'));
 const MenuPage = lazy(() => import('../pages/Menu/MenuPage'));
+const MenuItemPage = lazy(() => import('../pages/Menu/MenuItemPage'));
 const LocationsPage = lazy(() => import('../pages/Locations/LocationsPage'));
+const ReservePage = lazy(() => import('../pages/Reserve/ReservePage'));
 
 // App renders the frame (navbar/footer). Child routes swap their content via <Outlet />.
 const router = createBrowserRouter([
@@ -19,11 +21,22 @@ const router = createBrowserRouter([
       },
       {
         path: 'menu',
-        element: <MenuPage />
+        element: <MenuPage />,
+        // Dish details open as a modal over the list, keeping its query params
+        children: [
+          {
+            path: ':itemId',
+            element: <MenuItemPage />
+          }
+        ]
       },
       {
         path: 'locations',
         element: <LocationsPage />
+      },
+      {
+        path: 'reserve',
+        element: <ReservePage />
       }
     ]
   }
@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import type { ReactNode } from 'react';
+import MenuItemDetails from '../menu/MenuItemDetails';
+import Modal from '../ui/Modal';
+import { CATEGORY_LABELS } from '../../lib/constants';
+import { useUIStore } from '../../store/ui.store';
+import type { ModalDescriptor, ModalPropsMap, ModalType } from '../../store/ui.store';
+
+interface ModalContent {
+  title: string;
+  description?: string;
+  body: ReactNode;
+}
+
+type ModalRenderer<Type extends ModalType> = (props: ModalPropsMap[Type]) => ModalContent;
+
+// How each descriptor type renders; one entry per ModalPropsMap key.
+const MODAL_RENDERERS: { [Type in ModalType]: ModalRenderer<Type> } = {
+  'menu-item': ({ item, isPending }) => ({
+    title: item ? item.title : isPending ? 'Loading dish…' : 'Dish not found',
+    description: item ? CATEGORY_LABELS[item.category] : undefined,
+    body: <MenuItemDetails item={item} isPending={isPending} />
+  })
+};
+
+const renderModalContent = (modal: ModalDescriptor): ModalContent =>
+  (MODAL_RENDERERS[modal.type] as ModalRenderer<ModalType>)(modal.props);
+
+// Renders the ui.store modal stack; the only place dialogs are mounted.
+const ModalHost = () => {
+  const modalStack = useUIStore((state) => state.modalStack);
+  const closeModal = useUIStore((state) => state.closeModal);
+  const hasModals = modalStack.length > 0;
+
+  // Lock body scroll while any dialog is open, padding for the scrollbar it hid
+  useEffect(() => {
+    if (!hasModals) {
+      return undefined;
+    }
+
+    const { overflow, paddingRight } = document.body.style;
+    const scrollbarWidth = window.innerWidth - document.documentElement.clientWidth;
+    document.body.style.overflow = 'hidden';
+    if (scrollbarWidth > 0) {
+      document.body.style.paddingRight = `${scrollbarWidth}px`;
+    }
+
+    return () => {
+      document.body.style.overflow = overflow;
+      document.body.style.paddingRight = paddingRight;
+    };
+  }, [hasModals]);
+
+  return (
+    <>
+      {modalStack.map((modal, index) => {
+        const { title, description, body } = renderModalContent(modal);
+        return (
+          <Modal
+            key={modal.key}
+            isOpen
+            isTopmost={index === modalStack.length - 1}
+            onClose={modal.onClose ?? (() => closeModal(modal.key))}
+            title={title}
+            description={description}
+          >
+            {body}
+          </Modal>
+        );
+      })}
+    </>
+  );
+};
+
+export default ModalHost;
@@ -8,7 +8,8 @@ import Button from '../ui/Button';
 const prefetchMap: Record<string, () => Promise<unknown>> = {
   '/': () => import('../../pages/Home/HomePage'),
   '/menu': () => import('../../pages/Menu/MenuPage'),
-  '/locations': () => import('../../pages/Locations/LocationsPage')
+  '/locations': () => import('../../pages/Locations/LocationsPage'),
+  '/reserve': () => import('../../pages/Reserve/ReservePage')
 };
 
 // Shared definition for both desktop and mobile navigation lists.
@@ -53,8 +54,14 @@ const Navbar = () => {
               {label}
             </NavLink>
           ))}
-          <Button variant="primary" onClick={(e) => e.preventDefault()}>
-            Reserve Now
+          <Button asChild variant="primary">
+            <Link
+              to="/reserve"
+              onPointerEnter={() => prefetchMap['/reserve']?.()}
+              onFocus={() => prefetchMap['/reserve']?.()}
+            >
+              Reserve Now
+            </Link>
           </Button>
         </nav>
         <button
@@ -98,8 +105,10 @@ const Navbar = () => {
                 {label}
               </NavLink>
             ))}
-            <Button variant="primary" onClick={(e) => { e.preventDefault(); handleClose(); }}>
-              Reserve Now
+            <Button asChild variant="primary">
+              <Link to="/reserve" onClick={handleClose}>
+                Reserve Now
+              </Link>
             </Button>
           </Container>
         </div>
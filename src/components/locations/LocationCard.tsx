@@ -1,14 +1,34 @@
+import { Link } from 'react-router-dom';
+import { SPECIAL_HOURS_NOTICE_DAYS } from '../../lib/constants';
+import { estimateWalkMinutes, formatDistance, formatWalkTime } from '../../lib/geo';
+import {
+  addDays,
+  getHoursOverride,
+  getHoursText,
+  getUpcomingOverrides,
+  getWeekday,
+  getZonedDateTime
+} from '../../lib/hours';
+import { formatReservationDate } from '../../lib/reservations';
 import type { Location } from '../../lib/types';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import MapEmbed from './MapEmbed';
+import OpenStatusBadge from './OpenStatusBadge';
 
 interface LocationCardProps {
   location: Location;
+  // From the guest, once they've used "Find nearest"
+  distanceKm?: number;
 }
 
-const LocationCard = ({ location }: LocationCardProps) => {
+const LocationCard = ({ location, distanceKm }: LocationCardProps) => {
   const { notes } = location;
+  const now = new Date();
+  // The next seven Vancouver dates, so each weekday row shows its coming date's hours
+  const today = getZonedDateTime(now).date;
+  const comingWeek = Array.from({ length: 7 }, (_, offset) => addDays(today, offset));
+  const upcoming = getUpcomingOverrides(location, now, SPECIAL_HOURS_NOTICE_DAYS);
 
   return (
     <Card className="space-y-6 p-0">
@@ -18,8 +38,16 @@ const LocationCard = ({ location }: LocationCardProps) => {
         </div>
         <div className="space-y-6 md:col-span-3">
           <div>
-            <h3 className="font-display text-2xl font-semibold text-slate-900">{location.name}</h3>
+            <div className="flex flex-wrap items-center gap-3">
+              <h3 className="font-display text-2xl font-semibold text-slate-900">{location.name}</h3>
+              <OpenStatusBadge location={location} />
+            </div>
             <p className="mt-2 text-sm text-slate-600">{location.address}</p>
+            {distanceKm !== undefined ? (
+              <p className="mt-1 text-sm font-medium text-brand-700">
+                {formatDistance(distanceKm)} · {formatWalkTime(estimateWalkMinutes(distanceKm))}
+              </p>
+            ) : null}
             <p className="mt-3 text-sm text-slate-600">{notes.neighborhood}</p>
             <ul className="mt-4 space-y-2 text-xs text-slate-500">
               <li>Parking: {notes.parking}</li>
@@ -30,13 +58,46 @@ const LocationCard = ({ location }: LocationCardProps) => {
             <h4 className="text-xs font-semibold uppercase tracking-[0.3em] text-brand-600">
               Hours
             </h4>
+            {upcoming.length > 0 ? (
+              <div
+                role="note"
+                aria-label="Upcoming special hours"
+                className="mt-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm"
+              >
+                <p className="font-semibold text-amber-800">Upcoming special hours</p>
+                <ul className="mt-2 space-y-1 text-amber-800">
+                  {upcoming.map((override) => (
+                    <li key={override.date}>
+                      <span className="font-medium">{formatReservationDate(override.date)}</span>
+                      {override.note ? ` (${override.note})` : null}:{' '}
+                      {override.closed ? 'Closed' : override.hours}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
             <dl className="mt-4 space-y-2 text-sm">
-              {Object.entries(location.hours).map(([day, hours]) => (
-                <div key={day} className="flex justify-between gap-6 border-b border-stone-100 pb-2 last:border-0">
-                  <dt className="min-w-[6rem] font-medium capitalize text-slate-700">{day}</dt>
-                  <dd className="text-slate-600">{hours}</dd>
-                </div>
-              ))}
+              {Object.entries(location.hours).map(([day, hours]) => {
+                const date = comingWeek.find((candidate) => getWeekday(candidate) === day);
+                const override = date ? getHoursOverride(location, date) : undefined;
+                return (
+                  <div key={day} className="flex justify-between gap-6 border-b border-stone-100 pb-2 last:border-0">
+                    <dt className="min-w-[6rem] font-medium capitalize text-slate-700">{day}</dt>
+                    {date && override ? (
+                      <dd className="text-right">
+                        <span className="font-medium text-amber-700">
+                          {getHoursText(location, date)}
+                        </span>
+                        <span className="block text-xs text-slate-500">
+                          {override.note ?? 'Special hours'} · usually {hours}
+                        </span>
+                      </dd>
+                    ) : (
+                      <dd className="text-slate-600">{hours}</dd>
+                    )}
+                  </div>
+                );
+              })}
             </dl>
           </div>
         </div>
@@ -48,15 +109,20 @@ const LocationCard = ({ location }: LocationCardProps) => {
             {location.phone}
           </a>
         </div>
-        <Button asChild size="sm" variant="primary">
-          <a
-            href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(location.address)}`}
-            target="_blank"
-            rel="noreferrer"
-          >
-            Directions
-          </a>
-        </Button>
+        <div className="flex gap-3">
+          <Button asChild size="sm" variant="secondary">
+            <Link to={`/reserve?location=${location.id}`}>Book a table</Link>
+          </Button>
+          <Button asChild size="sm" variant="primary">
+            <a
+              href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(location.address)}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              Directions
+            </a>
+          </Button>
+        </div>
       </div>
     </Card>
   );
@@ -0,0 +1,98 @@
+import { DOWNTOWN_MAP_BOUNDS } from '../../lib/constants';
+import { DOWNTOWN_AREAS, DOWNTOWN_STREETS } from '../../lib/basemap';
+import type { LatLng } from '../../lib/basemap';
+import { createMapProjection } from '../../lib/geo';
+import type { Location } from '../../lib/types';
+
+interface LocationsMapProps {
+  locations: Location[];
+  // Called with the location id when its pin is clicked
+  onSelect: (id: string) => void;
+}
+
+const MAP_WIDTH = 1000;
+const projection = createMapProjection(DOWNTOWN_MAP_BOUNDS, MAP_WIDTH);
+
+const toPoints = (points: LatLng[]) =>
+  points
+    .map(([lat, lng]) => {
+      const { x, y } = projection.project({ lat, lng });
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const AREA_FILL = {
+  water: 'fill-sky-100',
+  park: 'fill-emerald-100'
+};
+
+// One overview map for every room, drawn from the bundled basemap (lib/basemap.ts) rather
+// than an iframe per location. Pins are HTML buttons over the SVG, so keyboards reach them.
+const LocationsMap = ({ locations, onSelect }: LocationsMapProps) => {
+  const pinned = locations.filter((location) => projection.contains(location));
+
+  return (
+    <figure className="overflow-hidden rounded-3xl border border-stone-200 bg-white shadow-lg shadow-brand-100/60">
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${MAP_WIDTH} ${projection.height.toFixed(0)}`}
+          className="block h-auto w-full bg-stone-100"
+          aria-hidden="true"
+          focusable="false"
+        >
+          {DOWNTOWN_AREAS.map((area) => (
+            <polygon
+              key={area.name}
+              points={toPoints(area.points)}
+              className={AREA_FILL[area.kind]}
+            />
+          ))}
+          {DOWNTOWN_STREETS.map((street) => (
+            <polyline
+              key={street.name}
+              points={toPoints(street.points)}
+              className="fill-none stroke-white"
+              strokeWidth={6}
+              strokeLinecap="round"
+            />
+          ))}
+        </svg>
+        <ul>
+          {pinned.map((location) => {
+            const { x, y } = projection.project(location);
+            return (
+              <li
+                key={location.id}
+                className="absolute -translate-x-1/2 -translate-y-full"
+                style={{
+                  left: `${(x / projection.width) * 100}%`,
+                  top: `${(y / projection.height) * 100}%`
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(location.id)}
+                  aria-label={`Show ${location.name}`}
+                  className="focus-ring group flex flex-col items-center"
+                >
+                  <span className="whitespace-nowrap rounded-full bg-white px-2 py-0.5 text-xs font-semibold text-slate-900 shadow group-hover:bg-brand-600 group-hover:text-white">
+                    {location.name}
+                  </span>
+                  <span
+                    aria-hidden="true"
+                    className="mt-0.5 h-3 w-3 rounded-full border-2 border-white bg-brand-600 shadow"
+                  />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      <figcaption className="border-t border-stone-200 px-6 py-3 text-xs text-slate-500">
+        Every room in Downtown Vancouver. Select a pin to jump to its details.
+      </figcaption>
+    </figure>
+  );
+};
+
+export default LocationsMap;
@@ -1,20 +1,41 @@
+import { useState } from 'react';
+import Button from '../ui/Button';
+
 interface MapEmbedProps {
   title: string;
   src: string;
 }
 
+// Google Maps only loads when the guest asks for it: five iframes up front were heavy and
+// contacted a third party before anyone wanted a map (LocationsMap covers the overview).
 const MapEmbed = ({ title, src }: MapEmbedProps) => {
+  const [loaded, setLoaded] = useState(false);
+
   return (
     <div className="overflow-hidden rounded-3xl border border-stone-200 shadow-lg shadow-brand-100/60">
-      <iframe
-        title={title}
-        src={src}
-        loading="lazy"
-        allowFullScreen
-        referrerPolicy="no-referrer-when-downgrade"
-        sandbox="allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox"
-        className="h-64 w-full"
-      />
+      {loaded ? (
+        <iframe
+          title={title}
+          src={src}
+          loading="lazy"
+          allowFullScreen
+          referrerPolicy="no-referrer-when-downgrade"
+          sandbox="allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+          className="h-64 w-full"
+        />
+      ) : (
+        <div className="flex h-64 w-full flex-col items-center justify-center gap-3 bg-stone-100 p-6 text-center">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => setLoaded(true)}
+            aria-label={`Load ${title}`}
+          >
+            Load interactive map
+          </Button>
+          <p className="text-xs text-slate-500">Loads Google Maps, which may set cookies.</p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import { useId, useState } from 'react';
+import type { FormEvent } from 'react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { GeolocationError, getCurrentCoordinates, lookupArea } from '../../lib/geo';
+import type { DistanceOrigin } from '../../lib/geo';
+
+interface NearestLocationFinderProps {
+  origin: DistanceOrigin | null;
+  onOriginChange: (origin: DistanceOrigin | null) => void;
+}
+
+const GEOLOCATION_MESSAGES: Record<GeolocationError['reason'], string> = {
+  unsupported: "Your browser can't share your location.",
+  denied: 'Location access is turned off.',
+  unavailable: "We couldn't find your location.",
+  timeout: 'Finding your location took too long.'
+};
+
+// Opt-in "Find nearest": asks for the browser's location only when clicked, with a
+// postal code / neighbourhood search for guests who can't or won't share it.
+const NearestLocationFinder = ({ origin, onOriginChange }: NearestLocationFinderProps) => {
+  const inputId = useId();
+  const [query, setQuery] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const findMe = async () => {
+    setLocating(true);
+    setMessage(null);
+    try {
+      const coordinates = await getCurrentCoordinates();
+      onOriginChange({ coordinates, label: 'your location' });
+    } catch (error) {
+      const reason = error instanceof GeolocationError ? error.reason : 'unavailable';
+      setMessage(`${GEOLOCATION_MESSAGES[reason]} Enter a postal code or neighbourhood instead.`);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const search = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const area = lookupArea(query);
+    if (!area) {
+      setMessage(
+        `We couldn't find "${query.trim()}". Try a Vancouver postal code like V6B 1A1 or a neighbourhood such as Kitsilano.`
+      );
+      return;
+    }
+    setMessage(null);
+    // Show what the guest typed if it was a name, the prefix if it was a postal code
+    const typed = query.trim().toLowerCase();
+    const name = area.names.find((candidate) => candidate.toLowerCase() === typed);
+    onOriginChange({
+      coordinates: { lat: area.lat, lng: area.lng },
+      label: name ?? area.postalPrefix
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-end">
+        <Button type="button" onClick={findMe} disabled={locating} className="shrink-0">
+          {locating ? 'Finding you…' : 'Find nearest'}
+        </Button>
+        <form onSubmit={search} className="flex flex-1 flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-1">
+            <label htmlFor={inputId} className="text-xs font-medium text-slate-600">
+              Or enter a postal code or neighbourhood
+            </label>
+            <Input
+              id={inputId}
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="V6B 1A1, Kitsilano…"
+              autoComplete="postal-code"
+            />
+          </div>
+          <Button type="submit" variant="secondary" disabled={!query.trim()}>
+            Search
+          </Button>
+        </form>
+      </div>
+      <div aria-live="polite" className="text-sm">
+        {message ? (
+          <p className="text-amber-700">{message}</p>
+        ) : origin ? (
+          <p className="flex flex-wrap items-center gap-3 text-slate-600">
+            Sorted by distance from {origin.label}.
+            <button
+              type="button"
+              onClick={() => onOriginChange(null)}
+              className="focus-ring rounded text-brand-600 hover:text-brand-500"
+            >
+              Clear
+            </button>
+          </p>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default NearestLocationFinder;
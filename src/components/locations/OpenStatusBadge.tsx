@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import Badge from '../ui/Badge';
+import { describeOpenStatus, isOpenAt } from '../../lib/hours';
+import type { LocationSchedule } from '../../lib/hours';
+
+interface OpenStatusBadgeProps {
+  // Weekly hours and special hours; a Location works as-is
+  location: LocationSchedule;
+  className?: string;
+}
+
+// Re-check once a minute so the badge flips at opening and closing time
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// "Open now · closes 1am" / "Opens at 11:30am", in Vancouver time (see lib/hours.ts).
+const OpenStatusBadge = ({ location, className }: OpenStatusBadgeProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <Badge color={isOpenAt(location, now) ? 'success' : 'neutral'} className={className}>
+      {describeOpenStatus(location, now)}
+    </Badge>
+  );
+};
+
+export default OpenStatusBadge;
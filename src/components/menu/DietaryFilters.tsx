@@ -0,0 +1,66 @@
+import { ALLERGEN_LABELS, ALLERGENS, DIETARY_FLAGS, DIETARY_LABELS } from '../../lib/constants';
+import type { Allergen, DietaryFlag } from '../../lib/types';
+import { toggleListValue } from '../../lib/utils';
+import FacetChip from './FacetChip';
+
+interface DietaryFiltersProps {
+  dietary: DietaryFlag[];
+  onDietaryChange: (dietary: DietaryFlag[]) => void;
+  excludedAllergens: Allergen[];
+  onExcludedAllergensChange: (allergens: Allergen[]) => void;
+  // Live counts per flag (see lib/facets.ts); empty flags are disabled
+  dietaryCounts?: Record<DietaryFlag, number>;
+}
+
+// Multi-select dietary facets: "Dietary" includes, "Avoid" excludes allergens.
+const DietaryFilters = ({
+  dietary,
+  onDietaryChange,
+  excludedAllergens,
+  onExcludedAllergensChange,
+  dietaryCounts
+}: DietaryFiltersProps) => {
+  return (
+    <div className="space-y-3">
+      <div role="group" aria-labelledby="menu-dietary-label" className="flex flex-wrap items-center gap-2">
+        <span id="menu-dietary-label" className="mr-1 text-sm font-medium text-slate-700">
+          Dietary
+        </span>
+        {DIETARY_FLAGS.map((flag) => (
+          <FacetChip
+            key={flag}
+            label={DIETARY_LABELS[flag]}
+            pressed={dietary.includes(flag)}
+            tone="brand"
+            count={dietaryCounts?.[flag]}
+            onClick={() => onDietaryChange(toggleListValue(dietary, flag, DIETARY_FLAGS))}
+          />
+        ))}
+      </div>
+      <div role="group" aria-labelledby="menu-avoid-label" className="flex flex-wrap items-center gap-2">
+        <span id="menu-avoid-label" className="mr-1 text-sm font-medium text-slate-700">
+          Avoid
+        </span>
+        {ALLERGENS.map((allergen) => (
+          <FacetChip
+            key={allergen}
+            label={ALLERGEN_LABELS[allergen]}
+            pressed={excludedAllergens.includes(allergen)}
+            tone="avoid"
+            onClick={() =>
+              onExcludedAllergensChange(toggleListValue(excludedAllergens, allergen, ALLERGENS))
+            }
+          />
+        ))}
+      </div>
+      {excludedAllergens.length > 0 ? (
+        <p className="text-xs text-slate-500">
+          Dishes without a declared allergen list are hidden. Please confirm allergies with your
+          server.
+        </p>
+      ) : null}
+    </div>
+  );
+};
+
+export default DietaryFilters;
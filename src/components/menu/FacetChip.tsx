@@ -0,0 +1,45 @@
+import clsx from 'clsx';
+
+interface FacetChipProps {
+  label: string;
+  pressed: boolean;
+  tone: 'brand' | 'avoid';
+  onClick: () => void;
+  // Dishes this option would show; zero disables an unselected chip
+  count?: number;
+}
+
+// Toggle chip; aria-pressed lets screen readers announce the selection.
+const FacetChip = ({ label, pressed, tone, onClick, count }: FacetChipProps) => {
+  const isEmpty = count === 0 && !pressed;
+
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      disabled={isEmpty}
+      onClick={onClick}
+      className={clsx(
+        'focus-ring rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+        pressed
+          ? tone === 'brand'
+            ? 'border-brand-500 bg-brand-500 text-white'
+            : 'border-red-300 bg-red-50 text-red-700 line-through'
+          : 'border-stone-300 bg-white text-slate-600 hover:border-brand-200 hover:bg-brand-50/60',
+        isEmpty && 'cursor-not-allowed opacity-50 hover:border-stone-300 hover:bg-white'
+      )}
+    >
+      {label}
+      {count !== undefined ? (
+        <>
+          {' '}
+          <span className={clsx(pressed && tone === 'brand' ? 'text-brand-100' : 'text-slate-400')}>
+            {count}
+          </span>
+        </>
+      ) : null}
+    </button>
+  );
+};
+
+export default FacetChip;
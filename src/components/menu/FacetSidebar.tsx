@@ -0,0 +1,148 @@
+import type { ReactNode } from 'react';
+import { PRICE_BANDS } from '../../lib/constants';
+import type { MenuFacets } from '../../lib/facets';
+import type { Allergen, DietaryFlag, PriceBandId } from '../../lib/types';
+import { toggleListValue } from '../../lib/utils';
+import Button from '../ui/Button';
+import DietaryFilters from './DietaryFilters';
+import FacetChip from './FacetChip';
+import PriceRangeFilter from './PriceRangeFilter';
+import type { PriceRange } from './PriceRangeFilter';
+
+interface FacetSidebarProps {
+  // Live counts for the current search and selection
+  facets: MenuFacets;
+  dietary: DietaryFlag[];
+  onDietaryChange: (dietary: DietaryFlag[]) => void;
+  excludedAllergens: Allergen[];
+  onExcludedAllergensChange: (allergens: Allergen[]) => void;
+  // Selected tag slugs, e.g. ['share-plate']
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  priceBands: PriceBandId[];
+  onPriceBandsChange: (priceBands: PriceBandId[]) => void;
+  minPrice?: number;
+  maxPrice?: number;
+  onPriceRangeChange: (range: PriceRange) => void;
+  includeUnpriced: boolean;
+  onIncludeUnpricedChange: (include: boolean) => void;
+  onClear: () => void;
+}
+
+interface FacetGroupProps {
+  id: string;
+  title: string;
+  children: ReactNode;
+}
+
+const FacetGroup = ({ id, title, children }: FacetGroupProps) => (
+  <div role="group" aria-labelledby={id} className="space-y-2">
+    <span id={id} className="block text-sm font-medium text-slate-700">
+      {title}
+    </span>
+    <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+// Sidebar facets with live counts; options that would empty the grid are disabled.
+const FacetSidebar = ({
+  facets,
+  dietary,
+  onDietaryChange,
+  excludedAllergens,
+  onExcludedAllergensChange,
+  tags,
+  onTagsChange,
+  priceBands,
+  onPriceBandsChange,
+  minPrice,
+  maxPrice,
+  onPriceRangeChange,
+  includeUnpriced,
+  onIncludeUnpricedChange,
+  onClear
+}: FacetSidebarProps) => {
+  const hasSelection =
+    dietary.length > 0 ||
+    excludedAllergens.length > 0 ||
+    tags.length > 0 ||
+    priceBands.length > 0 ||
+    minPrice !== undefined ||
+    maxPrice !== undefined ||
+    !includeUnpriced;
+
+  return (
+    <aside
+      aria-label="Refine the menu"
+      className="space-y-6 rounded-[28px] border border-stone-200 bg-white p-6 shadow-lg shadow-brand-100/50"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="font-display text-lg font-semibold text-slate-900">Refine</h2>
+        {hasSelection ? (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+        ) : null}
+      </div>
+      <DietaryFilters
+        dietary={dietary}
+        onDietaryChange={onDietaryChange}
+        excludedAllergens={excludedAllergens}
+        onExcludedAllergensChange={onExcludedAllergensChange}
+        dietaryCounts={facets.dietary}
+      />
+      <FacetGroup id="menu-price-facet" title="Price">
+        {PRICE_BANDS.map((band) => (
+          <FacetChip
+            key={band.id}
+            label={band.label}
+            pressed={priceBands.includes(band.id)}
+            tone="brand"
+            count={facets.priceBands[band.id]}
+            onClick={() =>
+              onPriceBandsChange(
+                toggleListValue(
+                  priceBands,
+                  band.id,
+                  PRICE_BANDS.map((entry) => entry.id)
+                )
+              )
+            }
+          />
+        ))}
+      </FacetGroup>
+      <PriceRangeFilter
+        histogram={facets.prices}
+        minPrice={minPrice}
+        maxPrice={maxPrice}
+        onRangeChange={onPriceRangeChange}
+        includeUnpriced={includeUnpriced}
+        onIncludeUnpricedChange={onIncludeUnpricedChange}
+      />
+      {facets.tags.length > 0 ? (
+        <FacetGroup id="menu-tag-facet" title="Tags">
+          {facets.tags.map((tag) => (
+            <FacetChip
+              key={tag.value}
+              label={tag.label}
+              pressed={tags.includes(tag.value)}
+              tone="brand"
+              count={tag.count}
+              onClick={() =>
+                onTagsChange(
+                  toggleListValue(
+                    tags,
+                    tag.value,
+                    facets.tags.map((entry) => entry.value)
+                  )
+                )
+              }
+            />
+          ))}
+        </FacetGroup>
+      ) : null}
+    </aside>
+  );
+};
+
+export default FacetSidebar;
@@ -0,0 +1,35 @@
+import clsx from 'clsx';
+import type { MenuItem } from '../../lib/types';
+import { useFavouritesStore } from '../../store/favourites.store';
+
+interface FavouriteButtonProps {
+  item: MenuItem;
+  className?: string;
+}
+
+// Star toggle; aria-pressed announces whether the dish is a favourite.
+const FavouriteButton = ({ item, className }: FavouriteButtonProps) => {
+  const isFavourite = useFavouritesStore((state) => item.id in state.favourites);
+  const toggleFavourite = useFavouritesStore((state) => state.toggleFavourite);
+
+  return (
+    <button
+      type="button"
+      aria-pressed={isFavourite}
+      aria-label={`Favourite ${item.title}`}
+      title={isFavourite ? 'Remove from favourites' : 'Save to favourites'}
+      onClick={() => toggleFavourite(item)}
+      className={clsx(
+        'focus-ring inline-flex h-9 w-9 items-center justify-center rounded-full border text-lg leading-none shadow-sm transition-colors',
+        isFavourite
+          ? 'border-amber-300 bg-amber-50 text-amber-500'
+          : 'border-stone-200 bg-white/90 text-slate-400 hover:text-amber-500',
+        className
+      )}
+    >
+      <span aria-hidden="true">{isFavourite ? '★' : '☆'}</span>
+    </button>
+  );
+};
+
+export default FavouriteButton;
@@ -0,0 +1,26 @@
+import { highlightMatches } from '../../lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  // Normalized words to highlight (SearchHit.terms)
+  terms?: Set<string>;
+}
+
+// Wraps search matches in <mark> so guests see why a dish showed up.
+const HighlightedText = ({ text, terms }: HighlightedTextProps) => {
+  return (
+    <>
+      {highlightMatches(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded bg-brand-100 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
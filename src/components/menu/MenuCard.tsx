@@ -1,45 +1,52 @@
 /**
  * MenuCard Component
  *
- * Displays a single menu item with image, title, description, price, and tags.
+ * Displays a single menu item with image, title, description, price, rating,
+ * origin, and tags, plus a star to save it to favourites.
  *
- * Zustand Usage Pattern (No Prop Drilling):
- * - This component calls useUIStore directly to get openMenuItem action
- * - No need to pass onQuickView prop from MenuPage → MenuGrid → MenuCard
- * - MenuGrid doesn't need to know about modal state at all
+ * Deep-Linkable Details (No Modal State):
+ * - "Details" links to /menu/:itemId, carrying the list's query params along
+ * - The nested route (MenuItemPage) opens the modal over the filtered list
+ * - MenuGrid doesn't need to know about the modal at all
  *
  * Component Hierarchy:
- * MenuPage (reads activeMenuItem)
- *   └─ MenuGrid (no modal knowledge)
- *        └─ MenuCard (calls openMenuItem directly) ← THIS COMPONENT
+ * MenuPage (renders <Outlet /> for /menu/:itemId)
+ *   ├─ MenuGrid (no modal knowledge)
+ *   │    └─ MenuCard (links to the dish route) ← THIS COMPONENT
+ *   └─ MenuItemPage (modal for the dish in the URL)
  *
  * When user clicks "Details" button:
- * 1. MenuCard calls openMenuItem(item)
- * 2. Zustand updates global activeMenuItem state
- * 3. MenuPage (subscribed to activeMenuItem) re-renders
- * 4. Modal shows with item details
+ * 1. URL changes: /menu?category=burgers → /menu/kitchen-seawall-burger?category=burgers
+ * 2. MenuPage keeps rendering the same filtered list from the query params
+ * 3. MenuItemPage looks the dish up and shows the modal
+ * 4. Closing goes back to /menu?category=burgers
  */
 
 import { useState, type SyntheticEvent } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import Card from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
-import { formatCurrency } from '../../lib/utils';
+import FavouriteButton from './FavouriteButton';
+import HighlightedText from './HighlightedText';
+import { formatCurrency, formatRating } from '../../lib/utils';
 import type { MenuItem } from '../../lib/types';
-import { useUIStore } from '../../store/ui.store';
+import type { MenuItemLinkState } from '../../pages/Menu/MenuItemPage';
 
 const FALLBACK_IMAGE = '/src/assets/placeholder.jpg';
 
 interface MenuCardProps {
   item: MenuItem;
-  // Note: No onQuickView prop needed! Zustand handles it globally
+  // Words matched by the current search, highlighted in title and description
+  highlightTerms?: Set<string>;
+  // Note: No onQuickView prop needed! The dish route handles it
 }
 
-const MenuCard = ({ item }: MenuCardProps) => {
-  // ===== ZUSTAND GLOBAL STATE =====
-  // Get action directly from store - no prop drilling!
-  // This is the correct way to use Zustand for global actions
-  const openMenuItem = useUIStore((state) => state.openMenuItem);
+const MenuCard = ({ item, highlightTerms }: MenuCardProps) => {
+  // ===== DISH ROUTE =====
+  // Keep the list's filters in the link so the modal opens over the same list
+  const { search } = useLocation();
+  const linkState: MenuItemLinkState = { fromMenu: true };
 
   // ===== LOCAL COMPONENT STATE =====
   // Image fallback is local to this card, not global
@@ -75,18 +82,42 @@ const MenuCard = ({ item }: MenuCardProps) => {
           <Badge className="absolute left-4 top-4 border border-brand-300 bg-white/90 text-brand-700 shadow-sm backdrop-blur">
             {formatCurrency(item.price)}
           </Badge>
+          <FavouriteButton item={item} className="absolute right-4 top-4 backdrop-blur" />
         </div>
       }
       footer={
         <div className="flex items-center justify-between gap-2">
-          <h3 className="font-display text-lg font-semibold text-slate-900">{item.title}</h3>
-          <Button size="sm" variant="secondary" onClick={() => openMenuItem(item)}>
-            Details
+          <h3 className="font-display text-lg font-semibold text-slate-900">
+            <HighlightedText text={item.title} terms={highlightTerms} />
+          </h3>
+          <Button asChild size="sm" variant="secondary">
+            <Link
+              to={{ pathname: `/menu/${encodeURIComponent(item.id)}`, search }}
+              state={linkState}
+              aria-label={`Details for ${item.title}`}
+            >
+              Details
+            </Link>
           </Button>
         </div>
       }
     >
-      <p className="text-sm text-slate-600">{item.description}</p>
+      <p className="text-sm text-slate-600">
+        <HighlightedText text={item.description} terms={highlightTerms} />
+      </p>
+      {item.rating !== undefined || item.origin ? (
+        <p className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-500">
+          {item.rating !== undefined ? (
+            <span className="font-semibold text-amber-600">
+              <span aria-hidden="true">★ </span>
+              <span className="sr-only">Rated </span>
+              {formatRating(item.rating)}
+              <span className="sr-only"> out of 5</span>
+            </span>
+          ) : null}
+          {item.origin ? <span>{item.origin}</span> : null}
+        </p>
+      ) : null}
       {item.tags && item.tags.length > 0 ? (
         <div className="mt-4 flex flex-wrap gap-2">
           {item.tags.slice(0, 3).map((tag) => (
@@ -0,0 +1,64 @@
+import { CATEGORY_LABELS, MENU_CATEGORIES } from '../../lib/constants';
+import type { MenuLoadResult } from '../../lib/types';
+
+interface MenuDiagnosticsProps {
+  result: MenuLoadResult;
+}
+
+// Development-only panel exposing category load status and rejected payload items.
+// MenuPage renders it behind import.meta.env.DEV so it never ships to guests.
+const MenuDiagnostics = ({ result }: MenuDiagnosticsProps) => {
+  return (
+    <details className="rounded-3xl border border-dashed border-stone-300 bg-stone-50 p-6 text-xs text-slate-600">
+      <summary className="cursor-pointer font-semibold uppercase tracking-[0.3em] text-slate-500">
+        Menu diagnostics ({result.rejections.length} rejected items)
+      </summary>
+      <div className="mt-4 grid gap-6 md:grid-cols-2">
+        <table className="w-full text-left">
+          <caption className="mb-2 text-left font-semibold text-slate-700">Category status</caption>
+          <thead>
+            <tr className="text-slate-500">
+              <th className="pr-4 font-medium">Category</th>
+              <th className="pr-4 font-medium">State</th>
+              <th className="pr-4 font-medium">Source</th>
+              <th className="font-medium">Items</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MENU_CATEGORIES.map((category) => {
+              const status = result.categories[category];
+              return (
+                <tr key={category} title={status?.reason}>
+                  <td className="pr-4">{CATEGORY_LABELS[category]}</td>
+                  <td className="pr-4">{status?.state ?? 'not requested'}</td>
+                  <td className="pr-4">{status?.source ?? '—'}</td>
+                  <td>{status?.itemCount ?? 0}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div>
+          <p className="mb-2 font-semibold text-slate-700">Rejected items</p>
+          {result.rejections.length === 0 ? (
+            <p>Every payload item passed validation.</p>
+          ) : (
+            <ul className="space-y-2">
+              {result.rejections.map((rejection) => (
+                <li key={`${rejection.endpoint}-${rejection.index}`} className="font-mono">
+                  {rejection.endpoint}[{rejection.index}]
+                  {rejection.itemId ? ` (id ${rejection.itemId})` : ''}:{' '}
+                  {rejection.issues
+                    .map((issue) => `${issue.path.join('.') || '(item)'} ${issue.message}`)
+                    .join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default MenuDiagnostics;
@@ -1,5 +1,9 @@
-import type { Category } from '../../lib/types';
-import { CATEGORY_LABELS } from '../../lib/constants';
+import clsx from 'clsx';
+import type { Category, MenuLoadResult, MenuSort } from '../../lib/types';
+import { CATEGORY_LABELS, MENU_SORT_PRESETS } from '../../lib/constants';
+import type { MenuFacets } from '../../lib/facets';
+import type { MenuQueryError } from '../../lib/query';
+import { describeSort, formatSortParam, parseSortParam } from '../../lib/sort';
 import Input from '../ui/Input';
 import Select from '../ui/Select';
 import Tabs from '../ui/Tabs';
@@ -8,23 +12,63 @@ interface MenuFiltersProps {
   categories: Category[];
   activeCategory?: Category;
   onCategoryChange: (category?: Category) => void;
+  // The Favourites tab replaces the category tabs' filter while selected
+  showFavourites?: boolean;
+  // Starred dishes on the current menu (ones that left it aren't counted)
+  favouritesCount?: number;
+  onFavouritesSelect: () => void;
   search: string;
   onSearchChange: (value: string) => void;
-  sort?: 'price_asc' | 'price_desc';
-  onSortChange: (sort?: 'price_asc' | 'price_desc') => void;
+  // Problems with filter tokens in the search text (see lib/query.ts)
+  searchErrors?: MenuQueryError[];
+  sort?: MenuSort[];
+  onSortChange: (sort?: MenuSort[]) => void;
+  // Origins present in the loaded menu; the origin filter hides when empty
+  origins: string[];
+  origin?: string;
+  onOriginChange: (origin?: string) => void;
   totalItems: number;
+  // Live counts per tab; empty tabs are disabled (see lib/facets.ts)
+  facets?: MenuFacets;
+  // Per-category load status; non-'ok' tabs get a degraded marker
+  categoryStatus?: MenuLoadResult['categories'];
 }
 
+// Dish count next to a tab label
+const TabCount = ({ count }: { count?: number }) =>
+  count === undefined ? null : (
+    <>
+      {' '}
+      <span className="ml-2 rounded-full bg-stone-100 px-2 text-xs text-slate-500">{count}</span>
+    </>
+  );
+
 const MenuFilters = ({
   categories,
   activeCategory,
   onCategoryChange,
+  showFavourites = false,
+  favouritesCount,
+  onFavouritesSelect,
   search,
   onSearchChange,
+  searchErrors = [],
   sort,
   onSortChange,
-  totalItems
+  origins,
+  origin,
+  onOriginChange,
+  totalItems,
+  facets,
+  categoryStatus
 }: MenuFiltersProps) => {
+  // Relevance only means something while a search is active
+  const sortOptions = search ? [...MENU_SORT_PRESETS, ['relevance' as const]] : MENU_SORT_PRESETS;
+  const sortValue = sort ? formatSortParam(sort) : '';
+  // A compound sort from a shared link stays selectable even if it isn't a preset
+  const isCustomSort =
+    sortValue !== '' && !sortOptions.some((option) => formatSortParam(option) === sortValue);
+
   return (
     // Encapsulates all filter controls so the page can keep URL/state logic external.
     <section className="space-y-4 rounded-[28px] border border-stone-200 bg-white p-6 shadow-lg shadow-brand-100/50">
@@ -35,38 +79,97 @@ const MenuFilters = ({
             {totalItems} dishes curated for Cascade &amp; Coast.
           </p>
         </div>
-        <Select
-          value={sort ?? ''}
-          onChange={(event) => {
-            const value = event.target.value as 'price_asc' | 'price_desc' | '';
-            onSortChange(value ? value : undefined);
-          }}
-          aria-label="Sort menu items"
-          className="sm:w-56"
-        >
-          <option value="">Sort by</option>
-          <option value="price_asc">Price: Low to High</option>
-          <option value="price_desc">Price: High to Low</option>
-        </Select>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          {origins.length > 0 ? (
+            <Select
+              value={origin ?? ''}
+              onChange={(event) => onOriginChange(event.target.value || undefined)}
+              aria-label="Filter by origin"
+              className="sm:w-56"
+            >
+              <option value="">All origins</option>
+              {origins.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </Select>
+          ) : null}
+          <Select
+            value={sortValue}
+            onChange={(event) => onSortChange(parseSortParam(event.target.value))}
+            aria-label="Sort menu items"
+            className="sm:w-56"
+          >
+            <option value="">Sort by</option>
+            {sortOptions.map((option) => (
+              <option key={formatSortParam(option)} value={formatSortParam(option)}>
+                {describeSort(option)}
+              </option>
+            ))}
+            {isCustomSort && sort ? <option value={sortValue}>{describeSort(sort)}</option> : null}
+          </Select>
+        </div>
       </div>
       <Tabs
-        value={activeCategory ?? 'all'}
+        value={showFavourites ? 'favourites' : (activeCategory ?? 'all')}
         onValueChange={(value) => {
-          if (value === 'all') {
+          if (value === 'favourites') {
+            onFavouritesSelect();
+          } else if (value === 'all') {
             onCategoryChange(undefined);
           } else {
             onCategoryChange(value as Category);
           }
         }}
       >
-        {/* Tabs expose the curated category list; "All" clears the filter. */}
+        {/* Tabs expose the curated category list; "All" clears the filter and
+            "Favourites" narrows to starred dishes. */}
         <Tabs.List>
-          <Tabs.Trigger value="all">All</Tabs.Trigger>
-          {categories.map((category) => (
-            <Tabs.Trigger key={category} value={category}>
-              {CATEGORY_LABELS[category]}
-            </Tabs.Trigger>
-          ))}
+          <Tabs.Trigger value="all">
+            All
+            <TabCount count={facets?.allCategories} />
+          </Tabs.Trigger>
+          {categories.map((category) => {
+            const status = categoryStatus?.[category];
+            const isDegraded = status !== undefined && status.state !== 'ok';
+            const count = facets?.categories[category];
+
+            return (
+              <Tabs.Trigger
+                key={category}
+                value={category}
+                title={isDegraded ? status.reason : undefined}
+                disabled={count === 0 && category !== activeCategory}
+                className="disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {CATEGORY_LABELS[category]}
+                {/* Flag tabs whose data only partially loaded (or not at all). */}
+                {isDegraded ? (
+                  <>
+                    <span
+                      aria-hidden="true"
+                      className={clsx(
+                        'ml-2 inline-block h-2 w-2 rounded-full',
+                        status.state === 'failed' ? 'bg-red-400' : 'bg-amber-400'
+                      )}
+                    />
+                    <span className="sr-only">
+                      {status.state === 'failed' ? ' (unavailable)' : ' (partially loaded)'}
+                    </span>
+                  </>
+                ) : null}
+                <TabCount count={count} />
+              </Tabs.Trigger>
+            );
+          })}
+          <Tabs.Trigger value="favourites">
+            <span aria-hidden="true" className="mr-1 text-amber-500">
+              ★
+            </span>
+            Favourites
+            <TabCount count={favouritesCount} />
+          </Tabs.Trigger>
         </Tabs.List>
       </Tabs>
       <label className="block text-sm font-medium text-slate-700" htmlFor="menu-search">
@@ -78,7 +181,21 @@ const MenuFilters = ({
         placeholder="Search for flavors, ingredients, or dietary tags"
         value={search}
         onChange={(event) => onSearchChange(event.target.value)}
+        aria-describedby="menu-search-help menu-search-errors"
+        aria-invalid={searchErrors.length > 0 || undefined}
       />
+      <p id="menu-search-help" className="text-xs text-slate-500">
+        Narrow results with filters like <code>tag:vegetarian</code>, <code>price:&lt;20</code>,{' '}
+        <code>category:sides</code> or <code>rating:&gt;=4.5</code>.
+      </p>
+      {/* Polite live region so errors are read once typing settles, not per keystroke. */}
+      <ul id="menu-search-errors" aria-live="polite" className="space-y-1 text-xs text-red-700">
+        {searchErrors.map((searchError) => (
+          <li key={`${searchError.token}-${searchError.message}`}>
+            <code className="font-semibold">{searchError.token}</code>: {searchError.message}
+          </li>
+        ))}
+      </ul>
     </section>
   );
 };
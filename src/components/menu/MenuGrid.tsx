@@ -1,14 +1,34 @@
 import MenuCard from './MenuCard';
+import VirtualMenuGrid from './VirtualMenuGrid';
 import Skeleton from '../ui/Skeleton';
-import type { MenuItem } from '../../lib/types';
+import type { MenuItem, MenuView } from '../../lib/types';
 
 interface MenuGridProps {
   items: MenuItem[];
   isLoading?: boolean;
   skeletonCount?: number;
+  // Matched search words by item id; highlighted on each card
+  highlights?: Record<string, string[]>;
+  // Continuous virtualizes offscreen rows and reports the scroll position
+  view?: MenuView;
+  // Continuous only: item to scroll to once loaded
+  initialIndex?: number;
+  // Continuous only: first item in the top row on screen
+  onTopIndexChange?: (index: number) => void;
+  // Continuous only: the last loaded row is coming into view
+  onEndReached?: () => void;
 }
 
-const MenuGrid = ({ items, isLoading = false, skeletonCount = 6 }: MenuGridProps) => {
+const MenuGrid = ({
+  items,
+  isLoading = false,
+  skeletonCount = 6,
+  highlights,
+  view = 'paged',
+  initialIndex,
+  onTopIndexChange,
+  onEndReached
+}: MenuGridProps) => {
   if (isLoading) {
     // Mirror the final layout shape while data loads to avoid layout shift.
     return (
@@ -20,11 +40,27 @@ const MenuGrid = ({ items, isLoading = false, skeletonCount = 6 }: MenuGridProps
     );
   }
 
+  if (view === 'continuous') {
+    return (
+      <VirtualMenuGrid
+        items={items}
+        highlights={highlights}
+        initialIndex={initialIndex}
+        onTopIndexChange={onTopIndexChange}
+        onEndReached={onEndReached}
+      />
+    );
+  }
+
   return (
     <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
       {/* Render each dish as a MenuCard once content is ready. */}
       {items.map((item) => (
-        <MenuCard key={item.id} item={item} />
+        <MenuCard
+          key={item.id}
+          item={item}
+          highlightTerms={highlights?.[item.id] ? new Set(highlights[item.id]) : undefined}
+        />
       ))}
     </div>
   );
@@ -0,0 +1,85 @@
+import Badge from '../ui/Badge';
+import Skeleton from '../ui/Skeleton';
+import FavouriteButton from './FavouriteButton';
+import { ALLERGEN_LABELS, DIETARY_LABELS } from '../../lib/constants';
+import type { MenuItem } from '../../lib/types';
+import { formatCurrency, formatRating } from '../../lib/utils';
+
+interface MenuItemDetailsProps {
+  // null once loaded means the dish isn't on the menu
+  item: MenuItem | null;
+  isPending: boolean;
+}
+
+// Body of the dish details dialog: photo, price, favourite star, dietary and allergen notes.
+const MenuItemDetails = ({ item, isPending }: MenuItemDetailsProps) => {
+  if (isPending) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-56 w-full" />
+        <Skeleton className="h-4 w-3/4" />
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <p className="text-sm text-slate-600">
+        This dish isn't on the menu right now. It may have been a seasonal special.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <img
+        src={item.imageUrl ?? '/src/assets/placeholder.jpg'}
+        alt={item.title}
+        className="h-56 w-full rounded-3xl border border-white object-cover"
+      />
+      <p className="text-sm text-slate-600">{item.description}</p>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-semibold text-slate-900">{formatCurrency(item.price)}</span>
+        {item.rating !== undefined ? (
+          <span className="text-amber-600">
+            <span aria-hidden="true">★ </span>
+            <span className="sr-only">Rated </span>
+            {formatRating(item.rating)}
+            <span className="sr-only"> out of 5</span>
+          </span>
+        ) : null}
+        {item.origin ? <span className="text-slate-500">From {item.origin}</span> : null}
+        <FavouriteButton item={item} className="ml-auto" />
+      </div>
+      {item.dietary && item.dietary.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {item.dietary.map((flag) => (
+            <Badge key={flag} color="success">
+              {DIETARY_LABELS[flag]}
+            </Badge>
+          ))}
+        </div>
+      ) : null}
+      <p className="text-xs text-slate-500">
+        {item.allergens === undefined
+          ? 'Allergen information unavailable; please ask your server.'
+          : item.allergens.length > 0
+            ? `Contains: ${item.allergens
+                .map((allergen) => ALLERGEN_LABELS[allergen])
+                .join(', ')}`
+            : 'No priority allergens declared.'}
+      </p>
+      {item.tags ? (
+        <div className="flex flex-wrap gap-2">
+          {item.tags.map((tag) => (
+            <Badge key={tag} color="neutral">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default MenuItemDetails;
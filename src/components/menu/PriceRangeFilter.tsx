@@ -0,0 +1,117 @@
+import clsx from 'clsx';
+import type { PriceHistogram } from '../../lib/facets';
+import { formatCurrency } from '../../lib/utils';
+
+export interface PriceRange {
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+interface PriceRangeFilterProps {
+  // Prices across the current results, ignoring the range itself
+  histogram: PriceHistogram;
+  minPrice?: number;
+  maxPrice?: number;
+  // Handles at either end of the axis clear that bound
+  onRangeChange: (range: PriceRange) => void;
+  includeUnpriced: boolean;
+  onIncludeUnpricedChange: (include: boolean) => void;
+}
+
+// Native range inputs stacked on one track; only the thumbs take pointer events.
+const thumbClassName =
+  'pointer-events-none absolute inset-x-0 bottom-0 h-2 w-full appearance-none bg-transparent ' +
+  '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 ' +
+  '[&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full ' +
+  '[&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:bg-brand-500 ' +
+  '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 ' +
+  '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white ' +
+  '[&::-moz-range-thumb]:bg-brand-500';
+
+// Dual-handle price slider over a histogram of dish prices.
+const PriceRangeFilter = ({
+  histogram,
+  minPrice,
+  maxPrice,
+  onRangeChange,
+  includeUnpriced,
+  onIncludeUnpricedChange
+}: PriceRangeFilterProps) => {
+  const { min, max, bins, unpriced } = histogram;
+  const low = Math.min(Math.max(minPrice ?? min, min), max);
+  const high = Math.max(Math.min(maxPrice ?? max, max), low);
+  const tallest = Math.max(1, ...bins.map((bin) => bin.count));
+
+  // Drop bounds that sit on the axis ends so the URL only holds real limits
+  const commit = (nextLow: number, nextHigh: number) =>
+    onRangeChange({
+      minPrice: nextLow > min ? nextLow : undefined,
+      maxPrice: nextHigh < max ? nextHigh : undefined
+    });
+
+  return (
+    <div role="group" aria-labelledby="menu-price-range-label" className="space-y-3">
+      <div className="flex items-baseline justify-between">
+        <span id="menu-price-range-label" className="text-sm font-medium text-slate-700">
+          Price range
+        </span>
+        {bins.length > 0 ? (
+          <span className="text-xs text-slate-500">
+            {formatCurrency(low)} – {formatCurrency(high)}
+          </span>
+        ) : null}
+      </div>
+      {bins.length > 0 ? (
+        <div>
+          {/* Histogram of the current results; bars outside the range fade out. */}
+          <div aria-hidden="true" className="flex h-12 items-end gap-0.5">
+            {bins.map((bin) => (
+              <div
+                key={bin.from}
+                className={clsx(
+                  'flex-1 rounded-t',
+                  bin.to > low && bin.from <= high ? 'bg-brand-300' : 'bg-stone-200'
+                )}
+                style={{ height: `${Math.max(bin.count > 0 ? 8 : 0, (bin.count / tallest) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <div className="relative h-4">
+            <div className="absolute inset-x-0 bottom-[3px] h-0.5 rounded bg-stone-200" />
+            <input
+              type="range"
+              aria-label="Minimum price"
+              min={min}
+              max={max}
+              step={1}
+              value={low}
+              onChange={(event) => commit(Math.min(Number(event.target.value), high), high)}
+              className={thumbClassName}
+            />
+            <input
+              type="range"
+              aria-label="Maximum price"
+              min={min}
+              max={max}
+              step={1}
+              value={high}
+              onChange={(event) => commit(low, Math.max(Number(event.target.value), low))}
+              className={thumbClassName}
+            />
+          </div>
+        </div>
+      ) : null}
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={includeUnpriced}
+          onChange={(event) => onIncludeUnpricedChange(event.target.checked)}
+          className="focus-ring h-4 w-4 rounded border-stone-300 text-brand-500"
+        />
+        Include Market Price dishes{unpriced > 0 ? ` (${unpriced})` : ''}
+      </label>
+    </div>
+  );
+};
+
+export default PriceRangeFilter;
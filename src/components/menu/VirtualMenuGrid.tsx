@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import MenuCard from './MenuCard';
+import { ESTIMATED_MENU_ROW_HEIGHT, VIRTUAL_OVERSCAN_ROWS } from '../../lib/constants';
+import type { MenuItem } from '../../lib/types';
+import { getGridColumnCount, getVirtualRange } from '../../lib/virtual';
+
+interface VirtualMenuGridProps {
+  items: MenuItem[];
+  // Matched search words by item id; highlighted on each card
+  highlights?: Record<string, string[]>;
+  // Item to scroll to once it has loaded, e.g. the first dish of ?page=3
+  initialIndex?: number;
+  // First item in the top row on screen, reported as the user scrolls
+  onTopIndexChange?: (index: number) => void;
+  // The last loaded row is about to come into view
+  onEndReached?: () => void;
+}
+
+interface Viewport {
+  // How far the viewport top is past the grid top
+  scrollOffset: number;
+  height: number;
+  width: number;
+}
+
+// Matches gap-6 on the grid
+const ROW_GAP = 24;
+
+// Continuous menu grid: renders only the card rows near the viewport.
+const VirtualMenuGrid = ({
+  items,
+  highlights,
+  initialIndex = 0,
+  onTopIndexChange,
+  onEndReached
+}: VirtualMenuGridProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>(() => ({
+    scrollOffset: 0,
+    height: window.innerHeight,
+    width: window.innerWidth
+  }));
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_MENU_ROW_HEIGHT);
+  // Position reports wait until the initial scroll lands, or ?page= would reset to 1
+  const [isRestored, setIsRestored] = useState(initialIndex === 0);
+  const lastTopIndex = useRef<number>();
+
+  const columns = getGridColumnCount(viewport.width);
+  const rowCount = Math.ceil(items.length / columns);
+  const { startRow, endRow } = getVirtualRange({
+    scrollOffset: viewport.scrollOffset,
+    viewportHeight: viewport.height,
+    rowHeight,
+    rowCount,
+    overscan: VIRTUAL_OVERSCAN_ROWS
+  });
+  const topRow = Math.min(Math.floor(viewport.scrollOffset / rowHeight), rowCount - 1);
+  const topIndex = Math.max(topRow, 0) * columns;
+
+  // Average height of the rendered rows (0 before layout, e.g. in tests)
+  const measureRowHeight = useCallback(() => {
+    const renderedRows = endRow - startRow;
+    const height = gridRef.current?.getBoundingClientRect().height ?? 0;
+    return renderedRows > 0 && height > 0 ? (height + ROW_GAP) / renderedRows : 0;
+  }, [startRow, endRow]);
+
+  // Track the window scroll; one measurement per animation frame
+  useEffect(() => {
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) {
+        return;
+      }
+      setViewport({
+        scrollOffset: -container.getBoundingClientRect().top,
+        height: window.innerHeight,
+        width: window.innerWidth
+      });
+    };
+    const schedule = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(measure);
+      }
+    };
+
+    measure();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) {
+        window.cancelAnimationFrame(frame);
+      }
+    };
+  }, []);
+
+  // Replace the estimate with the average height of the rendered rows
+  // (again whenever the rendered window moves)
+  useLayoutEffect(() => {
+    const measured = measureRowHeight();
+    if (measured > 0 && Math.abs(measured - rowHeight) > 1) {
+      setRowHeight(measured);
+    }
+  }, [measureRowHeight, rowHeight]);
+
+  // Bring the requested item into view once its page has loaded
+  useLayoutEffect(() => {
+    if (isRestored || items.length <= initialIndex || !containerRef.current) {
+      return;
+    }
+    const gridTop = containerRef.current.getBoundingClientRect().top + window.scrollY;
+    const scrollOffset = Math.floor(initialIndex / columns) * (measureRowHeight() || rowHeight);
+    window.scrollTo({ top: gridTop + scrollOffset });
+    // Don't wait for the scroll event, or the first report would still say the top
+    setViewport((current) => ({ ...current, scrollOffset }));
+    setIsRestored(true);
+  }, [isRestored, items.length, initialIndex, columns, measureRowHeight, rowHeight]);
+
+  useEffect(() => {
+    if (isRestored && lastTopIndex.current !== topIndex) {
+      lastTopIndex.current = topIndex;
+      onTopIndexChange?.(topIndex);
+    }
+  }, [isRestored, topIndex, onTopIndexChange]);
+
+  useEffect(() => {
+    if (isRestored && rowCount > 0 && endRow >= rowCount) {
+      onEndReached?.();
+    }
+  }, [isRestored, rowCount, endRow, onEndReached]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        paddingTop: startRow * rowHeight,
+        paddingBottom: Math.max(rowCount - endRow, 0) * rowHeight
+      }}
+    >
+      <div ref={gridRef} className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {items.slice(startRow * columns, endRow * columns).map((item) => (
+          <MenuCard
+            key={item.id}
+            item={item}
+            highlightTerms={highlights?.[item.id] ? new Set(highlights[item.id]) : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualMenuGrid;
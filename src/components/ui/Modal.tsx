@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useId, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import Button from './Button';
 
@@ -8,28 +8,53 @@ interface ModalProps {
   title: string;
   description?: string;
   children: React.ReactNode;
+  // Only the top dialog of a stack (see ModalHost) handles Escape and traps Tab
+  isTopmost?: boolean;
 }
 
+const FOCUSABLE_SELECTOR =
+  'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
 // Accessible modal portal with a minimal focus trap and escape handling.
-const Modal = ({ isOpen, onClose, title, description, children }: ModalProps) => {
+const Modal = ({ isOpen, onClose, title, description, children, isTopmost = true }: ModalProps) => {
+  // Unique per dialog so stacked dialogs don't share label ids
+  const id = useId();
+  const titleId = `${id}-title`;
+  const descriptionId = `${id}-description`;
   const dialogRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
+  // Latest onClose, so a new handler each render doesn't re-run the focus effect
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
 
+  // Focus the dialog on open; hand focus back to whatever opened it on close
   useEffect(() => {
     if (!isOpen) {
       return undefined;
     }
 
     const previouslyFocusedElement = document.activeElement as HTMLElement | null;
+    closeButtonRef.current?.focus();
+
+    return () => {
+      // The opener may be gone by now (e.g. a virtualized card scrolled away)
+      if (previouslyFocusedElement?.isConnected) {
+        previouslyFocusedElement.focus();
+      }
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !isTopmost) {
+      return undefined;
+    }
 
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
-        onClose();
+        onCloseRef.current();
       }
       if (event.key === 'Tab') {
-        const focusableElements = dialogRef.current?.querySelectorAll<HTMLElement>(
-          'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-        );
+        const focusableElements = dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR);
         if (!focusableElements || focusableElements.length === 0) {
           return;
         }
@@ -48,13 +73,11 @@ const Modal = ({ isOpen, onClose, title, description, children }: ModalProps) =>
     };
 
     document.addEventListener('keydown', handleKeyDown);
-    closeButtonRef.current?.focus();
 
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
-      previouslyFocusedElement?.focus();
     };
-  }, [isOpen, onClose]);
+  }, [isOpen, isTopmost]);
 
   if (!isOpen) {
     return null;
@@ -64,8 +87,8 @@ const Modal = ({ isOpen, onClose, title, description, children }: ModalProps) =>
     <div
       role="dialog"
       aria-modal="true"
-      aria-labelledby="modal-title"
-      aria-describedby={description ? 'modal-description' : undefined}
+      aria-labelledby={titleId}
+      aria-describedby={description ? descriptionId : undefined}
       className="fixed inset-0 z-[60] flex items-center justify-center"
     >
       <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" aria-hidden="true" onClick={onClose} />
@@ -75,11 +98,11 @@ const Modal = ({ isOpen, onClose, title, description, children }: ModalProps) =>
       >
         <div className="flex items-start justify-between gap-6">
           <div>
-            <h2 id="modal-title" className="font-display text-2xl font-semibold text-slate-900">
+            <h2 id={titleId} className="font-display text-2xl font-semibold text-slate-900">
               {title}
             </h2>
             {description ? (
-              <p id="modal-description" className="mt-2 text-sm text-slate-600">
+              <p id={descriptionId} className="mt-2 text-sm text-slate-600">
                 {description}
               </p>
             ) : null}
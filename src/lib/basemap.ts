@@ -0,0 +1,143 @@
+/**
+ * Downtown Vancouver Basemap
+ *
+ * A hand-simplified outline of the downtown peninsula for the LocationsMap
+ * overview, shipped with the app so the map needs no tiles, API key or
+ * third-party requests. Land is the map background; water and parks are
+ * drawn over it, then a few streets for orientation.
+ *
+ * Points are [lat, lng] and deliberately coarse (a few hundred metres at
+ * worst): enough to tell Coal Harbour from Yaletown, not to navigate by.
+ * Shapes may run past DOWNTOWN_MAP_BOUNDS; the map clips them.
+ */
+
+export type LatLng = [lat: number, lng: number];
+
+export interface BasemapArea {
+  kind: 'water' | 'park';
+  name: string;
+  points: LatLng[];
+}
+
+export interface BasemapStreet {
+  name: string;
+  points: LatLng[];
+}
+
+export const DOWNTOWN_AREAS: BasemapArea[] = [
+  {
+    kind: 'water',
+    name: 'Burrard Inlet',
+    points: [
+      [49.3005, -123.1175],
+      [49.305, -123.1175],
+      [49.305, -123.09],
+      [49.2862, -123.09],
+      [49.2862, -123.095],
+      [49.2865, -123.105],
+      [49.2875, -123.11],
+      [49.2895, -123.112],
+      [49.289, -123.116],
+      [49.2905, -123.121],
+      [49.292, -123.128],
+      [49.2935, -123.132],
+      [49.295, -123.1365],
+      [49.2965, -123.133],
+      [49.298, -123.125]
+    ]
+  },
+  {
+    kind: 'water',
+    name: 'English Bay and False Creek',
+    points: [
+      [49.305, -123.16],
+      [49.299, -123.155],
+      [49.293, -123.1505],
+      [49.2905, -123.1455],
+      [49.287, -123.1425],
+      [49.2835, -123.14],
+      [49.28, -123.137],
+      [49.277, -123.1345],
+      [49.2748, -123.13],
+      [49.2735, -123.1255],
+      [49.2722, -123.122],
+      [49.2735, -123.117],
+      [49.275, -123.112],
+      [49.2758, -123.1085],
+      [49.2745, -123.104],
+      [49.2728, -123.102],
+      [49.2705, -123.104],
+      [49.2695, -123.11],
+      [49.27, -123.118],
+      [49.27, -123.126],
+      [49.271, -123.133],
+      [49.272, -123.138],
+      [49.274, -123.142],
+      [49.277, -123.1445],
+      [49.2765, -123.15],
+      [49.274, -123.156],
+      [49.2735, -123.16]
+    ]
+  },
+  {
+    kind: 'park',
+    name: 'Stanley Park',
+    points: [
+      [49.295, -123.1365],
+      [49.293, -123.142],
+      [49.2925, -123.15],
+      [49.299, -123.155],
+      [49.305, -123.158],
+      [49.305, -123.1175],
+      [49.3005, -123.1175],
+      [49.298, -123.125],
+      [49.2965, -123.133]
+    ]
+  }
+];
+
+export const DOWNTOWN_STREETS: BasemapStreet[] = [
+  {
+    name: 'W Georgia St',
+    points: [
+      [49.2937, -123.1356],
+      [49.283, -123.1175],
+      [49.279, -123.1115]
+    ]
+  },
+  {
+    name: 'Robson St',
+    points: [
+      [49.2908, -123.138],
+      [49.28, -123.1185]
+    ]
+  },
+  {
+    name: 'Davie St',
+    points: [
+      [49.287, -123.143],
+      [49.2745, -123.1225]
+    ]
+  },
+  {
+    name: 'Granville St',
+    points: [
+      [49.2857, -123.1145],
+      [49.276, -123.132]
+    ]
+  },
+  {
+    name: 'Burrard St',
+    points: [
+      [49.2875, -123.12],
+      [49.278, -123.1385]
+    ]
+  },
+  {
+    name: 'Denman St',
+    points: [
+      [49.2945, -123.1365],
+      [49.2875, -123.1425]
+    ]
+  }
+];
@@ -0,0 +1,158 @@
+/**
+ * Categorization Engine
+ *
+ * Decides which curated category an API item belongs to when an endpoint
+ * feeds several categories (/drinks → cocktails + beverages, /bbqs →
+ * sandwiches + sides + mains).
+ *
+ * Rules (CATEGORY_RULES in constants.ts):
+ * - Keywords match whole words only ("tea" does not match "steak"),
+ *   plurals included ("rib" matches "Baby Back Ribs")
+ * - Exclusion terms rule a category out ("club soda" is never a sandwich)
+ * - Each matched keyword scores one point per word, so phrases like
+ *   "old fashioned" outweigh a single generic word
+ * - Ties go to the higher priority, then to the earlier candidate
+ *
+ * Every item gets at most ONE category, so the same dish can no longer show
+ * up under both Cocktails and Beverages.
+ *
+ * Example:
+ * const categorize = createCategorizer();
+ * categorize('Pulled Pork Sandwich', ['sandwiches', 'sides', 'mains']);
+ * // → { category: 'sandwiches', confidence: 0.5, matched: ['sandwich'] }
+ */
+
+import { CATEGORY_RULES, MENU_CATEGORIES } from './constants';
+import type { Category, CategoryMatch, CategoryRule } from './types';
+
+interface CompiledTerm {
+  term: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+interface CompiledRule {
+  keywords: CompiledTerm[];
+  exclude: CompiledTerm[];
+  priority: number;
+}
+
+export type Categorizer = (
+  title: string,
+  candidates?: readonly Category[]
+) => CategoryMatch | null;
+
+/**
+ * Normalize text for matching
+ *
+ * Examples:
+ * - "Mac & Cheese" → "mac and cheese"
+ * - "Po' Boy" → "po boy"
+ * - "Café de Olla" → "cafe de olla"
+ */
+export function normalizeTitle(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileTerm(term: string): CompiledTerm {
+  const normalized = normalizeTitle(term);
+  return {
+    term,
+    // Whole words only; the last word may be pluralized
+    pattern: new RegExp(`\\b${escapeRegExp(normalized)}(?:s|es)?\\b`),
+    weight: normalized.split(' ').length
+  };
+}
+
+function compileRule(rule: CategoryRule): CompiledRule {
+  return {
+    keywords: rule.keywords.map(compileTerm),
+    exclude: (rule.exclude ?? []).map(compileTerm),
+    priority: rule.priority
+  };
+}
+
+/**
+ * Build a categorizer from a rule set (compiled once)
+ *
+ * Returns null when no candidate category matches; callers drop the item.
+ *
+ * Confidence is the winner's score divided by the combined score of every
+ * matching candidate:
+ * - "Maple Old Fashioned" → only cocktails match → 1
+ * - "Chicken Wings" → wings (sides) vs chicken (mains), but "chicken wings"
+ *   excludes mains → sides, 1
+ * - "Pulled Pork Sandwich" → sandwich vs pork → sandwiches by priority, 0.5
+ */
+export function createCategorizer(
+  rules: Partial<Record<Category, CategoryRule>> = CATEGORY_RULES
+): Categorizer {
+  const compiled = new Map<Category, CompiledRule>();
+  for (const category of MENU_CATEGORIES) {
+    const rule = rules[category];
+    if (rule) {
+      compiled.set(category, compileRule(rule));
+    }
+  }
+
+  return (title, candidates = MENU_CATEGORIES) => {
+    const haystack = normalizeTitle(title);
+    if (!haystack) {
+      return null;
+    }
+
+    const scored: Array<{ category: Category; score: number; priority: number; matched: string[] }> =
+      [];
+
+    for (const category of candidates) {
+      const rule = compiled.get(category);
+      if (!rule || rule.exclude.some((term) => term.pattern.test(haystack))) {
+        continue;
+      }
+
+      const hits = rule.keywords.filter((keyword) => keyword.pattern.test(haystack));
+      if (hits.length === 0) {
+        continue;
+      }
+
+      scored.push({
+        category,
+        score: hits.reduce((total, hit) => total + hit.weight, 0),
+        priority: rule.priority,
+        matched: hits.map((hit) => hit.term)
+      });
+    }
+
+    if (scored.length === 0) {
+      return null;
+    }
+
+    // Array.prototype.sort is stable, so equal entries keep candidate order
+    scored.sort((a, b) => b.score - a.score || b.priority - a.priority);
+
+    const [best] = scored;
+    const total = scored.reduce((sum, entry) => sum + entry.score, 0);
+
+    return {
+      category: best.category,
+      confidence: Math.round((best.score / total) * 100) / 100,
+      matched: best.matched
+    };
+  };
+}
+
+/**
+ * Categorizer for the shipped CATEGORY_RULES
+ */
+export const categorizeItem: Categorizer = createCategorizer();
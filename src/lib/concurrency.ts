@@ -0,0 +1,46 @@
+/**
+ * Concurrency Limiter
+ *
+ * Runs async tasks with at most `concurrency` in flight; extra tasks wait in
+ * FIFO order. Used by menu.service.ts so a full menu load doesn't open a
+ * request for every endpoint at once.
+ *
+ * Example:
+ * const limit = createLimiter(2);
+ * await Promise.all(urls.map((url) => limit(() => httpGet(url))));
+ * // never more than 2 requests open at a time
+ */
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  const max = Math.max(1, Math.floor(concurrency));
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= max) {
+      return;
+    }
+
+    const run = queue.shift();
+    if (run) {
+      active += 1;
+      run();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            active -= 1;
+            next();
+          });
+      });
+      next();
+    });
+}
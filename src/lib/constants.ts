@@ -11,7 +11,21 @@
  * touching component code.
  */
 
-import type { Category, Location } from './types';
+import type { RetryPolicy } from './http';
+import type {
+  Allergen,
+  Category,
+  CategoryRule,
+  DietaryFlag,
+  HoursOverride,
+  Location,
+  LookupArea,
+  MapBounds,
+  MenuCompositionStrategy,
+  MenuSort,
+  MenuView,
+  PriceBand
+} from './types';
 
 /**
  * External Menu API Base URL
@@ -21,6 +35,61 @@ import type { Category, Location } from './types';
  */
 export const API_BASE_URL = 'https://free-food-menus-api-two.vercel.app';
 
+/**
+ * Active Menu Source
+ *
+ * Selects which MenuSource implementation fetchMenuItems reads from.
+ * Set VITE_MENU_SOURCE in .env to switch without touching code:
+ * - 'remote' (default): External menu API above
+ * - 'static': Kitchen-maintained JSON file at STATIC_MENU_URL
+ * - 'fallback': In-memory FALLBACK_MENU_ITEMS (offline demos, tests)
+ *
+ * Unknown values are rejected by getMenuSource() and fall back to 'remote'.
+ */
+export const MENU_SOURCE: string = import.meta.env.VITE_MENU_SOURCE ?? 'remote';
+
+/**
+ * Static Menu File URL
+ *
+ * Served from public/menu.json so the kitchen can publish its own data
+ * without a backend. Used by the 'static' menu source.
+ */
+export const STATIC_MENU_URL = '/menu.json';
+
+/**
+ * Menu Payload Cache TTL (milliseconds)
+ *
+ * How long fetched endpoint payloads are reused across fetchMenuItems calls
+ * in the same session (see services/payload.cache.ts). Kept in line with the
+ * React Query staleTime in main.tsx (5 minutes).
+ * Set VITE_MENU_PAYLOAD_TTL_MS=0 to only share payloads within one call.
+ * Empty, negative or non-numeric values keep the 5-minute default.
+ */
+const DEFAULT_MENU_PAYLOAD_TTL_MS = 1000 * 60 * 5;
+const parseTtl = (value: string | undefined): number => {
+  const ttl = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_MENU_PAYLOAD_TTL_MS;
+};
+export const MENU_PAYLOAD_TTL_MS = parseTtl(import.meta.env.VITE_MENU_PAYLOAD_TTL_MS);
+
+/**
+ * Menu Request Limits
+ *
+ * MENU_FETCH_CONCURRENCY: Max endpoint requests in flight during one menu load
+ * MENU_REQUEST_TIMEOUT_MS: Per-request timeout so one slow endpoint can't stall the menu
+ * MENU_RETRY_POLICY: Per-endpoint retry for transient failures (5xx, 429, timeouts).
+ *   Kept to one retry because React Query retries the whole query on top of it.
+ *
+ * Used by menu.service.ts and passed down to httpGet through the fetch context.
+ */
+export const MENU_FETCH_CONCURRENCY = 4;
+export const MENU_REQUEST_TIMEOUT_MS = 8000;
+export const MENU_RETRY_POLICY: RetryPolicy = {
+  retries: 1,
+  baseDelayMs: 250,
+  maxDelayMs: 2000
+};
+
 /**
  * Menu Categories (Order matters - displayed in this order in UI)
  *
@@ -57,6 +126,128 @@ export const CATEGORY_LABELS: Record<Category, string> = {
   mains: 'Chef Specials'       // Custom label for better UX
 };
 
+/**
+ * Dietary Flags and Allergens
+ *
+ * Order here is the order of the filter chips in MenuFilters.
+ * Values are URL-safe and appear in ?diet= and ?avoid= as comma lists:
+ * - /menu?diet=vegetarian,gluten-free&avoid=tree-nuts
+ */
+export const DIETARY_FLAGS: DietaryFlag[] = [
+  'vegan',
+  'vegetarian',
+  'gluten-free',
+  'gluten-free-option',
+  'dairy-free',
+  'nut-free',
+  'alcohol-free'
+];
+
+export const DIETARY_LABELS: Record<DietaryFlag, string> = {
+  vegan: 'Vegan',
+  vegetarian: 'Vegetarian',
+  'gluten-free': 'Gluten-Free',
+  'gluten-free-option': 'Gluten-Free Option',
+  'dairy-free': 'Dairy-Free',
+  'nut-free': 'Nut-Free',
+  'alcohol-free': 'Zero Proof'
+};
+
+export const ALLERGENS: Allergen[] = [
+  'eggs',
+  'milk',
+  'mustard',
+  'peanuts',
+  'shellfish',
+  'fish',
+  'sesame',
+  'soy',
+  'sulphites',
+  'tree-nuts',
+  'wheat'
+];
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  eggs: 'Eggs',
+  milk: 'Milk',
+  mustard: 'Mustard',
+  peanuts: 'Peanuts',
+  shellfish: 'Shellfish',
+  fish: 'Fish',
+  sesame: 'Sesame',
+  soy: 'Soy',
+  sulphites: 'Sulphites',
+  'tree-nuts': 'Tree Nuts',
+  wheat: 'Wheat'
+};
+
+/**
+ * Menu Sorting
+ *
+ * MENU_SORTS: Every key accepted in ?sort=, alone or comma-combined
+ * MENU_SORT_PRESETS: What the sort Select offers, in order
+ * MAX_SORT_KEYS: Longest compound sort kept from the URL
+ *
+ * Examples:
+ * - /menu?sort=name_asc → A to Z
+ * - /menu?sort=category,price_asc → Burgers cheapest first, then Sandwiches...
+ */
+export const MENU_SORTS: MenuSort[] = [
+  'price_asc',
+  'price_desc',
+  'name_asc',
+  'name_desc',
+  'rating_desc',
+  'newest',
+  'chefs_pick',
+  'category',
+  'relevance'
+];
+
+export const MENU_SORT_LABELS: Record<MenuSort, string> = {
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  name_asc: 'Name: A to Z',
+  name_desc: 'Name: Z to A',
+  rating_desc: 'Top Rated',
+  newest: 'Newest',
+  chefs_pick: "Chef's Picks",
+  category: 'Category',
+  relevance: 'Best Match'
+};
+
+export const MENU_SORT_PRESETS: MenuSort[][] = [
+  ['price_asc'],
+  ['price_desc'],
+  ['name_asc'],
+  ['name_desc'],
+  ['rating_desc'],
+  ['newest'],
+  ['chefs_pick'],
+  ['category', 'price_asc'],
+  ['category', 'rating_desc']
+];
+
+export const MAX_SORT_KEYS = 3;
+
+/**
+ * Menu Facets
+ *
+ * PRICE_BANDS: Price facet options, in display order (?price=under-15,15-25)
+ * MAX_TAG_FACETS: Most common tags offered as facets; selected tags always show
+ * PRICE_HISTOGRAM_BINS: Bars in the price range histogram
+ */
+export const PRICE_BANDS: PriceBand[] = [
+  { id: 'under-15', label: 'Under $15', max: 15 },
+  { id: '15-25', label: '$15 – $25', min: 15, max: 25 },
+  { id: '25-35', label: '$25 – $35', min: 25, max: 35 },
+  { id: '35-plus', label: '$35 & up', min: 35 }
+];
+
+export const MAX_TAG_FACETS = 12;
+
+export const PRICE_HISTOGRAM_BINS = 10;
+
 /**
  * Category to API Endpoints Mapping
  *
@@ -66,7 +257,7 @@ export const CATEGORY_LABELS: Record<Category, string> = {
  * - desserts: Combines desserts + chocolates + ice cream
  *
  * Note: Both cocktails and beverages use /drinks endpoint
- * but are differentiated by CATEGORY_KEYWORDS
+ * but are differentiated by CATEGORY_RULES
  *
  * Used in menu.service.ts to fetch category data
  */
@@ -74,46 +265,227 @@ export const CATEGORY_ENDPOINTS: Record<Category, string[]> = {
   burgers: ['/burgers'],
   sandwiches: ['/sandwiches', '/bbqs'],
   sides: ['/fried-chicken', '/bbqs', '/porks'],
-  cocktails: ['/drinks'],      // Filtered by keywords
-  beverages: ['/drinks'],       // Filtered by keywords
+  cocktails: ['/drinks'],      // Categorized by CATEGORY_RULES
+  beverages: ['/drinks'],       // Categorized by CATEGORY_RULES
   desserts: ['/desserts', '/chocolates', '/ice-cream'],
   mains: ['/steaks', '/porks', '/bbqs']
 };
 
 /**
- * Category Keywords for Item Filtering
+ * Menu Composition per Category
  *
- * When an endpoint returns mixed items, keywords determine categorization.
+ * Declares which data wins for each category when MenuPage builds the menu
+ * (see services/menu.composition.ts):
+ * - cocktails: 'curated' → our signature cocktails, never the API's drinks
+ * - everything else: 'remote' → loaded data, curated dishes only as stand-ins
  *
- * Critical for /drinks endpoint:
- * - "Maple Old Fashioned" → Contains "old fashioned" → cocktails
- * - "Iced Coffee" → Contains "coffee" → beverages
+ * Switch a category to 'merge' to feature curated dishes alongside loaded ones.
+ */
+export const MENU_COMPOSITION: Record<Category, MenuCompositionStrategy> = {
+  burgers: 'remote',
+  sandwiches: 'remote',
+  sides: 'remote',
+  cocktails: 'curated',
+  beverages: 'remote',
+  desserts: 'remote',
+  mains: 'remote'
+};
+
+/**
+ * Category Rules for Item Categorization
+ *
+ * When an endpoint returns mixed items, these rules pick ONE category per item
+ * among the categories that share the endpoint (see lib/categorize.ts).
  *
- * Used in menu.service.ts matchesCategory() function
- * Case-insensitive matching on item title
+ * Critical for /drinks and /bbqs:
+ * - "Maple Old Fashioned" → "old fashioned" → cocktails
+ * - "Iced Coffee" → "coffee" → beverages
+ * - "Pulled Pork Sandwich" → pork (mains) vs sandwich (sandwiches) → tie, sandwiches has priority
+ * - "Club Soda" → "club soda" excludes sandwiches → beverages
  *
- * Example: item.title.toLowerCase().includes('old fashioned') → cocktails
+ * Matching is case-insensitive, on whole words, and accepts plurals ("rib" → "Ribs").
  */
-export const CATEGORY_KEYWORDS: Record<Category, string[]> = {
-  burgers: ['burger', 'cheeseburger', 'patty', 'smash'],
-  sandwiches: ['sandwich', 'panini', 'club', 'wrap', 'sub'],
-  sides: ['fries', 'rings', 'sticks', 'bites', 'wings', 'slaw'],
-  cocktails: ['cocktail', 'spritz', 'old fashioned', 'martini', 'margarita', 'mojito', 'negroni', 'manhattan'],
-  beverages: ['coffee', 'tea', 'soda', 'juice', 'beer', 'wine', 'latte', 'cappuccino'],
-  desserts: ['cake', 'pie', 'dessert', 'brownie', 'ice cream', 'torte', 'cheesecake', 'sweet'],
-  mains: ['steak', 'salmon', 'rib', 'pasta', 'chicken', 'pork', 'shrimp', 'prime']
+export const CATEGORY_RULES: Record<Category, CategoryRule> = {
+  burgers: {
+    keywords: ['burger', 'cheeseburger', 'hamburger', 'patty', 'smash', 'slider'],
+    priority: 3
+  },
+  sandwiches: {
+    keywords: ['sandwich', 'panini', 'club', 'wrap', 'sub', 'hoagie', 'po boy', 'melt', 'bun'],
+    exclude: ['club soda'],
+    priority: 3
+  },
+  sides: {
+    keywords: [
+      'fries', 'rings', 'sticks', 'bites', 'wings', 'slaw', 'coleslaw', 'mac and cheese',
+      'cornbread', 'beans', 'tenders', 'nuggets', 'links', 'potato salad'
+    ],
+    priority: 2
+  },
+  cocktails: {
+    keywords: [
+      'cocktail', 'spritz', 'old fashioned', 'martini', 'margarita', 'mojito', 'negroni',
+      'manhattan', 'bloody mary', 'mule', 'julep', 'sangria', 'daiquiri', 'paloma', 'sour'
+    ],
+    priority: 2
+  },
+  beverages: {
+    keywords: [
+      'coffee', 'tea', 'soda', 'juice', 'beer', 'wine', 'latte', 'cappuccino', 'espresso',
+      'cold brew', 'lemonade', 'cola', 'coke', 'hot chocolate', 'smoothie', 'water'
+    ],
+    priority: 1
+  },
+  desserts: {
+    keywords: [
+      'cake', 'pie', 'dessert', 'brownie', 'ice cream', 'torte', 'cheesecake', 'sweet',
+      'cookie', 'truffle', 'gelato', 'sundae', 'pudding'
+    ],
+    exclude: ['sweet potato', 'sweet tea', 'pork pie'],
+    priority: 1
+  },
+  mains: {
+    keywords: [
+      'steak', 'salmon', 'rib', 'pasta', 'chicken', 'pork', 'shrimp', 'prime', 'brisket',
+      'burnt ends', 'turkey', 'tenderloin', 'chop', 'roast'
+    ],
+    exclude: ['chicken wings', 'chicken tenders', 'chicken nuggets'],
+    priority: 1
+  }
 };
 
 /**
  * Pagination Settings
  *
- * ITEMS_PER_PAGE: Number of menu items shown per page (MenuPage.tsx)
- * MAX_ITEMS_PER_CATEGORY: Limit per category from API to avoid overwhelming UI
+ * ITEMS_PER_PAGE: Menu items per query page and per page of the paged view (MenuPage.tsx)
+ * MAX_ITEMS_PER_CATEGORY: Limit per category from the API
  *
- * Both set to 9 for a 3x3 grid layout (responsive: 1 col mobile, 2 cols tablet, 3 cols desktop)
+ * 9 per page fills a 3x3 grid (responsive: 1 col mobile, 2 cols tablet, 3 cols desktop).
+ * Categories can hold more since results are paged and the continuous view virtualizes.
  */
 export const ITEMS_PER_PAGE = 9;
-export const MAX_ITEMS_PER_CATEGORY = 9;
+export const MAX_ITEMS_PER_CATEGORY = 24;
+
+/**
+ * Menu Views (?view=)
+ *
+ * Paged is the default and stays out of the URL.
+ */
+export const MENU_VIEWS: MenuView[] = ['paged', 'continuous'];
+
+export const MENU_VIEW_LABELS: Record<MenuView, string> = {
+  paged: 'Pages',
+  continuous: 'Continuous'
+};
+
+/**
+ * Continuous View Virtualization
+ *
+ * ESTIMATED_MENU_ROW_HEIGHT: Card row height (px, including the gap) until
+ * the first rows are measured
+ * VIRTUAL_OVERSCAN_ROWS: Rows kept rendered above and below the viewport;
+ * reaching the last one loads the next page
+ */
+export const ESTIMATED_MENU_ROW_HEIGHT = 520;
+export const VIRTUAL_OVERSCAN_ROWS = 2;
+
+/**
+ * Restaurant Time Zone
+ *
+ * Every location is in Downtown Vancouver, so hours, open-now badges and
+ * reservation dates use Vancouver's wall clock (see lib/hours.ts), not the
+ * guest's browser time zone.
+ */
+export const RESTAURANT_TIME_ZONE = 'America/Vancouver';
+
+/**
+ * Reservations
+ *
+ * RESERVATION_SEATING_INTERVAL_MINUTES: Gap between bookable times (6:00pm, 6:30pm...)
+ * RESERVATION_LAST_SEATING_MINUTES: Last seating this long before closing
+ * RESERVATION_SEATS_PER_SLOT: Guests one location seats per seating time, across bookings
+ * MIN_PARTY_SIZE / MAX_PARTY_SIZE: Online bookings; larger groups call the location
+ * RESERVATION_BOOKING_WINDOW_DAYS: How far ahead the date picker reaches
+ *
+ * Slots come from each location's hours (see lib/reservations.ts), so a
+ * change to LOCATIONS hours changes what can be booked.
+ */
+export const RESERVATION_SEATING_INTERVAL_MINUTES = 30;
+export const RESERVATION_LAST_SEATING_MINUTES = 60;
+export const RESERVATION_SEATS_PER_SLOT = 24;
+export const MIN_PARTY_SIZE = 1;
+export const MAX_PARTY_SIZE = 10;
+export const RESERVATION_BOOKING_WINDOW_DAYS = 60;
+
+/**
+ * Nearest Location
+ *
+ * WALKING_SPEED_KMH: Pace for walk time estimates, on the straight-line distance
+ * GEOLOCATION_TIMEOUT_MS: How long to wait for the browser to find the guest
+ * LOOKUP_AREAS: Postal code prefixes and neighbourhoods for guests who don't
+ *   share their location; each point is roughly the middle of the area
+ */
+export const WALKING_SPEED_KMH = 5;
+export const GEOLOCATION_TIMEOUT_MS = 10000;
+
+// What the LocationsMap overview shows: Stanley Park to False Creek
+export const DOWNTOWN_MAP_BOUNDS: MapBounds = {
+  north: 49.3,
+  south: 49.267,
+  west: -123.155,
+  east: -123.095
+};
+
+export const LOOKUP_AREAS: LookupArea[] = [
+  {
+    postalPrefix: 'V6A',
+    names: ['Strathcona', 'Chinatown', 'Railtown'],
+    lat: 49.279,
+    lng: -123.096
+  },
+  {
+    postalPrefix: 'V6B',
+    names: ['Downtown', 'Yaletown', 'Gastown', 'Crosstown'],
+    lat: 49.28,
+    lng: -123.115
+  },
+  { postalPrefix: 'V6C', names: ['Coal Harbour', 'Waterfront'], lat: 49.288, lng: -123.116 },
+  {
+    postalPrefix: 'V6E',
+    names: ['Financial District', 'Robson', 'Alberni'],
+    lat: 49.286,
+    lng: -123.129
+  },
+  {
+    postalPrefix: 'V6G',
+    names: ['West End', 'Denman', 'Stanley Park'],
+    lat: 49.292,
+    lng: -123.138
+  },
+  { postalPrefix: 'V6Z', names: ['Granville', 'Davie Village'], lat: 49.279, lng: -123.127 },
+  { postalPrefix: 'V6H', names: ['Fairview', 'South Granville'], lat: 49.264, lng: -123.13 },
+  { postalPrefix: 'V6J', names: ['Kitsilano', 'Kits'], lat: 49.268, lng: -123.155 },
+  { postalPrefix: 'V5T', names: ['Mount Pleasant', 'Main Street'], lat: 49.263, lng: -123.1 },
+  { postalPrefix: 'V5L', names: ['Grandview', 'Commercial Drive'], lat: 49.276, lng: -123.069 }
+];
+
+/**
+ * Special Hours
+ *
+ * Holiday hours every location shares; a location adds its own one-off
+ * dates (private events, closures) alongside them in LOCATIONS.
+ *
+ * SPECIAL_HOURS_NOTICE_DAYS: How far ahead LocationCard highlights special hours
+ */
+export const SPECIAL_HOURS_NOTICE_DAYS = 30;
+
+const HOLIDAY_HOURS: HoursOverride[] = [
+  { date: '2026-12-24', hours: '11:00am – 6:00pm', note: 'Christmas Eve' },
+  { date: '2026-12-25', closed: true, note: 'Christmas Day' },
+  { date: '2026-12-26', hours: '4:00pm – 11:00pm', note: 'Boxing Day' },
+  { date: '2026-12-31', hours: '5:00pm – 2:00am', note: "New Year's Eve" },
+  { date: '2027-01-01', hours: '12:00pm – 9:00pm', note: "New Year's Day" }
+];
 
 /**
  * Restaurant Locations
@@ -121,7 +493,7 @@ export const MAX_ITEMS_PER_CATEGORY = 9;
  * Hardcoded location data for all restaurant branches
  * Includes: address, hours, phone, map embed URLs, parking/transit info
  *
- * Used in LocationsPage.tsx and HomePage.tsx (featured locations)
+ * Used in LocationsPage.tsx, HomePage.tsx (featured locations) and ReservePage.tsx
  */
 export const LOCATIONS: Location[] = [
   {
@@ -140,6 +512,7 @@ export const LOCATIONS: Location[] = [
       saturday: '10:00am – 1:00am',
       sunday: '10:00am – 11:00pm'
     },
+    specialHours: HOLIDAY_HOURS,
     notes: {
       neighborhood: 'Steps from the seawall with harbour views.',
       parking: 'Validated parking in the adjacent convention centre parkade.',
@@ -164,6 +537,7 @@ export const LOCATIONS: Location[] = [
       saturday: '10:00am – 1:00am',
       sunday: '10:00am – 10:00pm'
     },
+    specialHours: HOLIDAY_HOURS,
     notes: {
       neighborhood: 'Converted warehouse space with patio laneway seating.',
       parking: 'Metered street parking and EasyPark Lot 179.',
@@ -188,6 +562,10 @@ export const LOCATIONS: Location[] = [
       saturday: '10:00am – 1:00am',
       sunday: '10:00am – 10:00pm'
     },
+    specialHours: [
+      ...HOLIDAY_HOURS,
+      { date: '2026-11-14', closed: true, note: 'Private event' }
+    ],
     notes: {
       neighborhood: 'Brick-and-beam lounge overlooking Maple Tree Square.',
       parking: 'Impark lot at 150 Water St and street parking after 6pm.',
@@ -212,6 +590,7 @@ export const LOCATIONS: Location[] = [
       saturday: '10:00am – 12:00am',
       sunday: '10:00am – 10:00pm'
     },
+    specialHours: HOLIDAY_HOURS,
     notes: {
       neighborhood: 'Sunset lounge with English Bay views and weekend DJs.',
       parking: 'Underground parking off Davie St and secure bike racks.',
@@ -236,6 +615,7 @@ export const LOCATIONS: Location[] = [
       saturday: '10:30am – 12:00am',
       sunday: '10:30am – 9:00pm'
     },
+    specialHours: HOLIDAY_HOURS,
     notes: {
       neighborhood: 'Two-level space featuring a chef’s counter and mezzanine bar.',
       parking: 'Underground valet after 4pm; hourly parking at Bentall Centre.',
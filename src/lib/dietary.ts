@@ -0,0 +1,122 @@
+/**
+ * Dietary & Allergen Normalizer
+ *
+ * Menu tags are free text written for guests ('Gluten-Friendly Option',
+ * 'Zero Proof', 'Vegetarian'). This module maps them onto the typed
+ * DietaryFlag and Allergen fields so filters don't depend on wording.
+ *
+ * Mapping examples:
+ * - 'Vegetarian' → dietary: ['vegetarian']
+ * - 'Vegan' → dietary: ['vegan', 'vegetarian', 'dairy-free'] (implied)
+ * - 'Gluten-Free' → dietary: ['gluten-free']
+ * - 'Gluten-Friendly Option' → dietary: ['gluten-free-option']
+ * - 'Zero Proof' → dietary: ['alcohol-free']
+ * - 'Contains Nuts' → allergens: ['tree-nuts']
+ *
+ * Tags that describe neither ('Share Plate', 'Signature') are ignored and
+ * stay in `tags` for display.
+ */
+
+import { ALLERGENS, DIETARY_FLAGS } from './constants';
+import type { Allergen, DietaryFlag, MenuItem } from './types';
+
+// Checked in order; the first pattern that matches a tag wins
+const DIETARY_TAG_PATTERNS: Array<[RegExp, DietaryFlag]> = [
+  [/\bvegan\b|\bplant[- ]based\b/, 'vegan'],
+  [/\bvegetarian\b|\bveggie\b/, 'vegetarian'],
+  [/\bgluten[- ]?(?:friendly|free)[- ]option\b|\bgluten[- ]friendly\b/, 'gluten-free-option'],
+  [/\bgluten[- ]?free\b|\bceliac\b|^gf$/, 'gluten-free'],
+  [/\bdairy[- ]?free\b|\blactose[- ]?free\b/, 'dairy-free'],
+  [/\bnut[- ]?free\b/, 'nut-free'],
+  [/\bzero[- ]proof\b|\bspirit[- ]free\b|\bnon[- ]alcoholic\b|\balcohol[- ]free\b|\bmocktail\b/, 'alcohol-free']
+];
+
+// Words in a "Contains ..." tag and the allergen they declare
+const ALLERGEN_WORD_PATTERNS: Array<[RegExp, Allergen]> = [
+  [/\begg/, 'eggs'],
+  [/\bmilk\b|\bdairy\b/, 'milk'],
+  [/\bmustard\b/, 'mustard'],
+  [/\bpeanut/, 'peanuts'],
+  [/\bshellfish\b|\bcrustacean|\bmollusc/, 'shellfish'],
+  [/\bfish\b/, 'fish'],
+  [/\bsesame\b/, 'sesame'],
+  [/\bsoy/, 'soy'],
+  [/\bsul(?:ph|f)ite/, 'sulphites'],
+  [/\btree[- ]nuts?\b|\bnuts?\b/, 'tree-nuts'],
+  [/\bwheat\b|\bgluten\b/, 'wheat']
+];
+
+// Flags that follow from another flag
+const IMPLIED_FLAGS: Partial<Record<DietaryFlag, DietaryFlag[]>> = {
+  vegan: ['vegetarian', 'dairy-free']
+};
+
+function inOrder<T extends string>(values: Set<T>, order: readonly T[]): T[] {
+  return order.filter((value) => values.has(value));
+}
+
+function withImpliedFlags(flags: Iterable<DietaryFlag>): Set<DietaryFlag> {
+  const expanded = new Set(flags);
+  expanded.forEach((flag) => IMPLIED_FLAGS[flag]?.forEach((implied) => expanded.add(implied)));
+  return expanded;
+}
+
+/**
+ * Map free-text tags to dietary flags and declared allergens
+ *
+ * Examples:
+ * - ['Vegetarian', 'Seasonal'] → { dietary: ['vegetarian'], allergens: [] }
+ * - ['Contains Peanuts & Sesame'] → { dietary: [], allergens: ['peanuts', 'sesame'] }
+ */
+export function parseDietaryTags(tags: string[] = []): {
+  dietary: DietaryFlag[];
+  allergens: Allergen[];
+} {
+  const dietary = new Set<DietaryFlag>();
+  const allergens = new Set<Allergen>();
+
+  for (const tag of tags) {
+    const text = tag.trim().toLowerCase();
+
+    const contains = /^contains\s+(.+)$/.exec(text);
+    if (contains) {
+      ALLERGEN_WORD_PATTERNS.forEach(([pattern, allergen]) => {
+        if (pattern.test(contains[1])) {
+          allergens.add(allergen);
+        }
+      });
+      continue;
+    }
+
+    const match = DIETARY_TAG_PATTERNS.find(([pattern]) => pattern.test(text));
+    if (match) {
+      dietary.add(match[1]);
+    }
+  }
+
+  return {
+    dietary: inOrder(withImpliedFlags(dietary), DIETARY_FLAGS),
+    allergens: inOrder(allergens, ALLERGENS)
+  };
+}
+
+/**
+ * Fill an item's dietary and allergen fields from its tags
+ *
+ * Explicit values on the item are kept and merged with what the tags say;
+ * dietary is left undefined when no flag applies.
+ * Allergens stay undefined unless something declares them, because an
+ * unknown allergen list must not read as "allergen-free".
+ */
+export function withDietaryInfo(item: MenuItem): MenuItem {
+  const parsed = parseDietaryTags(item.tags);
+  const dietary = withImpliedFlags([...(item.dietary ?? []), ...parsed.dietary]);
+  const hasAllergenInfo = item.allergens !== undefined || parsed.allergens.length > 0;
+  const allergens = new Set([...(item.allergens ?? []), ...parsed.allergens]);
+
+  return {
+    ...item,
+    dietary: dietary.size > 0 ? inOrder(dietary, DIETARY_FLAGS) : undefined,
+    allergens: hasAllergenInfo ? inOrder(allergens, ALLERGENS) : undefined
+  };
+}
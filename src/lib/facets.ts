@@ -0,0 +1,225 @@
+/**
+ * Menu Facet Engine
+ *
+ * Counts how many dishes each facet option would show, given the current
+ * search and the other selections. MenuPage shows the counts on the category
+ * tabs and in the facet sidebar, and disables options that would show nothing.
+ *
+ * Facets:
+ * - category: single choice; counted ignoring the selected category (and the
+ *   Favourites tab's id list), so every tab shows what it would hold
+ * - price band: any of the selected bands; counted ignoring the band
+ *   selection, so picking one band doesn't zero out the others
+ * - tag, dietary: every selected value must match; counted within the
+ *   current results, so a count is what adding that option leaves
+ * - price range: not a facet of its own, but narrows every count above; the
+ *   price histogram ignores it so the slider can always widen again
+ *
+ * Example:
+ * computeMenuFacets(items, { category: 'burgers', dietary: ['vegetarian'] })
+ * // → {
+ * //   categories: { burgers: 1, sides: 2, ... },  (vegetarian dishes per tab)
+ * //   dietary: { vegetarian: 1, vegan: 0, ... },  (within vegetarian burgers)
+ * //   ...
+ * // }
+ */
+
+import { normalizeTitle } from './categorize';
+import {
+  DIETARY_FLAGS,
+  MAX_TAG_FACETS,
+  MENU_CATEGORIES,
+  PRICE_BANDS,
+  PRICE_HISTOGRAM_BINS
+} from './constants';
+import { parseDietaryTags } from './dietary';
+import type { Category, DietaryFlag, MenuFilters, MenuItem, PriceBandId } from './types';
+import { filterMenuItems, isInPriceBand } from './utils';
+
+export type MenuFacetSelection = Pick<
+  MenuFilters,
+  | 'category'
+  | 'ids'
+  | 'tags'
+  | 'dietary'
+  | 'priceBands'
+  | 'minPrice'
+  | 'maxPrice'
+  | 'includeUnpriced'
+>;
+
+export interface TagFacet {
+  // URL-safe slug, e.g. "share-plate"
+  value: string;
+  // As written on the menu, e.g. "Share Plate"
+  label: string;
+  count: number;
+}
+
+export interface PriceHistogramBin {
+  // Inclusive lower edge
+  from: number;
+  // Exclusive upper edge (inclusive for the last bin)
+  to: number;
+  count: number;
+}
+
+export interface PriceHistogram {
+  // Whole-dollar bounds of the priced dishes (0 when there are none)
+  min: number;
+  max: number;
+  bins: PriceHistogramBin[];
+  // "Market Price" dishes, which have no place on the axis
+  unpriced: number;
+}
+
+export interface MenuFacets {
+  // Dishes under the "All" tab
+  allCategories: number;
+  categories: Record<Category, number>;
+  dietary: Record<DietaryFlag, number>;
+  priceBands: Record<PriceBandId, number>;
+  tags: TagFacet[];
+  prices: PriceHistogram;
+}
+
+/**
+ * URL-safe key for a tag
+ *
+ * Example: tagSlug('Bright & Fresh') → 'bright-and-fresh'
+ */
+export function tagSlug(tag: string): string {
+  return normalizeTitle(tag).replace(/ /g, '-');
+}
+
+// Guard for ?tag= entries (parseListParam drops anything else)
+export function isTagSlug(value: string): value is string {
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value);
+}
+
+// Tags the dietary facet already covers ('Vegetarian', 'Contains Nuts')
+function isDietaryTag(tag: string): boolean {
+  const parsed = parseDietaryTags([tag]);
+  return parsed.dietary.length > 0 || parsed.allergens.length > 0 || /^contains\b/i.test(tag);
+}
+
+function countBy<T extends string>(values: readonly T[], count: (value: T) => number): Record<T, number> {
+  return Object.fromEntries(values.map((value) => [value, count(value)])) as Record<T, number>;
+}
+
+/**
+ * The most common tags across the menu, plus any selected ones
+ *
+ * The list comes from the whole menu rather than the current results, so
+ * options don't jump around while filtering; empty ones are disabled instead.
+ */
+function getTagOptions(items: MenuItem[], selected: string[]): Array<{ value: string; label: string }> {
+  const options = new Map<string, { label: string; frequency: number }>();
+
+  for (const item of items) {
+    for (const tag of new Set(item.tags ?? [])) {
+      if (isDietaryTag(tag)) {
+        continue;
+      }
+      const slug = tagSlug(tag);
+      const option = options.get(slug);
+      options.set(slug, { label: option?.label ?? tag, frequency: (option?.frequency ?? 0) + 1 });
+    }
+  }
+
+  const ranked = [...options.entries()]
+    .sort(([slugA, a], [slugB, b]) => b.frequency - a.frequency || slugA.localeCompare(slugB))
+    .slice(0, MAX_TAG_FACETS)
+    .map(([slug]) => slug);
+  const shown = new Set([...ranked, ...selected.map(tagSlug)]);
+
+  return [...shown]
+    .map((slug) => ({ value: slug, label: options.get(slug)?.label ?? slug.replace(/-/g, ' ') }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * Bucket dish prices into equal-width bins between the cheapest and
+ * priciest dish, rounded out to whole dollars
+ *
+ * Example (2 bins):
+ * buildPriceHistogram([$11, $16, $23, null], 2)
+ * // → { min: 11, max: 23, unpriced: 1, bins: [
+ * //   { from: 11, to: 17, count: 2 }, { from: 17, to: 23, count: 1 } ] }
+ */
+export function buildPriceHistogram(
+  items: MenuItem[],
+  binCount = PRICE_HISTOGRAM_BINS
+): PriceHistogram {
+  const prices = items.flatMap((item) => (item.price === null ? [] : [item.price]));
+  const unpriced = items.length - prices.length;
+
+  if (prices.length === 0) {
+    return { min: 0, max: 0, bins: [], unpriced };
+  }
+
+  const min = Math.floor(Math.min(...prices));
+  const max = Math.ceil(Math.max(...prices));
+  const bins = max === min ? 1 : binCount;
+  const width = (max - min) / bins;
+  const counts = new Array<number>(bins).fill(0);
+
+  for (const price of prices) {
+    counts[width === 0 ? 0 : Math.min(bins - 1, Math.floor((price - min) / width))] += 1;
+  }
+
+  return {
+    min,
+    max,
+    unpriced,
+    bins: counts.map((count, index) => ({
+      from: min + width * index,
+      to: index === bins - 1 ? max : min + width * (index + 1),
+      count
+    }))
+  };
+}
+
+/**
+ * Count dishes per facet option
+ *
+ * @param items Dishes matching everything except the facet selection
+ *   (search, origin, allergens, ...)
+ * @param selection Current facet selection from the URL
+ * @param menu Whole menu, used to list tag options (defaults to items)
+ */
+export function computeMenuFacets(
+  items: MenuItem[],
+  selection: MenuFacetSelection,
+  menu: MenuItem[] = items
+): MenuFacets {
+  const { category, ids, tags = [], dietary = [], priceBands = [], ...priceRange } = selection;
+
+  const acrossPriceRange = filterMenuItems(items, { category, ids, tags, dietary, priceBands });
+  const withinPriceRange = filterMenuItems(items, priceRange);
+  const acrossCategories = filterMenuItems(withinPriceRange, { tags, dietary, priceBands });
+  const acrossBands = filterMenuItems(withinPriceRange, { category, ids, tags, dietary });
+  const results = filterMenuItems(acrossBands, { priceBands });
+  const resultTags = results.map((item) => new Set((item.tags ?? []).map(tagSlug)));
+
+  return {
+    allCategories: acrossCategories.length,
+    categories: countBy(
+      MENU_CATEGORIES,
+      (value) => acrossCategories.filter((item) => item.category === value).length
+    ),
+    dietary: countBy(
+      DIETARY_FLAGS,
+      (flag) => results.filter((item) => item.dietary?.includes(flag)).length
+    ),
+    priceBands: countBy(
+      PRICE_BANDS.map((band) => band.id),
+      (band) => acrossBands.filter((item) => isInPriceBand(item.price, band)).length
+    ),
+    tags: getTagOptions(menu, tags).map((option) => ({
+      ...option,
+      count: resultTags.filter((slugs) => slugs.has(option.value)).length
+    })),
+    prices: buildPriceHistogram(acrossPriceRange)
+  };
+}
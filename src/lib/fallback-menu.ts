@@ -1,6 +1,8 @@
+import { withDietaryInfo } from './dietary';
 import type { MenuItem } from './types';
 
-export const FALLBACK_MENU_ITEMS: MenuItem[] = [
+// Allergens are declared from each dish's recipe
+const CURATED_MENU_ITEMS: MenuItem[] = [
   {
     id: 'fallback-seawall-burger',
     title: 'Seawall Burger',
@@ -10,7 +12,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1550547660-d9450f859349?auto=format&fit=crop&w=1200&q=80',
     category: 'burgers',
-    tags: ['Certified Angus', 'Gluten-Friendly Option']
+    tags: ['Certified Angus', 'Gluten-Friendly Option'],
+    addedAt: '2023-05-12',
+    allergens: ['eggs', 'milk', 'wheat']
   },
   {
     id: 'fallback-market-club',
@@ -21,7 +25,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1540189549336-e6e99c3679fe?auto=format&fit=crop&w=1200&q=80',
     category: 'sandwiches',
-    tags: ['Handheld', 'Lunch Favourite']
+    tags: ['Handheld', 'Lunch Favourite'],
+    addedAt: '2023-05-12',
+    allergens: ['eggs', 'wheat']
   },
   {
     id: 'fallback-harvest-risotto',
@@ -32,7 +38,10 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1604908177093-3d24ab9e0295?auto=format&fit=crop&w=1200&q=80',
     category: 'mains',
-    tags: ['Vegetarian', 'Seasonal']
+    tags: ['Vegetarian', 'Seasonal'],
+    addedAt: '2025-09-18',
+    chefsPick: true,
+    allergens: ['milk']
   },
   {
     id: 'fallback-pacific-salmon',
@@ -43,7 +52,10 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1612874742257-900084940aca?auto=format&fit=crop&w=1200&q=80',
     category: 'mains',
-    tags: ['Ocean Wise', 'Chef Special']
+    tags: ['Ocean Wise', 'Chef Special'],
+    addedAt: '2024-06-03',
+    chefsPick: true,
+    allergens: ['fish', 'milk', 'soy']
   },
   {
     id: 'fallback-cascadian-cobb',
@@ -54,7 +66,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1550304943-4f24f54ddde9?auto=format&fit=crop&w=1200&q=80',
     category: 'sides',
-    tags: ['Gluten-Free', 'Protein Packed']
+    tags: ['Gluten-Free', 'Protein Packed'],
+    addedAt: '2023-05-12',
+    allergens: ['eggs', 'milk']
   },
   {
     id: 'fallback-seawall-spritz',
@@ -65,7 +79,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1514362545857-3bc16c4c7d1b?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Signature', 'Refreshing']
+    tags: ['Signature', 'Refreshing'],
+    addedAt: '2024-05-24',
+    allergens: []
   },
   {
     id: 'fallback-coal-old-fashioned',
@@ -76,7 +92,10 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1581579186989-4c04b2a758ad?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Signature Cocktail', 'Smoked']
+    tags: ['Signature Cocktail', 'Smoked'],
+    addedAt: '2023-05-12',
+    chefsPick: true,
+    allergens: []
   },
   {
     id: 'fallback-pacific-negroni',
@@ -87,7 +106,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1536935338788-846bb9981813?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Classic', 'Bold']
+    tags: ['Classic', 'Bold'],
+    addedAt: '2023-11-02',
+    allergens: ['sulphites']
   },
   {
     id: 'fallback-yuzu-margarita',
@@ -98,7 +119,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1615332579937-0a6e6d7e4e8a?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Citrus Forward', 'Spicy']
+    tags: ['Citrus Forward', 'Spicy'],
+    addedAt: '2025-06-20',
+    allergens: []
   },
   {
     id: 'fallback-lavender-martini',
@@ -109,7 +132,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1541367777708-7905fe3296c0?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Floral', 'Elegant']
+    tags: ['Floral', 'Elegant'],
+    addedAt: '2025-03-14',
+    allergens: []
   },
   {
     id: 'fallback-whiskey-sour',
@@ -120,7 +145,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1560512823-829485b8bf24?auto=format&fit=crop&w=1200&q=80',
     category: 'cocktails',
-    tags: ['Classic', 'Smooth']
+    tags: ['Classic', 'Smooth'],
+    addedAt: '2023-05-12',
+    allergens: []
   },
   {
     id: 'fallback-charred-broccolini',
@@ -131,7 +158,10 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1604908177563-5dfac298d18b?auto=format&fit=crop&w=1200&q=80',
     category: 'sides',
-    tags: ['Vegetarian', 'Share Plate']
+    tags: ['Vegetarian', 'Share Plate'],
+    addedAt: '2025-10-02',
+    chefsPick: true,
+    allergens: ['milk', 'tree-nuts']
   },
   {
     id: 'fallback-sea-salted-fries',
@@ -142,7 +172,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1559329007-40df8a9345d2?auto=format&fit=crop&w=1200&q=80',
     category: 'sides',
-    tags: ['Share Plate', 'Vegetarian']
+    tags: ['Share Plate', 'Vegetarian'],
+    addedAt: '2023-05-12',
+    allergens: ['eggs']
   },
   {
     id: 'fallback-chocolate-torte',
@@ -153,7 +185,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1612872087720-bb876e2b3a2a?auto=format&fit=crop&w=1200&q=80',
     category: 'desserts',
-    tags: ['Gluten-Free', 'Indulgent']
+    tags: ['Gluten-Free', 'Indulgent'],
+    addedAt: '2024-02-09',
+    allergens: ['eggs', 'milk']
   },
   {
     id: 'fallback-pineapple-upside',
@@ -164,7 +198,9 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1551024601-bec78aea704b?auto=format&fit=crop&w=1200&q=80',
     category: 'desserts',
-    tags: ['Tropical', 'Share Sweet']
+    tags: ['Tropical', 'Share Sweet'],
+    addedAt: '2025-07-11',
+    allergens: ['eggs', 'milk', 'wheat']
   },
   {
     id: 'fallback-coastal-lemonade',
@@ -175,6 +211,11 @@ export const FALLBACK_MENU_ITEMS: MenuItem[] = [
     imageUrl:
       'https://images.unsplash.com/photo-1514361892635-6e122620e5fd?auto=format&fit=crop&w=1200&q=80',
     category: 'beverages',
-    tags: ['Zero Proof', 'Bright & Fresh']
+    tags: ['Zero Proof', 'Bright & Fresh'],
+    addedAt: '2024-07-01',
+    allergens: []
   }
 ];
+
+// Dietary flags are derived from the tags ('Vegetarian', 'Zero Proof', ...)
+export const FALLBACK_MENU_ITEMS: MenuItem[] = CURATED_MENU_ITEMS.map(withDietaryInfo);
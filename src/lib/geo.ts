@@ -0,0 +1,213 @@
+/**
+ * Distances and the Guest's Position
+ *
+ * Backs the "Find nearest" control on LocationsPage:
+ * - The guest's position comes from the Geolocation API (only after they ask)
+ *   or, failing that, from a postal code or neighbourhood in LOOKUP_AREAS
+ * - Distances are great-circle (haversine) distances, so walk times are
+ *   estimates; streets add a little
+ *
+ * Everything but getCurrentCoordinates is pure, and that takes the
+ * Geolocation object as a parameter, so none of it needs a browser to test.
+ *
+ * Examples:
+ * - distanceKm(coalHarbour, yaletown) → 1.55
+ * - formatDistance(1.234) → '1.2 km away'
+ * - formatWalkTime(estimateWalkMinutes(1.234)) → '15 min walk'
+ * - lookupArea('v6b 1a1') → the V6B entry; lookupArea('Kits') → the V6J entry
+ *
+ * createMapProjection() places points on the LocationsMap overview (an
+ * equirectangular projection; at city scale the distortion is negligible).
+ */
+
+import { GEOLOCATION_TIMEOUT_MS, LOOKUP_AREAS, WALKING_SPEED_KMH } from './constants';
+import type { Coordinates, LookupArea, MapBounds } from './types';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Where distances are measured from, and how to describe it to the guest
+export interface DistanceOrigin {
+  coordinates: Coordinates;
+  // e.g. "your location", "V6B", "Kitsilano"
+  label: string;
+}
+
+export interface PlaceDistance<T> {
+  place: T;
+  distanceKm: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Places nearest first, with their distances
+ *
+ * Equal distances keep their original order.
+ */
+export function sortByDistance<T extends Coordinates>(
+  places: T[],
+  origin: Coordinates
+): PlaceDistance<T>[] {
+  return places
+    .map((place) => ({ place, distanceKm: distanceKm(origin, place) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Minutes to walk a distance, rounded, at least 1
+ */
+export function estimateWalkMinutes(km: number, speedKmh: number = WALKING_SPEED_KMH): number {
+  return Math.max(1, Math.round((km / speedKmh) * 60));
+}
+
+/**
+ * Examples:
+ * - formatDistance(0.04) → '50 m away' (to the nearest 50 m)
+ * - formatDistance(1.234) → '1.2 km away'
+ * - formatDistance(18.6) → '19 km away'
+ */
+export function formatDistance(km: number): string {
+  if (km < 0.975) {
+    return `${Math.max(50, Math.round((km * 1000) / 50) * 50)} m away`;
+  }
+  if (km < 10) {
+    return `${km.toFixed(1)} km away`;
+  }
+  return `${Math.round(km)} km away`;
+}
+
+/**
+ * Examples:
+ * - formatWalkTime(15) → '15 min walk'
+ * - formatWalkTime(60) → '1 hr walk'
+ * - formatWalkTime(95) → '1 hr 35 min walk'
+ */
+export function formatWalkTime(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min walk`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} hr walk` : `${hours} hr ${rest} min walk`;
+}
+
+/**
+ * Find a postal code (full or first three characters) or neighbourhood name
+ *
+ * @returns The matching area, or null when nothing matches
+ */
+export function lookupArea(query: string, areas: LookupArea[] = LOOKUP_AREAS): LookupArea | null {
+  const compact = query.replace(/\s+/g, '').toUpperCase();
+  if (/^[A-Z]\d[A-Z](\d[A-Z]\d)?$/.test(compact)) {
+    return areas.find((area) => area.postalPrefix === compact.slice(0, 3)) ?? null;
+  }
+
+  const name = query.trim().toLowerCase();
+  if (!name) {
+    return null;
+  }
+  return (
+    areas.find((area) => area.names.some((candidate) => candidate.toLowerCase() === name)) ??
+    null
+  );
+}
+
+export type GeolocationFailure = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+/**
+ * The browser couldn't (or wasn't allowed to) find the guest
+ */
+export class GeolocationError extends Error {
+  readonly reason: GeolocationFailure;
+
+  constructor(reason: GeolocationFailure) {
+    super(`Couldn't get your location (${reason})`);
+    this.name = 'GeolocationError';
+    this.reason = reason;
+  }
+}
+
+// GeolocationPositionError codes
+const FAILURE_BY_CODE: Record<number, GeolocationFailure> = {
+  1: 'denied',
+  2: 'unavailable',
+  3: 'timeout'
+};
+
+// Undefined outside browsers, and in browsers without the API
+const browserGeolocation = () =>
+  typeof navigator === 'undefined' ? undefined : navigator.geolocation;
+
+/**
+ * Ask the browser where the guest is (prompts for permission the first time)
+ *
+ * @throws GeolocationError when unsupported, denied, unavailable or too slow
+ */
+export function getCurrentCoordinates(
+  geolocation: Pick<Geolocation, 'getCurrentPosition'> | undefined = browserGeolocation(),
+  timeoutMs: number = GEOLOCATION_TIMEOUT_MS
+): Promise<Coordinates> {
+  return new Promise((resolve, reject) => {
+    if (!geolocation) {
+      reject(new GeolocationError('unsupported'));
+      return;
+    }
+    geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: coords.latitude, lng: coords.longitude }),
+      (error) => reject(new GeolocationError(FAILURE_BY_CODE[error.code] ?? 'unavailable')),
+      // A rough fix is plenty for picking a restaurant
+      { enableHighAccuracy: false, maximumAge: 5 * 60 * 1000, timeout: timeoutMs }
+    );
+  });
+}
+
+// ===== MAP PROJECTION =====
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapProjection {
+  width: number;
+  // Follows from the bounds, so a kilometre is as long across as up
+  height: number;
+  project: (point: Coordinates) => MapPoint;
+  // Whether a point falls inside the bounds
+  contains: (point: Coordinates) => boolean;
+}
+
+/**
+ * Map latitude/longitude onto a flat drawing `width` units wide
+ *
+ * Example (width 1000): the north-west corner → { x: 0, y: 0 },
+ * the south-east corner → { x: 1000, y: height }
+ */
+export function createMapProjection(bounds: MapBounds, width: number): MapProjection {
+  // Longitude degrees shrink away from the equator; scale them at the middle latitude
+  const lngScale = Math.cos(toRadians((bounds.north + bounds.south) / 2));
+  const unitsPerDegree = width / ((bounds.east - bounds.west) * lngScale);
+
+  return {
+    width,
+    height: (bounds.north - bounds.south) * unitsPerDegree,
+    project: ({ lat, lng }) => ({
+      x: (lng - bounds.west) * lngScale * unitsPerDegree,
+      y: (bounds.north - lat) * unitsPerDegree
+    }),
+    contains: ({ lat, lng }) =>
+      lat <= bounds.north && lat >= bounds.south && lng >= bounds.west && lng <= bounds.east
+  };
+}
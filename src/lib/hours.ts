@@ -0,0 +1,405 @@
+/**
+ * Opening Hours
+ *
+ * Location hours are written for people ("11:00am – 1:00am"), one string per
+ * weekday in LOCATIONS. These helpers turn them into structured intervals and
+ * answer "is it open?" and "when does it open next?" in restaurant time
+ * (RESTAURANT_TIME_ZONE, America/Vancouver), whatever the guest's time zone.
+ *
+ * Intervals:
+ * - Times are minutes after midnight on the wall clock in Vancouver
+ * - A closing time at or before the opening time runs past midnight into the
+ *   next day, so it is reported as more than 24 hours (1:00am → 25 * 60).
+ *   Friday's "11:00am – 1:00am" therefore still covers Saturday at 12:30am.
+ * - DST changes the wall clock, not the hours: a 1am closing is 1am PDT in
+ *   summer and 1am PST in winter, and "open at 11am" never drifts
+ *
+ * Special hours (Location.specialHours) replace the weekly hours on their
+ * date everywhere: open now, next opening, reservation seatings and the
+ * hours shown on LocationCard.
+ *
+ * Examples:
+ * - parseClockTime('6:30pm') → 1110
+ * - parseHoursRange('11:00am – 1:00am') → { opens: 660, closes: 1500 }
+ * - parseHoursRange('Closed') → null
+ * - getWeekday('2024-07-05') → 'friday'
+ * - describeOpenStatus(location, now) → 'Open now · closes 1am' | 'Opens at 11:30am'
+ */
+
+import { RESTAURANT_TIME_ZONE } from './constants';
+import type { HoursOverride, Location, LocationHours, Weekday } from './types';
+
+// Indexed like Date#getDay()
+const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface OpeningHours {
+  // Minutes after midnight
+  opens: number;
+  // Minutes after midnight; above 1440 when closing after midnight
+  closes: number;
+}
+
+export type WeeklyHours = Record<Weekday, OpeningHours | null>;
+
+// Weekly hours plus any date-specific exceptions
+export type LocationSchedule = Pick<Location, 'hours' | 'specialHours'>;
+
+/**
+ * Parse a 12-hour clock time such as "11:00am" or "9pm"
+ *
+ * @returns Minutes after midnight, or null when the text isn't a time
+ */
+export function parseClockTime(text: string): number | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/i.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (hours < 1 || hours > 12 || minutes > 59) {
+    return null;
+  }
+
+  // 12am is midnight, 12pm is noon
+  const hours24 = (hours % 12) + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+  return hours24 * 60 + minutes;
+}
+
+/**
+ * Parse one day's hours, e.g. "11:00am – 11:00pm"
+ *
+ * Accepts an en dash, em dash or hyphen between the times.
+ *
+ * @returns Opening and closing minutes, or null when closed or unreadable
+ */
+export function parseHoursRange(text: string): OpeningHours | null {
+  const parts = text.split(/\s*[–—-]\s*/);
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const opens = parseClockTime(parts[0]);
+  const closes = parseClockTime(parts[1]);
+  if (opens === null || closes === null) {
+    return null;
+  }
+
+  return { opens, closes: closes <= opens ? closes + MINUTES_PER_DAY : closes };
+}
+
+/**
+ * Parse a whole week of location hours
+ */
+export function parseLocationHours(hours: LocationHours): WeeklyHours {
+  return Object.fromEntries(
+    WEEKDAYS.map((weekday) => [weekday, parseHoursRange(hours[weekday])])
+  ) as WeeklyHours;
+}
+
+/**
+ * Weekday of a YYYY-MM-DD calendar date (independent of the browser time zone)
+ */
+export function getWeekday(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Calendar arithmetic on YYYY-MM-DD dates
+ *
+ * Example: addDays('2024-02-28', 2) → '2024-03-01'
+ */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * The special hours for a calendar date, if any
+ */
+export function getHoursOverride(
+  schedule: LocationSchedule,
+  date: string
+): HoursOverride | undefined {
+  return schedule.specialHours?.find((override) => override.date === date);
+}
+
+/**
+ * Hours text for a calendar date: special hours if set, otherwise the weekday's
+ */
+export function getHoursText(schedule: LocationSchedule, date: string): string {
+  const override = getHoursOverride(schedule, date);
+  if (!override) {
+    return schedule.hours[getWeekday(date)];
+  }
+  return override.closed ? 'Closed' : override.hours;
+}
+
+/**
+ * Opening hours for a calendar date, or null when the location is closed
+ */
+export function getOpeningHours(schedule: LocationSchedule, date: string): OpeningHours | null {
+  return parseHoursRange(getHoursText(schedule, date));
+}
+
+/**
+ * Special hours from today through the next `days` days, soonest first
+ */
+export function getUpcomingOverrides(
+  schedule: LocationSchedule,
+  instant: Date,
+  days: number,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): HoursOverride[] {
+  const today = getZonedDateTime(instant, timeZone).date;
+  const lastDate = addDays(today, days);
+  return (schedule.specialHours ?? [])
+    .filter((override) => override.date >= today && override.date <= lastDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ===== TIME ZONES =====
+
+export interface ZonedDateTime {
+  // Calendar date on the zone's wall clock, YYYY-MM-DD
+  date: string;
+  // Minutes after midnight on the zone's wall clock
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ *
+ * Example: getZonedDateTime(new Date('2024-07-06T07:30:00Z')) → { date: '2024-07-06', minutes: 30 }
+ */
+export function getZonedDateTime(
+  instant: Date,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): ZonedDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+// Wall clock minus UTC, in ms (-7h for PDT, -8h for PST); minute precision
+function getOffset(instant: number, timeZone: string): number {
+  const { date, minutes } = getZonedDateTime(new Date(instant), timeZone);
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * MS_PER_MINUTE;
+  return wallClock - Math.floor(instant / MS_PER_MINUTE) * MS_PER_MINUTE;
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone
+ *
+ * Minutes may run past midnight (1500 → 1am the next day). Times skipped
+ * when clocks spring forward resolve to the hour after (2:30am → 3:30am);
+ * times repeated when they fall back resolve to the first occurrence.
+ */
+export function zonedTimeToInstant(
+  date: string,
+  minutes: number,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * MS_PER_MINUTE;
+  const firstOffset = getOffset(wallClock, timeZone);
+  const candidate = wallClock - firstOffset;
+  const secondOffset = getOffset(candidate, timeZone);
+  if (secondOffset === firstOffset) {
+    return new Date(candidate);
+  }
+
+  // The offset changes in between: use the other one if it round-trips
+  const adjusted = wallClock - secondOffset;
+  return new Date(getOffset(adjusted, timeZone) === secondOffset ? adjusted : candidate);
+}
+
+// ===== OPEN NOW =====
+
+interface OpenPeriod extends OpeningHours {
+  // The day the period started on (yesterday, when open past midnight)
+  date: string;
+}
+
+// The opening period covering an instant, if any
+function findOpenPeriod(
+  schedule: LocationSchedule,
+  instant: Date,
+  timeZone: string
+): OpenPeriod | null {
+  const { date, minutes } = getZonedDateTime(instant, timeZone);
+
+  const today = getOpeningHours(schedule, date);
+  if (today && minutes >= today.opens && minutes < today.closes) {
+    return { date, ...today };
+  }
+
+  // Still inside last night's hours (e.g. 12:30am after an 11am – 1am day)
+  const yesterdayDate = addDays(date, -1);
+  const yesterday = getOpeningHours(schedule, yesterdayDate);
+  if (yesterday && minutes + MINUTES_PER_DAY < yesterday.closes) {
+    return { date: yesterdayDate, ...yesterday };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a location is open at an instant
+ */
+export function isOpenAt(
+  schedule: LocationSchedule,
+  instant: Date,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): boolean {
+  return findOpenPeriod(schedule, instant, timeZone) !== null;
+}
+
+/**
+ * The next time a location opens after an instant (even if it's open now)
+ *
+ * @returns null when it doesn't open in the next week
+ */
+export function nextOpening(
+  schedule: LocationSchedule,
+  instant: Date,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): Date | null {
+  const { date } = getZonedDateTime(instant, timeZone);
+
+  // A week ahead, plus today in case it has already opened
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const day = addDays(date, offset);
+    const opening = getOpeningHours(schedule, day);
+    if (opening) {
+      const opensAt = zonedTimeToInstant(day, opening.opens, timeZone);
+      if (opensAt > instant) {
+        return opensAt;
+      }
+    }
+  }
+  return null;
+}
+
+export type OpenStatus =
+  | {
+      isOpen: true;
+      closesAt: Date;
+      // Wall-clock closing time, minutes after midnight (may run past 1440)
+      closes: number;
+    }
+  | {
+      isOpen: false;
+      // null when the location never opens
+      opensAt: Date | null;
+    };
+
+/**
+ * Open or closed at an instant, with when that changes
+ */
+export function getOpenStatus(
+  schedule: LocationSchedule,
+  instant: Date,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): OpenStatus {
+  const period = findOpenPeriod(schedule, instant, timeZone);
+  if (period) {
+    return {
+      isOpen: true,
+      closesAt: zonedTimeToInstant(period.date, period.closes, timeZone),
+      closes: period.closes
+    };
+  }
+  return { isOpen: false, opensAt: nextOpening(schedule, instant, timeZone) };
+}
+
+/**
+ * One-line status for badges
+ *
+ * Examples:
+ * - 'Open now · closes 1am'
+ * - 'Opens at 11:30am' (later today)
+ * - 'Opens tomorrow at 11am'
+ * - 'Opens Tuesday at 5pm'
+ */
+export function describeOpenStatus(
+  schedule: LocationSchedule,
+  instant: Date,
+  timeZone: string = RESTAURANT_TIME_ZONE
+): string {
+  const status = getOpenStatus(schedule, instant, timeZone);
+  if (status.isOpen) {
+    return `Open now · closes ${formatClockTime(status.closes, { compact: true })}`;
+  }
+  if (!status.opensAt) {
+    return 'Closed';
+  }
+
+  const today = getZonedDateTime(instant, timeZone).date;
+  const opening = getZonedDateTime(status.opensAt, timeZone);
+  const time = formatClockTime(opening.minutes, { compact: true });
+  if (opening.date === today) {
+    return `Opens at ${time}`;
+  }
+  if (opening.date === addDays(today, 1)) {
+    return `Opens tomorrow at ${time}`;
+  }
+  const weekday = getWeekday(opening.date);
+  return `Opens ${weekday[0].toUpperCase()}${weekday.slice(1)} at ${time}`;
+}
+
+/**
+ * Format minutes after midnight as a 12-hour time
+ *
+ * Examples:
+ * - formatClockTime(1110) → '6:30pm'
+ * - formatClockTime(1500) → '1:00am'
+ * - formatClockTime(1500, { compact: true }) → '1am'
+ */
+export function formatClockTime(minutes: number, { compact = false } = {}): string {
+  const minutesOfDay = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours24 = Math.floor(minutesOfDay / 60);
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  const suffix = hours24 < 12 ? 'am' : 'pm';
+  const minutePart = minutesOfDay % 60;
+  if (compact && minutePart === 0) {
+    return `${hours12}${suffix}`;
+  }
+  return `${hours12}:${String(minutePart).padStart(2, '0')}${suffix}`;
+}
@@ -1,15 +1,427 @@
-export async function httpGet<T>(url: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(url, {
-    headers: {
-      Accept: 'application/json',
-      ...init?.headers
-    },
-    ...init
+/**
+ * HTTP Client
+ *
+ * Thin fetch wrapper shared by every service:
+ * - JSON requests and responses (httpGet, httpPost, httpPut)
+ * - Per-request timeouts and caller cancellation via AbortSignal
+ * - Typed HttpError hierarchy so callers can branch on what went wrong
+ * - Opt-in retry policy with exponential backoff, jitter and Retry-After
+ *
+ * Error kinds:
+ * - NetworkError: fetch itself failed (offline, DNS, CORS) → retryable
+ * - TimeoutError: no response (or response body) within timeoutMs → retryable
+ * - HttpStatusError: non-2xx response → retryable for 408/425/429/5xx
+ * - ParseError: response body was not valid JSON → not retryable
+ *
+ * Caller cancellation is never wrapped: the original AbortError is rethrown
+ * so React Query recognizes it as a cancelled query.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT';
+
+export type HttpErrorKind = 'network' | 'timeout' | 'status' | 'parse';
+
+export interface RetryPolicy {
+  // Attempts after the first one (0 disables retrying)
+  retries: number;
+
+  // Backoff for the first retry; doubles on every attempt
+  baseDelayMs: number;
+
+  // Upper bound for a single wait. A Retry-After beyond this gives up instead
+  maxDelayMs: number;
+}
+
+// Passed through to fetch; the client sets method and body itself
+export type FetchOptions = Omit<RequestInit, 'method' | 'body'>;
+
+// Handled by the client, never passed to fetch
+export interface HttpClientOptions {
+  // Abort the request if no response arrives within this many milliseconds
+  timeoutMs?: number;
+
+  // Retry transient failures; omitted means a single attempt
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface HttpRequestInit extends FetchOptions, HttpClientOptions {}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000
+};
+
+// Statuses worth retrying: request timeout, too early, rate limited, server errors
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+// Keep error bodies short enough to log without flooding the console
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Base class for every failure raised by the HTTP client
+ */
+export class HttpError extends Error {
+  readonly kind: HttpErrorKind;
+  readonly url: string;
+  readonly method: HttpMethod;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { kind: HttpErrorKind; url: string; method: HttpMethod; retryable: boolean }
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.kind = options.kind;
+    this.url = options.url;
+    this.method = options.method;
+    this.retryable = options.retryable;
+  }
+}
+
+export class NetworkError extends HttpError {
+  readonly originalError: unknown;
+
+  constructor(url: string, method: HttpMethod, originalError: unknown) {
+    super(`Network request to ${url} failed`, { kind: 'network', url, method, retryable: true });
+    this.name = 'NetworkError';
+    this.originalError = originalError;
+  }
+}
+
+export class TimeoutError extends HttpError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, method: HttpMethod, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`, {
+      kind: 'timeout',
+      url,
+      method,
+      retryable: true
+    });
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class HttpStatusError extends HttpError {
+  readonly status: number;
+  readonly body: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    url: string,
+    method: HttpMethod,
+    status: number,
+    body: string,
+    retryAfterMs?: number
+  ) {
+    super(`Request failed with status ${status}`, {
+      kind: 'status',
+      url,
+      method,
+      retryable: status >= 500 || RETRYABLE_STATUSES.has(status)
+    });
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ParseError extends HttpError {
+  constructor(url: string, method: HttpMethod) {
+    super(`Response from ${url} was not valid JSON`, {
+      kind: 'parse',
+      url,
+      method,
+      retryable: false
+    });
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Decide whether a failed request is worth trying again
+ *
+ * Used by the retry loop below and by React Query's retry option (main.tsx).
+ * Errors that don't come from the HTTP client (e.g., validation) are treated
+ * as retryable to preserve React Query's default behaviour.
+ *
+ * Examples:
+ * - HttpStatusError 503 → true
+ * - HttpStatusError 404 → false
+ * - ParseError → false
+ * - AbortError → false (the caller cancelled)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.retryable;
+  }
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Parse a Retry-After header into milliseconds
+ *
+ * Examples:
+ * - "120" → 120000
+ * - "Wed, 21 Oct 2026 07:28:00 GMT" → ms until that date (never negative)
+ * - null / garbage → undefined
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Compute how long to wait before retry number `attempt` (0-based)
+ *
+ * Exponential backoff with equal jitter: half of the backoff is fixed, the
+ * other half random, so simultaneous clients spread out without ever
+ * retrying immediately. A server-provided Retry-After always wins.
+ *
+ * Returns undefined when the server asks us to wait longer than maxDelayMs.
+ *
+ * Examples (baseDelayMs 300, random 0.5):
+ * - attempt 0 → 225ms
+ * - attempt 2 → 900ms
+ * - HttpStatusError with Retry-After 2s → 2000ms
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number | undefined {
+  if (error instanceof HttpStatusError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return backoff / 2 + random() * (backoff / 2);
+}
+
+/**
+ * Link an optional caller signal and an optional timeout into one controller
+ *
+ * fetch only accepts a single signal, so both cancellation sources abort the
+ * same controller. cleanup() must run once the response body has been read,
+ * so a stalled body still times out or cancels.
+ */
+function createRequestSignal(signal: AbortSignal | null | undefined, timeoutMs?: number) {
+  const controller = new AbortController();
+  const state = { timedOut: false };
+
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    forwardAbort();
+  } else {
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs && timeoutMs > 0
+      ? setTimeout(() => {
+          state.timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const cleanup = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  };
+
+  return { signal: controller.signal, state, cleanup };
+}
+
+/**
+ * Wait between retries, bailing out early if the caller cancels
+ */
+function wait(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Request failed with status ${response.status}`);
+/**
+ * Settle with a body read, or reject as soon as the request is aborted
+ *
+ * Browsers abort the body stream along with the request, but nothing
+ * guarantees a body read settles on its own.
+ */
+function readBody<T>(read: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
   }
 
-  return (await response.json()) as T;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    read
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function readErrorBody(response: Response, signal: AbortSignal): Promise<string> {
+  try {
+    const text = await readBody(response.text(), signal);
+    return text.slice(0, MAX_ERROR_BODY_LENGTH);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Perform one request attempt and translate every failure into an HttpError
+ */
+async function send<T>(
+  method: HttpMethod,
+  url: string,
+  body: unknown,
+  init: FetchOptions,
+  timeoutMs: number | undefined
+): Promise<T> {
+  const { signal, headers, ...rest } = init;
+  const request = createRequestSignal(signal, timeoutMs);
+  const hasBody = body !== undefined;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...rest,
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+          ...headers
+        },
+        body: hasBody ? JSON.stringify(body) : undefined,
+        signal: request.signal
+      });
+    } catch (error) {
+      if (request.state.timedOut) {
+        throw new TimeoutError(url, method, timeoutMs ?? 0);
+      }
+
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      throw new NetworkError(url, method, error);
+    }
+
+    if (!response.ok) {
+      const errorBody = await readErrorBody(response, request.signal);
+      // Cancelled while reading the error body: still a cancellation, not a failure
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      throw new HttpStatusError(
+        url,
+        method,
+        response.status,
+        errorBody,
+        parseRetryAfter(response.headers?.get('Retry-After'))
+      );
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    try {
+      return (await readBody(response.json(), request.signal)) as T;
+    } catch (error) {
+      if (request.state.timedOut) {
+        throw new TimeoutError(url, method, timeoutMs ?? 0);
+      }
+
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      throw new ParseError(url, method);
+    }
+  } finally {
+    request.cleanup();
+  }
+}
+
+/**
+ * Run a request, retrying retryable failures according to init.retry
+ */
+async function request<T>(
+  method: HttpMethod,
+  url: string,
+  body: unknown,
+  init: HttpRequestInit = {}
+): Promise<T> {
+  const { timeoutMs, retry, ...fetchInit } = init;
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, retries: 0, ...retry };
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await send<T>(method, url, body, fetchInit, timeoutMs);
+    } catch (error) {
+      if (attempt >= policy.retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, policy);
+      if (delay === undefined) {
+        throw error;
+      }
+
+      await wait(delay, fetchInit.signal);
+    }
+  }
+}
+
+export function httpGet<T>(url: string, init?: HttpRequestInit): Promise<T> {
+  return request<T>('GET', url, undefined, init);
+}
+
+/**
+ * POST a JSON body
+ *
+ * Not idempotent: only pass `retry` when the endpoint tolerates duplicates.
+ */
+export function httpPost<T>(url: string, body: unknown, init?: HttpRequestInit): Promise<T> {
+  return request<T>('POST', url, body, init);
+}
+
+export function httpPut<T>(url: string, body: unknown, init?: HttpRequestInit): Promise<T> {
+  return request<T>('PUT', url, body, init);
 }
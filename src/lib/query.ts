@@ -0,0 +1,270 @@
+/**
+ * Menu Query Syntax
+ *
+ * Lets the search box take structured filters alongside free text:
+ *
+ *   tag:vegetarian price:<20 category:sides smoked
+ *
+ * Supported filters:
+ * - category:sides / category:"chef specials" → one category (key or label)
+ * - tag:vegetarian / tag:"share plate" → item tag or dietary label (repeatable)
+ * - diet:vegan → dietary flag, key or label (repeatable)
+ * - avoid:shellfish → exclude an allergen, key or label (repeatable)
+ * - origin:"austin, tx" → origin, case-insensitive
+ * - price:<20, price:<=20, price:>10, price:10-20, price:15 → price bounds
+ * - rating:>=4.5, rating:4 → minimum rating
+ *
+ * Everything else is free text for the search index. Problems (unknown
+ * filter, bad number) are collected in `errors` and the offending token is
+ * ignored, so a typo never blanks the menu.
+ *
+ * The raw text lives in the ?search= URL param; formatMenuQuery writes the
+ * canonical form, and parsing it again gives back the same query.
+ */
+
+import { normalizeTitle } from './categorize';
+import {
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  CATEGORY_LABELS,
+  DIETARY_FLAGS,
+  DIETARY_LABELS,
+  MENU_CATEGORIES
+} from './constants';
+import type { MenuFilters } from './types';
+
+export type MenuQueryFilters = Omit<MenuFilters, 'search' | 'sort' | 'page'>;
+
+export interface MenuQueryError {
+  // The token as typed, e.g. "price:<abc"
+  token: string;
+  message: string;
+}
+
+export interface ParsedMenuQuery {
+  filters: MenuQueryFilters;
+  // Free-text terms for the search index
+  text: string;
+  errors: MenuQueryError[];
+}
+
+// Prices have cents, so "under $20" means at most $19.99
+const PRICE_STEP = 0.01;
+
+// key:value, key:"quoted value", "quoted text", or a bare word
+const TOKEN_PATTERN = /([a-z]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/gi;
+
+const KNOWN_KEYS = ['category', 'tag', 'diet', 'avoid', 'origin', 'price', 'rating'];
+
+/**
+ * Find a value by key or label, ignoring case and punctuation
+ *
+ * Example: findByName('Chef Specials', MENU_CATEGORIES, CATEGORY_LABELS) → 'mains'
+ */
+function findByName<T extends string>(
+  value: string,
+  options: readonly T[],
+  labels: Record<T, string>
+): T | undefined {
+  const wanted = normalizeTitle(value);
+  return options.find(
+    (option) => normalizeTitle(option) === wanted || normalizeTitle(labels[option]) === wanted
+  );
+}
+
+function parseNumber(value: string): number | undefined {
+  const parsed = Number(value.replace(/^\$/, ''));
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse a comparison into inclusive bounds
+ *
+ * Examples (step 0.01):
+ * - "<20" → { max: 19.99 }
+ * - ">=10" → { min: 10 }
+ * - "10-20" → { min: 10, max: 20 }
+ * - "15" → { min: 15, max: 15 }
+ * - "abc" → undefined
+ */
+function parseRange(value: string, step: number): { min?: number; max?: number } | undefined {
+  const range = /^(\$?[\d.]+)-(\$?[\d.]+)$/.exec(value);
+  if (range) {
+    const min = parseNumber(range[1]);
+    const max = parseNumber(range[2]);
+    return min !== undefined && max !== undefined && min <= max ? { min, max } : undefined;
+  }
+
+  const comparison = /^(<=|>=|<|>)?(.*)$/.exec(value);
+  const amount = comparison ? parseNumber(comparison[2]) : undefined;
+  if (!comparison || amount === undefined) {
+    return undefined;
+  }
+
+  // Round away floating point noise from the exclusive step (20 - 0.01)
+  const round = (n: number) => Math.round(n * 100) / 100;
+  switch (comparison[1]) {
+    case '<':
+      return { max: round(amount - step) };
+    case '<=':
+      return { max: amount };
+    case '>':
+      return { min: round(amount + step) };
+    case '>=':
+      return { min: amount };
+    default:
+      return { min: amount, max: amount };
+  }
+}
+
+function addUnique<T>(list: T[] | undefined, value: T): T[] {
+  return list?.includes(value) ? list : [...(list ?? []), value];
+}
+
+/**
+ * Parse the search box text into filters, free text and errors
+ *
+ * Example:
+ * parseMenuQuery('tag:vegetarian price:<20 category:sides smoked')
+ * // → {
+ * //   filters: { tags: ['vegetarian'], maxPrice: 19.99, category: 'sides' },
+ * //   text: 'smoked',
+ * //   errors: []
+ * // }
+ */
+export function parseMenuQuery(input: string): ParsedMenuQuery {
+  const filters: MenuQueryFilters = {};
+  const text: string[] = [];
+  const errors: MenuQueryError[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, rawKey, quotedValue, bareValue, quotedText, word] = match;
+
+    if (rawKey === undefined) {
+      text.push(quotedText ?? word);
+      continue;
+    }
+
+    const key = rawKey.toLowerCase();
+    const value = (quotedValue ?? bareValue ?? '').trim();
+    const fail = (message: string) => errors.push({ token, message });
+
+    if (!KNOWN_KEYS.includes(key)) {
+      fail(`Unknown filter "${rawKey}:". Try ${KNOWN_KEYS.map((known) => `${known}:`).join(', ')}`);
+      continue;
+    }
+
+    if (!value) {
+      fail(`"${key}:" needs a value`);
+      continue;
+    }
+
+    switch (key) {
+      case 'category': {
+        const category = findByName(value, MENU_CATEGORIES, CATEGORY_LABELS);
+        if (!category) {
+          fail(`Unknown category "${value}"`);
+        } else if (filters.category && filters.category !== category) {
+          fail('Only one category: filter can be used at a time');
+        } else {
+          filters.category = category;
+        }
+        break;
+      }
+      case 'tag':
+        filters.tags = addUnique(filters.tags, value.toLowerCase());
+        break;
+      case 'diet': {
+        const flag = findByName(value, DIETARY_FLAGS, DIETARY_LABELS);
+        if (flag) {
+          filters.dietary = addUnique(filters.dietary, flag);
+        } else {
+          fail(`Unknown diet "${value}"`);
+        }
+        break;
+      }
+      case 'avoid': {
+        const allergen = findByName(value, ALLERGENS, ALLERGEN_LABELS);
+        if (allergen) {
+          filters.excludeAllergens = addUnique(filters.excludeAllergens, allergen);
+        } else {
+          fail(`Unknown allergen "${value}"`);
+        }
+        break;
+      }
+      case 'origin':
+        filters.origin = value;
+        break;
+      case 'price': {
+        const range = parseRange(value, PRICE_STEP);
+        if (!range) {
+          fail(`Could not read price "${value}". Try price:<20 or price:10-20`);
+          break;
+        }
+        // Repeated price filters narrow each other
+        if (range.min !== undefined) {
+          filters.minPrice = Math.max(filters.minPrice ?? range.min, range.min);
+        }
+        if (range.max !== undefined) {
+          filters.maxPrice = Math.min(filters.maxPrice ?? range.max, range.max);
+        }
+        break;
+      }
+      case 'rating': {
+        const range = parseRange(value, 0.1);
+        if (!range || range.min === undefined || range.max !== undefined && range.max !== range.min) {
+          fail(`Could not read rating "${value}". Try rating:>=4`);
+        } else {
+          filters.minRating = range.min;
+        }
+        break;
+      }
+    }
+  }
+
+  return { filters, text: text.join(' '), errors };
+}
+
+function quote(value: string): string {
+  return /[\s:"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Write a parsed query back as canonical search text
+ *
+ * Example:
+ * formatMenuQuery(parseMenuQuery('smoked  price:<20 tag:"Share Plate"'))
+ * // → 'tag:"share plate" price:<=19.99 smoked'
+ */
+export function formatMenuQuery({ filters, text }: Pick<ParsedMenuQuery, 'filters' | 'text'>): string {
+  const tokens: string[] = [];
+
+  if (filters.category) {
+    tokens.push(`category:${filters.category}`);
+  }
+  filters.tags?.forEach((tag) => tokens.push(`tag:${quote(tag)}`));
+  filters.dietary?.forEach((flag) => tokens.push(`diet:${flag}`));
+  filters.excludeAllergens?.forEach((allergen) => tokens.push(`avoid:${allergen}`));
+  if (filters.origin) {
+    tokens.push(`origin:${quote(filters.origin)}`);
+  }
+
+  const { minPrice, maxPrice } = filters;
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    tokens.push(minPrice === maxPrice ? `price:${minPrice}` : `price:${minPrice}-${maxPrice}`);
+  } else if (minPrice !== undefined) {
+    tokens.push(`price:>=${minPrice}`);
+  } else if (maxPrice !== undefined) {
+    tokens.push(`price:<=${maxPrice}`);
+  }
+
+  if (filters.minRating !== undefined) {
+    tokens.push(`rating:>=${filters.minRating}`);
+  }
+
+  if (text) {
+    tokens.push(text);
+  }
+
+  return tokens.join(' ');
+}
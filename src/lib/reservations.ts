@@ -0,0 +1,156 @@
+/**
+ * Reservation Rules
+ *
+ * Seating times and booking validation shared by ReservePage and the
+ * reservation service (see services/reservation.service.ts):
+ * - Seating times are generated from each location's hours, special hours
+ *   included: every RESERVATION_SEATING_INTERVAL_MINUTES from opening until
+ *   RESERVATION_LAST_SEATING_MINUTES before closing
+ * - Times are kept on the chosen calendar date; late seatings after
+ *   midnight are walk-in only
+ * - Dates, times and "today" are Vancouver's (RESTAURANT_TIME_ZONE)
+ * - ReservationRequestSchema (zod) validates what the guest entered; the
+ *   service validates again before booking
+ *
+ * Examples (Coal Harbour, Friday "11:00am – 1:00am", 30 minute interval):
+ * - getSeatingTimes(location, '2024-07-05') → ['11:00', '11:30', ..., '23:30']
+ * - formatSeatingTime('18:30') → '6:30pm'
+ * - formatReservationDate('2024-07-05') → 'Friday, July 5'
+ */
+
+import { z, type ZodIssue } from 'zod';
+import {
+  LOCATIONS,
+  MAX_PARTY_SIZE,
+  MIN_PARTY_SIZE,
+  RESERVATION_LAST_SEATING_MINUTES,
+  RESERVATION_SEATING_INTERVAL_MINUTES
+} from './constants';
+import { formatClockTime, getOpeningHours, getZonedDateTime } from './hours';
+import type { Location, ReservationRequest } from './types';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const ReservationRequestSchema = z.object({
+  locationId: z
+    .string()
+    .refine((id) => LOCATIONS.some((location) => location.id === id), 'Choose one of our locations'),
+  date: z
+    .string()
+    .regex(ISO_DATE_PATTERN, 'Choose a date')
+    .refine((date) => !Number.isNaN(Date.parse(date)), 'Choose a date'),
+  time: z.string().regex(TIME_PATTERN, 'Choose a time'),
+  partySize: z
+    .number()
+    .int()
+    .min(MIN_PARTY_SIZE, 'Choose a party size')
+    .max(MAX_PARTY_SIZE, `For parties over ${MAX_PARTY_SIZE}, please call the location`),
+  name: z.string().trim().min(2, 'Enter the name for the booking'),
+  email: z.string().trim().email('Enter a valid email address'),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^[\d\s()+.-]{7,20}$/, 'Enter a valid phone number')
+    .optional(),
+  notes: z.string().trim().max(500, 'Keep notes under 500 characters').optional()
+});
+
+export type ReservationFieldErrors = Partial<Record<keyof ReservationRequest, string>>;
+
+/**
+ * First error message per form field, for showing under each input
+ */
+export function getReservationFieldErrors(issues: ZodIssue[]): ReservationFieldErrors {
+  const errors: ReservationFieldErrors = {};
+  for (const issue of issues) {
+    const field = issue.path[0] as keyof ReservationRequest | undefined;
+    if (field && !errors[field]) {
+      errors[field] = issue.message;
+    }
+  }
+  return errors;
+}
+
+export interface SeatingOptions {
+  // Minutes between seatings
+  intervalMinutes?: number;
+  // Last seating this many minutes before closing
+  lastSeatingMinutes?: number;
+  // Seatings at or before this moment (in restaurant time) are left out
+  now?: Date;
+}
+
+function toTimeString(minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Seating times for a location on a date, as 24-hour HH:MM strings
+ *
+ * Empty when the location is closed that day, the date has passed, or no
+ * seating time is left today.
+ */
+export function getSeatingTimes(
+  location: Location,
+  date: string,
+  {
+    intervalMinutes = RESERVATION_SEATING_INTERVAL_MINUTES,
+    lastSeatingMinutes = RESERVATION_LAST_SEATING_MINUTES,
+    now
+  }: SeatingOptions = {}
+): string[] {
+  const hours = getOpeningHours(location, date);
+  if (!hours) {
+    return [];
+  }
+
+  // "Today" is today in Vancouver, wherever the guest is booking from
+  let earliest = 0;
+  if (now) {
+    const current = getZonedDateTime(now);
+    if (date < current.date) {
+      return [];
+    }
+    if (date === current.date) {
+      earliest = current.minutes + 1;
+    }
+  }
+
+  // Start on the first interval boundary at or after opening
+  const first = Math.ceil(hours.opens / intervalMinutes) * intervalMinutes;
+  const last = Math.min(hours.closes - lastSeatingMinutes, MINUTES_PER_DAY - 1);
+  const times: string[] = [];
+  for (let minutes = first; minutes <= last; minutes += intervalMinutes) {
+    if (minutes >= earliest) {
+      times.push(toTimeString(minutes));
+    }
+  }
+  return times;
+}
+
+/**
+ * Format a YYYY-MM-DD date for guests
+ *
+ * Example: formatReservationDate('2024-07-05') → 'Friday, July 5'
+ */
+export function formatReservationDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+/**
+ * Format a 24-hour HH:MM seating time for guests
+ *
+ * Example: formatSeatingTime('18:30') → '6:30pm'
+ */
+export function formatSeatingTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return formatClockTime(hours * 60 + minutes);
+}
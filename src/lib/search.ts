@@ -0,0 +1,255 @@
+/**
+ * Menu Search Index
+ *
+ * Ranked, typo-tolerant search over the loaded menu. MenuPage builds the
+ * index once per data load (useMemo on the composed items), so typing in the
+ * search box only runs queries against it.
+ *
+ * Indexed fields (weight):
+ * - title (3)
+ * - tags and dietary labels (2)
+ * - category key and label, e.g. "mains" / "Chef Specials" (2)
+ * - description and origin (1)
+ *
+ * Matching per query term (score):
+ * - exact word (1)
+ * - prefix of a word, for terms of 2+ letters (0.75): "burg" → "burger"
+ * - typo within 1 edit for 4–7 letters, 2 edits for 8+ (0.5 / 0.3):
+ *   "burgr" → "burger", "fashoined" → "fashioned"
+ *
+ * Every term must match somewhere in the item (AND). An item's score is the
+ * sum over terms of the best field weight × match score, plus a bonus when
+ * the whole query appears in the title.
+ *
+ * Example:
+ * const index = createSearchIndex(items);
+ * index.search('burgr');
+ * // → Map { 'fallback-seawall-burger' => { score: 1.5, terms: Set { 'burger' } } }
+ */
+
+import { normalizeTitle } from './categorize';
+import { CATEGORY_LABELS, DIETARY_LABELS } from './constants';
+import type { MenuItem } from './types';
+
+export interface SearchHit {
+  score: number;
+  // Indexed words that matched, used to highlight the card
+  terms: Set<string>;
+}
+
+export interface SearchIndex {
+  // Hits keyed by MenuItem.id; items that don't match are absent
+  search: (query: string) => Map<string, SearchHit>;
+}
+
+interface IndexedField {
+  weight: number;
+  words: string[];
+}
+
+interface IndexedItem {
+  id: string;
+  title: string;
+  fields: IndexedField[];
+}
+
+// Words too common to require a match ("salmon with miso" still finds salmon)
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'with', 'of', 'on', 'in', 'for']);
+
+const TITLE_PHRASE_BONUS = 2;
+
+function tokenize(text: string | undefined): string[] {
+  return text ? normalizeTitle(text).split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment)
+ *
+ * Gives up early and returns max + 1 once the distance must exceed max.
+ *
+ * Examples:
+ * - ("burgr", "burger", 1) → 1
+ * - ("fashoined", "fashioned", 2) → 1 (swapped letters)
+ * - ("salmon", "lemon", 1) → 2
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const nextRow = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+
+      nextRow.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length];
+}
+
+function allowedTypos(term: string): number {
+  if (term.length >= 8) {
+    return 2;
+  }
+  return term.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Score how well a query term matches one indexed word (0 = no match)
+ */
+function matchWord(term: string, word: string): number {
+  if (word === term) {
+    return 1;
+  }
+
+  if (term.length >= 2 && word.startsWith(term)) {
+    return 0.75;
+  }
+
+  const typos = allowedTypos(term);
+  if (typos === 0) {
+    return 0;
+  }
+
+  const distance = editDistance(term, word, typos);
+  if (distance > typos) {
+    return 0;
+  }
+  return distance === 1 ? 0.5 : 0.3;
+}
+
+function indexItem(item: MenuItem): IndexedItem {
+  return {
+    id: item.id,
+    title: normalizeTitle(item.title),
+    fields: [
+      { weight: 3, words: tokenize(item.title) },
+      {
+        weight: 2,
+        words: [
+          ...(item.tags ?? []).flatMap(tokenize),
+          ...(item.dietary ?? []).flatMap((flag) => tokenize(DIETARY_LABELS[flag]))
+        ]
+      },
+      { weight: 2, words: [...tokenize(item.category), ...tokenize(CATEGORY_LABELS[item.category])] },
+      { weight: 1, words: [...tokenize(item.description), ...tokenize(item.origin)] }
+    ]
+  };
+}
+
+/**
+ * Build a search index over menu items
+ *
+ * Query results are memoized per normalized query, so re-rendering with the
+ * same search text doesn't rescan the menu.
+ */
+export function createSearchIndex(items: MenuItem[]): SearchIndex {
+  const indexed = items.map(indexItem);
+  const cache = new Map<string, Map<string, SearchHit>>();
+
+  const search = (query: string) => {
+    const normalizedQuery = normalizeTitle(query);
+    const cached = cache.get(normalizedQuery);
+    if (cached) {
+      return cached;
+    }
+
+    const allTerms = normalizedQuery.split(' ').filter(Boolean);
+    const meaningful = allTerms.filter((term) => !STOP_WORDS.has(term));
+    const terms = meaningful.length > 0 ? meaningful : allTerms;
+    const hits = new Map<string, SearchHit>();
+
+    if (terms.length > 0) {
+      for (const item of indexed) {
+        let score = 0;
+        const matched = new Set<string>();
+
+        const everyTermMatches = terms.every((term) => {
+          let best = 0;
+
+          for (const field of item.fields) {
+            for (const word of field.words) {
+              const wordScore = matchWord(term, word);
+              if (wordScore > 0) {
+                matched.add(word);
+                best = Math.max(best, wordScore * field.weight);
+              }
+            }
+          }
+
+          score += best;
+          return best > 0;
+        });
+
+        if (everyTermMatches) {
+          const phraseBonus = terms.length > 1 && item.title.includes(terms.join(' '));
+          hits.set(item.id, {
+            score: score + (phraseBonus ? TITLE_PHRASE_BONUS : 0),
+            terms: matched
+          });
+        }
+      }
+    }
+
+    cache.set(normalizedQuery, hits);
+    return hits;
+  };
+
+  return { search };
+}
+
+/**
+ * Split text into plain and highlighted segments
+ *
+ * A word is highlighted when its normalized form is one of the matched terms,
+ * so "Café" lights up for the indexed word "cafe".
+ *
+ * Example:
+ * highlightMatches('Seawall Burger', new Set(['burger']))
+ * // → [{ text: 'Seawall ', match: false }, { text: 'Burger', match: true }]
+ */
+export function highlightMatches(
+  text: string,
+  terms: Set<string> | undefined
+): Array<{ text: string; match: boolean }> {
+  if (!terms || terms.size === 0) {
+    return [{ text, match: false }];
+  }
+
+  const segments: Array<{ text: string; match: boolean }> = [];
+  for (const part of text.split(/([\p{L}\p{N}']+)/u)) {
+    if (!part) {
+      continue;
+    }
+
+    const match = terms.has(normalizeTitle(part));
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, match });
+    }
+  }
+
+  return segments;
+}
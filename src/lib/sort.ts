@@ -0,0 +1,163 @@
+/**
+ * Menu Sorting
+ *
+ * Comparators for every MenuSort key, combined into compound sorts that are
+ * applied in order: ['category', 'price_asc'] groups by category, cheapest
+ * first within each.
+ *
+ * Ties that survive every key are broken by title, then id, so equal-priced
+ * dishes land in the same order no matter how the sources returned them.
+ *
+ * Missing values (no price, rating or date) always sort last, in either
+ * direction: "High to Low" never opens with a Market Price dish.
+ */
+
+import { MAX_SORT_KEYS, MENU_CATEGORIES, MENU_SORT_LABELS, MENU_SORTS } from './constants';
+import type { MenuItem, MenuSort } from './types';
+
+// Search scores by item id (see lib/search.ts), used by 'relevance'
+export type RelevanceScores = Map<string, { score: number }>;
+
+type Comparator = (a: MenuItem, b: MenuItem) => number;
+
+const titleCollator = new Intl.Collator('en-CA', { sensitivity: 'base', numeric: true });
+
+// Keys that sort the same field; only the first one in a compound sort counts
+const SORT_FIELDS: Record<MenuSort, string> = {
+  price_asc: 'price',
+  price_desc: 'price',
+  name_asc: 'name',
+  name_desc: 'name',
+  rating_desc: 'rating',
+  newest: 'addedAt',
+  chefs_pick: 'chefsPick',
+  category: 'category',
+  relevance: 'relevance'
+};
+
+/**
+ * Compare two optional values with missing ones last
+ *
+ * direction: 1 for ascending, -1 for descending (missing stays last)
+ */
+function compareMissingLast<T extends number | string>(
+  a: T | null | undefined,
+  b: T | null | undefined,
+  direction: 1 | -1
+): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || a === undefined) {
+    return 1;
+  }
+  if (b === null || b === undefined) {
+    return -1;
+  }
+  return (a < b ? -1 : 1) * direction;
+}
+
+function createComparator(sort: MenuSort, relevance?: RelevanceScores): Comparator {
+  switch (sort) {
+    case 'price_asc':
+      return (a, b) => compareMissingLast(a.price, b.price, 1);
+    case 'price_desc':
+      return (a, b) => compareMissingLast(a.price, b.price, -1);
+    case 'name_asc':
+      return (a, b) => titleCollator.compare(a.title, b.title);
+    case 'name_desc':
+      return (a, b) => titleCollator.compare(b.title, a.title);
+    case 'rating_desc':
+      return (a, b) => compareMissingLast(a.rating, b.rating, -1);
+    case 'newest':
+      // ISO dates compare correctly as strings
+      return (a, b) => compareMissingLast(a.addedAt, b.addedAt, -1);
+    case 'chefs_pick':
+      return (a, b) => Number(b.chefsPick === true) - Number(a.chefsPick === true);
+    case 'category':
+      return (a, b) =>
+        MENU_CATEGORIES.indexOf(a.category) - MENU_CATEGORIES.indexOf(b.category);
+    case 'relevance':
+      return (a, b) =>
+        compareMissingLast(relevance?.get(a.id)?.score, relevance?.get(b.id)?.score, -1);
+  }
+}
+
+// Final tie-breakers, so the order never depends on input order
+const compareTitleThenId: Comparator = (a, b) =>
+  titleCollator.compare(a.title, b.title) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/**
+ * Build one comparator from a (compound) sort
+ *
+ * Example:
+ * items.sort(compareMenuItems(['category', 'price_asc']))
+ */
+export function compareMenuItems(sort: MenuSort[], relevance?: RelevanceScores): Comparator {
+  const comparators = [...sort.map((key) => createComparator(key, relevance)), compareTitleThenId];
+
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  };
+}
+
+/**
+ * Parse the ?sort= param into sort keys
+ *
+ * Any unknown key rejects the whole param (like an unknown category), so a
+ * mangled link falls back to the default order instead of a half-applied one.
+ * Repeated or contradicting keys keep their first occurrence.
+ *
+ * Examples:
+ * - 'price_asc' → ['price_asc']
+ * - 'category,price_asc' → ['category', 'price_asc']
+ * - 'price_asc,price_desc' → ['price_asc']
+ * - 'category,cheapest' → undefined
+ * - null → undefined
+ */
+export function parseSortParam(value: string | null | undefined): MenuSort[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const keys = value.split(',').map((key) => key.trim());
+  if (!keys.every((key): key is MenuSort => (MENU_SORTS as string[]).includes(key))) {
+    return undefined;
+  }
+
+  const fields = new Set<string>();
+  const sort = keys.filter((key) => {
+    const field = SORT_FIELDS[key];
+    if (fields.has(field)) {
+      return false;
+    }
+    fields.add(field);
+    return true;
+  });
+
+  return sort.slice(0, MAX_SORT_KEYS);
+}
+
+/**
+ * Write sort keys back as a ?sort= value
+ *
+ * Example: ['category', 'price_asc'] → 'category,price_asc'
+ */
+export function formatSortParam(sort: MenuSort[]): string {
+  return sort.join(',');
+}
+
+/**
+ * Human label for a (compound) sort
+ *
+ * Example: ['category', 'price_asc'] → 'Category, then Price: Low to High'
+ */
+export function describeSort(sort: MenuSort[]): string {
+  return sort.map((key) => MENU_SORT_LABELS[key]).join(', then ');
+}
@@ -1,3 +1,5 @@
+import type { ZodIssue } from 'zod';
+
 export type Category =
   | 'burgers'
   | 'sandwiches'
@@ -7,6 +9,63 @@ export type Category =
   | 'desserts'
   | 'mains';
 
+/**
+ * Identifies where menu data is loaded from:
+ * - 'remote': free-food-menus API (API_BASE_URL)
+ * - 'static': kitchen-maintained JSON bundled in public/
+ * - 'fallback': in-memory FALLBACK_MENU_ITEMS
+ */
+export type MenuSourceId = 'remote' | 'static' | 'fallback';
+
+/**
+ * Priority food allergens, following Health Canada's list
+ * (crustaceans and molluscs are grouped as 'shellfish')
+ */
+export type Allergen =
+  | 'eggs'
+  | 'milk'
+  | 'mustard'
+  | 'peanuts'
+  | 'shellfish'
+  | 'fish'
+  | 'sesame'
+  | 'soy'
+  | 'sulphites'
+  | 'tree-nuts'
+  | 'wheat';
+
+/**
+ * Dietary suitability flags
+ * - 'gluten-free-option': can be prepared gluten-free on request
+ * - 'alcohol-free': zero-proof drinks
+ */
+export type DietaryFlag =
+  | 'vegan'
+  | 'vegetarian'
+  | 'gluten-free'
+  | 'gluten-free-option'
+  | 'dairy-free'
+  | 'nut-free'
+  | 'alcohol-free';
+
+/**
+ * How the composition layer fills a category (see services/menu.composition.ts):
+ * - 'remote': loaded items only; curated dishes stand in if the category fails
+ * - 'curated': always our own FALLBACK_MENU_ITEMS, loaded items are ignored
+ * - 'merge': curated dishes first, then loaded items
+ */
+export type MenuCompositionStrategy = 'remote' | 'curated' | 'merge';
+
+/**
+ * Where a displayed item came from and why it is on the menu
+ */
+export interface MenuItemProvenance {
+  // Loaded source, or 'curated' for FALLBACK_MENU_ITEMS added by composition
+  source: MenuSourceId | 'curated';
+  // 'substitute': standing in for data that could not be loaded
+  role: 'primary' | 'substitute';
+}
+
 export interface MenuItem {
   id: string;
   title: string;
@@ -15,12 +74,156 @@ export interface MenuItem {
   imageUrl?: string;
   category: Category;
   tags?: string[];
+  // Guest rating on a 0–5 scale, one decimal (e.g., 4.5)
+  rating?: number;
+  // Where the dish hails from, as reported by the source (e.g., "Austin, TX")
+  origin?: string;
+  // Declared allergens; undefined means unknown (not allergen-free)
+  allergens?: Allergen[];
+  // Dietary flags, derived from tags by withDietaryInfo (lib/dietary.ts)
+  dietary?: DietaryFlag[];
+  // ISO date the dish joined the menu (e.g., "2025-09-18"); drives "Newest"
+  addedAt?: string;
+  // Recommended by the kitchen; drives "Chef's Picks"
+  chefsPick?: boolean;
+  // Set by composeMenu; absent on raw source items
+  provenance?: MenuItemProvenance;
+}
+
+/**
+ * Categorization rule for items from shared API endpoints (see lib/categorize.ts)
+ *
+ * Terms are matched on word boundaries, so "tea" never matches "steak".
+ */
+export interface CategoryRule {
+  // Words or phrases that suggest the category; phrases count per word
+  keywords: string[];
+  // Terms that rule the category out entirely (e.g., "club soda" for sandwiches)
+  exclude?: string[];
+  // Breaks ties between equally strong matches; higher wins
+  priority: number;
+}
+
+/**
+ * Best category picked for an item title
+ */
+export interface CategoryMatch {
+  category: Category;
+  // Share of the total match strength held by the winner (0–1); 1 means unambiguous
+  confidence: number;
+  // Keywords that matched for the winning category
+  matched: string[];
+}
+
+/**
+ * Load outcome for one category:
+ * - 'ok': every endpoint answered (the category may still be legitimately empty)
+ * - 'partial': some endpoints failed, items are from the ones that answered
+ * - 'failed': nothing could be loaded
+ */
+export type CategoryLoadState = 'ok' | 'partial' | 'failed';
+
+export interface CategoryLoadStatus {
+  state: CategoryLoadState;
+  source: MenuSourceId;
+  itemCount: number;
+  // Guest-friendly explanation, present for 'partial' and 'failed'
+  reason?: string;
+  // Endpoints (or files) that could not be loaded
+  failedEndpoints?: string[];
+}
+
+/**
+ * A single payload item that failed schema validation and was skipped
+ */
+export interface MenuItemRejection {
+  endpoint: string;
+  // Position of the item in the endpoint's response array
+  index: number;
+  itemId?: string;
+  issues: ZodIssue[];
+}
+
+/**
+ * Envelope returned by fetchMenuItems: items plus per-category status so the
+ * UI can tell a missing category from an empty one, and the items that were
+ * rejected during validation.
+ */
+export interface MenuLoadResult {
+  items: MenuItem[];
+  categories: Partial<Record<Category, CategoryLoadStatus>>;
+  rejections: MenuItemRejection[];
+}
+
+/**
+ * Price bands offered as facets (see PRICE_BANDS in constants.ts)
+ */
+export type PriceBandId = 'under-15' | '15-25' | '25-35' | '35-plus';
+
+export interface PriceBand {
+  id: PriceBandId;
+  label: string;
+  // Inclusive lower bound; open when undefined
+  min?: number;
+  // Exclusive upper bound; open when undefined
+  max?: number;
 }
 
+/**
+ * Sort keys for the menu (see lib/sort.ts)
+ * - 'name_asc' / 'name_desc': by title, A–Z / Z–A
+ * - 'rating_desc': "Top rated", unrated dishes last
+ * - 'newest': most recently added first, undated dishes last
+ * - 'chefs_pick': chef's picks first
+ * - 'category': menu category order (Burgers, Sandwiches, ...)
+ * - 'relevance': "Best match" for the current search (default while searching)
+ *
+ * Keys combine into compound sorts, e.g. ?sort=category,price_asc
+ */
+export type MenuSort =
+  | 'price_asc'
+  | 'price_desc'
+  | 'name_asc'
+  | 'name_desc'
+  | 'rating_desc'
+  | 'newest'
+  | 'chefs_pick'
+  | 'category'
+  | 'relevance';
+
+/**
+ * How the menu grid presents results
+ *
+ * - paged: one page at a time, with Previous/Next
+ * - continuous: pages load as you scroll and offscreen rows are virtualized
+ */
+export type MenuView = 'paged' | 'continuous';
+
 export interface MenuFilters {
   category?: Category;
   search?: string;
-  sort?: 'price_asc' | 'price_desc';
+  // One key or a compound sort, applied in order
+  sort?: MenuSort | MenuSort[];
+  // Exact origin match, case-insensitive (e.g., "Austin, TX")
+  origin?: string;
+  // Dishes must carry every selected flag (e.g., vegan AND gluten-free)
+  dietary?: DietaryFlag[];
+  // Dishes must declare allergens and contain none of these
+  excludeAllergens?: Allergen[];
+  // Dishes must carry every tag; dietary labels count (e.g., "vegetarian")
+  tags?: string[];
+  // Inclusive price bounds
+  minPrice?: number;
+  maxPrice?: number;
+  // "Market Price" dishes (price: null): true keeps them even with price
+  // bounds set, false hides them; by default they only show without bounds
+  includeUnpriced?: boolean;
+  // Minimum rating (0–5); unrated dishes never match
+  minRating?: number;
+  // Dishes in any of these bands; dishes without a price never match
+  priceBands?: PriceBandId[];
+  // Only these dishes, by id (e.g. favourites); an empty list matches nothing
+  ids?: string[];
   page?: number;
 }
 
@@ -48,6 +251,83 @@ export interface Location {
   lng: number;
   phone: string;
   hours: LocationHours;
+  // Date-specific exceptions to `hours`, in any order
+  specialHours?: HoursOverride[];
   notes: LocationNotes;
   mapsEmbedUrl: string;
 }
+
+export type Weekday = keyof LocationHours;
+
+// A table booking as entered in the /reserve form (validated with zod)
+export interface ReservationRequest {
+  locationId: string;
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  // Seating time, 24-hour HH:MM on that date
+  time: string;
+  partySize: number;
+  name: string;
+  email: string;
+  phone?: string;
+  // Allergies, occasions, seating preferences
+  notes?: string;
+}
+
+export interface Reservation extends ReservationRequest {
+  // Short reference shown to the guest, e.g. "CC-7F3K9Q"
+  id: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// One bookable seating time for a location, date and party size
+export interface TimeSlot {
+  // 24-hour HH:MM
+  time: string;
+  // false when every table for that time is booked
+  available: boolean;
+}
+
+/**
+ * Hours for one date that replace the weekly pattern (holidays, events)
+ *
+ * Dates are Vancouver calendar dates. A closure only affects opening on that
+ * date; the night before still closes at its usual time.
+ */
+export type HoursOverride =
+  | {
+      date: string;
+      closed: true;
+      // Shown to guests, e.g. "Christmas Day"
+      note?: string;
+    }
+  | {
+      date: string;
+      closed?: false;
+      // Same format as LocationHours, e.g. "10:00am – 2:00am"
+      hours: string;
+      note?: string;
+    };
+
+// A point on the map, in decimal degrees
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// A place guests can type instead of sharing their location
+export interface LookupArea extends Coordinates {
+  // First three characters of its postal codes, e.g. "V6B"
+  postalPrefix: string;
+  // Neighbourhood names and nicknames, matched case-insensitively
+  names: string[];
+}
+
+// The area a map shows, in decimal degrees
+export interface MapBounds {
+  north: number;
+  south: number;
+  west: number;
+  east: number;
+}
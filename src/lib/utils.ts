@@ -4,15 +4,37 @@
  * Core helper functions for the application:
  * - Currency formatting
  * - Menu filtering and sorting
- * - Pagination
+ * - URL parameter parsing (lists, prices, page numbers)
  * - Type guards and validators
  *
- * These utilities are used primarily in MenuPage.tsx for data transformation. I 
- * know it's not a good practice to include filtering, sorting, and pagination logic
- * in frontend, but just to show a POC I include the logic here.
+ * Filtering and sorting back the local menu query service
+ * (services/menu.query.ts), which also pages the results by cursor.
+ * MenuPage talks to it through the MenuQuery contract so a backend can
+ * take over later.
  */
 
-import type { Category, MenuFilters, MenuItem } from './types';
+import { normalizeTitle } from './categorize';
+import {
+  ALLERGENS,
+  DIETARY_FLAGS,
+  DIETARY_LABELS,
+  MENU_SORTS,
+  MENU_VIEWS,
+  PRICE_BANDS
+} from './constants';
+import { HttpError, HttpStatusError } from './http';
+import { compareMenuItems } from './sort';
+import type { RelevanceScores } from './sort';
+import type {
+  Allergen,
+  Category,
+  DietaryFlag,
+  MenuFilters,
+  MenuItem,
+  MenuSort,
+  MenuView,
+  PriceBandId
+} from './types';
 
 /**
  * Format price as Canadian currency
@@ -35,6 +57,46 @@ export function formatCurrency(value: number | null): string {
   }).format(value);
 }
 
+/**
+ * Describe a failed request in guest-friendly words
+ *
+ * Branches on the HttpError kind so the banner explains what happened
+ * instead of echoing a raw status line.
+ *
+ * Examples:
+ * - TimeoutError → "the kitchen took too long to respond"
+ * - HttpStatusError 503 → "the kitchen is having trouble right now (503)"
+ * - new Error('Boom') → "Boom"
+ */
+export function describeRequestError(error: unknown): string {
+  if (error instanceof HttpStatusError) {
+    if (error.status >= 500) {
+      return `the kitchen is having trouble right now (${error.status})`;
+    }
+    if (error.status === 429) {
+      return 'the kitchen is busy, give it a moment';
+    }
+    return error.status === 404
+      ? 'the menu could not be found (404)'
+      : `the kitchen turned down our request (${error.status})`;
+  }
+
+  if (error instanceof HttpError) {
+    switch (error.kind) {
+      case 'timeout':
+        return 'the kitchen took too long to respond';
+      case 'network':
+        return 'we could not reach the kitchen, check your connection';
+      case 'parse':
+        return 'the kitchen sent a menu we could not read';
+      default:
+        return error.message;
+    }
+  }
+
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
 /**
  * Normalize URL query parameter
  *
@@ -64,11 +126,39 @@ export function normalizeQueryParam(value: string | null | undefined): string |
  * - If undefined: All items pass (no filter)
  *
  * Search filter: Multi-field text matching (case-insensitive)
+ * - Plain substring match; MenuPage uses the ranked, typo-tolerant index in
+ *   lib/search.ts instead
  * - Searches in: title and description
  * - Partial matches: "coastal" matches "Coastal Burger"
  * - If undefined: All items pass (no filter)
  *
- * Both filters must pass (AND logic)
+ * Origin filter: Exact match, case-insensitive
+ * - "austin, tx" matches items with origin "Austin, TX"
+ * - Items without an origin never match an origin filter
+ *
+ * Dietary filter (include): Item must carry EVERY selected flag
+ * - ['vegetarian', 'gluten-free'] → only dishes that are both
+ *
+ * Allergen filter (exclude): Item must declare its allergens and contain none
+ * of the excluded ones
+ * - Dishes with unknown allergens (allergens undefined) are hidden, since
+ *   "we don't know" is not safe for a guest avoiding shellfish
+ *
+ * Tag filter: Item must carry EVERY tag, compared case-insensitively against
+ * its tags and dietary labels
+ * - ['share plate'] matches the tag "Share Plate"
+ * - ['vegetarian'] also matches dishes flagged vegetarian without the tag
+ *
+ * Price and rating filters: Inclusive bounds
+ * - { maxPrice: 19.99 } → $19.99 and under; "Market Price" dishes are hidden
+ * - { maxPrice: 19.99, includeUnpriced: true } → also "Market Price" dishes
+ * - { includeUnpriced: false } → every dish with a listed price
+ * - { minRating: 4.5 } → 4.5 and up; unrated dishes are hidden
+ *
+ * Price band filter: Item must fall in ANY selected band (see PRICE_BANDS)
+ * - ['under-15', '35-plus'] → cheap bites and big plates
+ *
+ * All filters must pass (AND logic)
  *
  * Examples:
  * - filterMenuItems(items, { category: 'burgers' })
@@ -79,11 +169,62 @@ export function normalizeQueryParam(value: string | null | undefined): string |
  *   → Burgers with "coastal" in title or description
  */
 export function filterMenuItems(items: MenuItem[], filters: MenuFilters): MenuItem[] {
-  const { category, search } = filters;
+  const {
+    category,
+    search,
+    origin,
+    dietary = [],
+    excludeAllergens = [],
+    tags = [],
+    minPrice,
+    maxPrice,
+    includeUnpriced,
+    minRating,
+    priceBands = [],
+    ids
+  } = filters;
+  const originKey = origin?.toLowerCase();
+  const tagKeys = tags.map(normalizeTitle);
+  const idSet = ids ? new Set(ids) : undefined;
   return items.filter((item) => {
     // Category filter (exact match)
     const matchesCategory = category ? item.category === category : true;
 
+    // Id filter (e.g. favourites)
+    const matchesIds = idSet ? idSet.has(item.id) : true;
+
+    // Origin filter (exact match, case-insensitive)
+    const matchesOrigin = originKey ? item.origin?.toLowerCase() === originKey : true;
+
+    // Dietary include filter (every selected flag)
+    const matchesDietary = dietary.every((flag) => item.dietary?.includes(flag));
+
+    // Allergen exclude filter (declared and free of every excluded allergen)
+    const avoidsAllergens =
+      excludeAllergens.length === 0 ||
+      (item.allergens !== undefined &&
+        !excludeAllergens.some((allergen) => item.allergens?.includes(allergen)));
+
+    // Tag filter (every tag, case-insensitive, dietary labels included)
+    const itemTags = new Set(
+      [...(item.tags ?? []), ...(item.dietary ?? []).map((flag) => DIETARY_LABELS[flag])].map(
+        normalizeTitle
+      )
+    );
+    const matchesTags = tagKeys.every((tag) => itemTags.has(tag));
+
+    // Price and rating bounds (inclusive)
+    const matchesPrice =
+      item.price === null
+        ? includeUnpriced ?? (minPrice === undefined && maxPrice === undefined)
+        : (minPrice === undefined || item.price >= minPrice) &&
+          (maxPrice === undefined || item.price <= maxPrice);
+    const matchesBand =
+      priceBands.length === 0 ||
+      (item.price !== null && priceBands.some((band) => isInPriceBand(item.price, band)));
+    const matchesRating =
+      minRating === undefined || (item.rating !== undefined && item.rating >= minRating);
+
     // Search filter (case-insensitive, searches title and description)
     const matchesSearch = search
       ? `${item.title} ${item.description ?? ''}`
@@ -91,23 +232,57 @@ export function filterMenuItems(items: MenuItem[], filters: MenuFilters): MenuIt
           .includes(search.toLowerCase())
       : true;
 
-    return matchesCategory && matchesSearch;
+    return (
+      matchesCategory &&
+      matchesIds &&
+      matchesOrigin &&
+      matchesDietary &&
+      avoidsAllergens &&
+      matchesTags &&
+      matchesPrice &&
+      matchesBand &&
+      matchesRating &&
+      matchesSearch
+    );
   });
 }
 
 /**
- * Sort menu items by price
+ * Whether a price falls in a price band (min inclusive, max exclusive)
+ *
+ * Examples:
+ * - isInPriceBand(15, '15-25') → true
+ * - isInPriceBand(25, '15-25') → false
+ * - isInPriceBand(null, 'under-15') → false (Market Price)
+ */
+export function isInPriceBand(price: number | null, bandId: PriceBandId): boolean {
+  const band = PRICE_BANDS.find((entry) => entry.id === bandId);
+  if (price === null || !band) {
+    return false;
+  }
+  return (band.min === undefined || price >= band.min) && (band.max === undefined || price < band.max);
+}
+
+/**
+ * Sort menu items by one key or a compound sort
  *
- * Used in MenuPage.tsx sorting pipeline.
+ * Used in MenuPage.tsx sorting pipeline. Comparators live in lib/sort.ts.
  *
- * Sort options:
- * - 'price_asc': Low to high ($12, $14, $16...)
- * - 'price_desc': High to low ($16, $14, $12...)
+ * Sort options (see MenuSort):
+ * - 'price_asc' / 'price_desc': $12, $14, $16... / $16, $14, $12...
+ * - 'name_asc' / 'name_desc': A–Z / Z–A by title
+ * - 'rating_desc': Top rated first (4.8, 4.5, 3.9...)
+ * - 'newest': Most recently added first
+ * - 'chefs_pick': Chef's picks first
+ * - 'category': Menu category order
+ * - 'relevance': Highest search score first (scores from lib/search.ts)
  * - undefined: No sorting (returns shallow copy in original order)
  *
- * Null price handling:
- * - Items with null prices always sorted to end
- * - Uses POSITIVE_INFINITY so null > any number
+ * Compound sorts apply keys in order; remaining ties break by title, then id.
+ *
+ * Missing values handling:
+ * - Items with null prices, no rating or no date always sort to the end,
+ *   whichever direction is chosen
  *
  * Important: Creates shallow copy before sorting (immutability)
  *
@@ -116,53 +291,79 @@ export function filterMenuItems(items: MenuItem[], filters: MenuFilters): MenuIt
  *   → [$12, $14, $16, null, null]
  * - sortMenuItems(items, 'price_desc')
  *   → [$16, $14, $12, null, null]
+ * - sortMenuItems(items, ['category', 'price_asc'])
+ *   → [burgers $18, burgers $23, sandwiches $16...]
  * - sortMenuItems(items)
  *   → [original order]
  */
-export function sortMenuItems(items: MenuItem[], sort?: MenuFilters['sort']): MenuItem[] {
-  if (!sort) {
+export function sortMenuItems(
+  items: MenuItem[],
+  sort?: MenuSort | MenuSort[],
+  relevance?: RelevanceScores
+): MenuItem[] {
+  const keys = typeof sort === 'string' ? [sort] : sort;
+  if (!keys || keys.length === 0) {
     return [...items];  // Shallow copy, preserve original order
   }
 
-  const sorted = [...items];  // Shallow copy (don't mutate original)
+  return [...items].sort(compareMenuItems(keys, relevance));  // Shallow copy (don't mutate original)
+}
 
-  const compare = (a: MenuItem, b: MenuItem) => {
-    // Use POSITIVE_INFINITY for null prices (sorts them to end)
-    const priceA = a.price ?? Number.POSITIVE_INFINITY;
-    const priceB = b.price ?? Number.POSITIVE_INFINITY;
+/**
+ * Format a 0–5 rating for display
+ *
+ * Examples:
+ * - 4.5 → "4.5"
+ * - 4 → "4.0"
+ * - undefined → undefined (nothing to show)
+ */
+export function formatRating(rating: number | undefined): string | undefined {
+  return rating === undefined ? undefined : rating.toFixed(1);
+}
 
-    if (sort === 'price_asc') {
-      return priceA - priceB;  // Ascending: 12 - 14 = -2 (a comes first)
-    }
+/**
+ * Collect the distinct origins present in a list of items
+ *
+ * Used by MenuFilters to offer only origins that actually have dishes.
+ * Case variants are merged, keeping the first spelling seen.
+ *
+ * Example:
+ * - [{ origin: 'Austin, TX' }, { origin: 'austin, tx' }, { origin: 'Chicago, IL' }]
+ *   → ['Austin, TX', 'Chicago, IL']
+ */
+export function getMenuOrigins(items: MenuItem[]): string[] {
+  const origins = new Map<string, string>();
 
-    if (sort === 'price_desc') {
-      return priceB - priceA;  // Descending: 14 - 12 = 2 (b comes first)
+  for (const item of items) {
+    const key = item.origin?.toLowerCase();
+    if (item.origin && key && !origins.has(key)) {
+      origins.set(key, item.origin);
     }
+  }
 
-    return 0;
-  };
-
-  sorted.sort(compare);
-  return sorted;
+  return [...origins.values()].sort((a, b) => a.localeCompare(b));
 }
 
 /**
- * Paginate items (generic utility works with any array)
+ * Remove duplicate menu items by ID
  *
- * Used in MenuPage.tsx to show 9 items per page.
- *
- * Examples:
- * - paginateItems([1,2,3,4,5,6,7,8,9,10], 1, 3) → [1,2,3]
- * - paginateItems([1,2,3,4,5,6,7,8,9,10], 2, 3) → [4,5,6]
- * - paginateItems([1,2,3,4,5,6,7,8,9,10], 3, 3) → [7,8,9]
- *
- * @param items - Array to paginate
- * @param page - Page number (1-indexed)
- * @param perPage - Items per page
+ * Some items appear in multiple endpoints (e.g., BBQ in both sandwiches and sides)
+ * Keep only first occurrence
  */
-export function paginateItems<T>(items: T[], page: number, perPage: number): T[] {
-  const start = (page - 1) * perPage;  // Page 1 starts at index 0, page 2 at index 9, etc.
-  return items.slice(start, start + perPage);
+export function dedupeMenuItems(items: MenuItem[]): MenuItem[] {
+  const existing = new Set<string>();
+  const unique: MenuItem[] = [];
+
+  for (const item of items) {
+    if (existing.has(item.id)) {
+      continue;
+    }
+
+    existing.add(item.id);
+    unique.push(item);
+  }
+
+  return unique;
 }
 
 /**
@@ -189,6 +390,74 @@ export function isCategory(value: string | null | undefined): value is Category
   );
 }
 
+/**
+ * Type guard: Check if string is a single supported sort key
+ *
+ * Compound ?sort= values are validated by parseSortParam (lib/sort.ts)
+ *
+ * Examples:
+ * - isMenuSort('rating_desc') → true
+ * - isMenuSort('newest') → true
+ * - isMenuSort('cheapest') → false
+ */
+export function isMenuSort(value: string | null | undefined): value is MenuSort {
+  return typeof value === 'string' && (MENU_SORTS as string[]).includes(value);
+}
+
+// Guard for ?view= (anything else falls back to the paged view)
+export function isMenuView(value: string | null | undefined): value is MenuView {
+  return typeof value === 'string' && (MENU_VIEWS as string[]).includes(value);
+}
+
+export function isDietaryFlag(value: string): value is DietaryFlag {
+  return (DIETARY_FLAGS as string[]).includes(value);
+}
+
+export function isAllergen(value: string): value is Allergen {
+  return (ALLERGENS as string[]).includes(value);
+}
+
+export function isPriceBandId(value: string): value is PriceBandId {
+  return PRICE_BANDS.some((band) => band.id === value);
+}
+
+/**
+ * Add or remove one value from a multi-select, keeping a canonical order
+ *
+ * Example:
+ * - toggleListValue(['vegan'], 'vegetarian', DIETARY_FLAGS) → ['vegan', 'vegetarian']
+ * - toggleListValue(['vegan'], 'vegan', DIETARY_FLAGS) → []
+ */
+export function toggleListValue<T extends string>(selected: T[], value: T, order: readonly T[]): T[] {
+  const next = selected.includes(value)
+    ? selected.filter((entry) => entry !== value)
+    : [...selected, value];
+  return order.filter((entry) => next.includes(entry));
+}
+
+/**
+ * Parse a comma-separated URL parameter into known values
+ *
+ * Unknown and duplicate entries are dropped, so a hand-edited URL can't
+ * produce an impossible filter.
+ *
+ * Examples:
+ * - parseListParam('vegan,gluten-free', isDietaryFlag) → ['vegan', 'gluten-free']
+ * - parseListParam('vegan,keto,vegan', isDietaryFlag) → ['vegan']
+ * - parseListParam(null, isAllergen) → []
+ */
+export function parseListParam<T extends string>(
+  value: string | null,
+  guard: (entry: string) => entry is T
+): T[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries = value.split(',').map((entry) => entry.trim()).filter(guard);
+  return [...new Set(entries)];
+}
+
 /**
  * Parse and validate page number from URL parameter
  *
@@ -207,3 +476,24 @@ export function parsePageParam(value: string | null): number {
   const parsed = Number(value ?? '1');
   return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 1;
 }
+
+/**
+ * Parse a price bound from a URL parameter
+ *
+ * Examples:
+ * - parsePriceParam('15') → 15
+ * - parsePriceParam('12.5') → 12.5
+ * - parsePriceParam('-3') → undefined (prices can't be negative)
+ * - parsePriceParam('cheap') → undefined
+ * - parsePriceParam(null) → undefined
+ *
+ * Used in MenuPage.tsx to read ?minPrice= and ?maxPrice=
+ */
+export function parsePriceParam(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
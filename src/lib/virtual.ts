@@ -0,0 +1,70 @@
+/**
+ * Row Virtualization
+ *
+ * Math behind the continuous menu view: which rows of the card grid are near
+ * the viewport and need rendering. Everything above and below is replaced by
+ * padding of the same height, so the page keeps its scroll length while only
+ * a few rows of MenuCards exist at a time.
+ *
+ * Example (rows 500px tall, viewport 800px, scrolled 1200px into the grid):
+ * getVirtualRange({ scrollOffset: 1200, viewportHeight: 800, rowHeight: 500, rowCount: 20, overscan: 1 })
+ * // → { startRow: 1, endRow: 5 }  (rows 2 and 3 are on screen, plus one either side)
+ */
+
+export interface VirtualRangeInput {
+  // How far the top of the viewport is past the top of the grid (negative above it)
+  scrollOffset: number;
+  viewportHeight: number;
+  // Row height including the gap below it
+  rowHeight: number;
+  rowCount: number;
+  // Extra rows rendered above and below the viewport
+  overscan: number;
+}
+
+export interface VirtualRange {
+  // First rendered row
+  startRow: number;
+  // One past the last rendered row
+  endRow: number;
+}
+
+/**
+ * Rows to render for the current scroll position
+ */
+export function getVirtualRange({
+  scrollOffset,
+  viewportHeight,
+  rowHeight,
+  rowCount,
+  overscan
+}: VirtualRangeInput): VirtualRange {
+  if (rowCount === 0 || rowHeight <= 0) {
+    return { startRow: 0, endRow: 0 };
+  }
+
+  const firstVisible = Math.floor(scrollOffset / rowHeight);
+  const lastVisible = Math.ceil((scrollOffset + viewportHeight) / rowHeight);
+
+  return {
+    startRow: Math.min(Math.max(firstVisible - overscan, 0), rowCount),
+    endRow: Math.min(Math.max(lastVisible + overscan, 0), rowCount)
+  };
+}
+
+/**
+ * Columns of the menu grid at a viewport width
+ *
+ * Mirrors the Tailwind classes on MenuGrid (sm:grid-cols-2 lg:grid-cols-3).
+ *
+ * Examples:
+ * - 375 → 1
+ * - 768 → 2
+ * - 1280 → 3
+ */
+export function getGridColumnCount(viewportWidth: number): number {
+  if (viewportWidth >= 1024) {
+    return 3;
+  }
+  return viewportWidth >= 640 ? 2 : 1;
+}
@@ -14,6 +14,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { RouterProvider } from 'react-router-dom';
 import router from './app/routes';
+import { isRetryableError } from './lib/http';
 import './styles/globals.css';
 
 /**
@@ -21,7 +22,8 @@ import './styles/globals.css';
  *
  * Manages server state (API data) with intelligent caching:
  * - staleTime: 5 minutes - Data is considered "fresh" for 5 min, won't refetch
- * - retry: 2 - Failed requests retry twice with exponential backoff
+ * - retry: Up to 2 retries with exponential backoff, skipped for errors that
+ *   won't fix themselves (404s, malformed JSON) via isRetryableError
  * - refetchOnWindowFocus: false - Don't refetch when user returns to tab
  *
  * Benefits:
@@ -34,7 +36,7 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5,      // 5 minutes
-      retry: 2,                       // Retry twice on failure
+      retry: (failureCount, error) => failureCount < 2 && isRetryableError(error),
       refetchOnWindowFocus: false     // Don't refetch on tab focus
     }
   }
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom';
 import Container from '../../components/layout/Container';
 import Button from '../../components/ui/Button';
 import Card from '../../components/ui/Card';
+import OpenStatusBadge from '../../components/locations/OpenStatusBadge';
+import { LOCATIONS } from '../../lib/constants';
 
 // Quick-hit talking points surfaced beneath the hero section.
 const highlights = [
@@ -95,6 +97,32 @@ const HomePage = () => {
           </div>
         </Container>
       </section>
+      <section className="pb-24">
+        <Container className="space-y-8">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <h2 className="font-display text-3xl font-semibold text-slate-900">
+              Open across downtown
+            </h2>
+            <Button asChild variant="secondary">
+              <Link to="/locations">All locations</Link>
+            </Button>
+          </div>
+          {/* Live open/closed status so guests can pick a room that's serving now. */}
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-5">
+            {LOCATIONS.map((location) => (
+              <Card key={location.id} className="!h-auto">
+                <h3 className="font-display text-lg font-semibold text-slate-900">
+                  {location.name}
+                </h3>
+                <p className="mt-2 text-xs text-slate-500">{location.address}</p>
+                <div className="mt-4">
+                  <OpenStatusBadge location={location} />
+                </div>
+              </Card>
+            ))}
+          </div>
+        </Container>
+      </section>
       <section className="pb-32">
         <Container className="grid gap-12 lg:grid-cols-2 lg:items-start">
           <div>
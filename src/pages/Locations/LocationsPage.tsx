@@ -1,9 +1,32 @@
+import { useMemo, useState } from 'react';
 import { Helmet } from 'react-helmet-async';
 import Container from '../../components/layout/Container';
 import LocationCard from '../../components/locations/LocationCard';
+import LocationsMap from '../../components/locations/LocationsMap';
+import NearestLocationFinder from '../../components/locations/NearestLocationFinder';
 import { LOCATIONS } from '../../lib/constants';
+import { sortByDistance } from '../../lib/geo';
+import type { DistanceOrigin } from '../../lib/geo';
 
 const LocationsPage = () => {
+  // Kept out of the URL: the guest's coordinates shouldn't end up in shared links
+  const [origin, setOrigin] = useState<DistanceOrigin | null>(null);
+
+  const locations = useMemo(
+    () =>
+      origin
+        ? sortByDistance(LOCATIONS, origin.coordinates)
+        : LOCATIONS.map((place) => ({ place, distanceKm: undefined })),
+    [origin]
+  );
+
+  // Map pins jump to the card and move focus there for keyboard and screen reader users
+  const showLocation = (id: string) => {
+    const card = document.getElementById(`location-${id}`);
+    card?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    card?.focus({ preventScroll: true });
+  };
+
   return (
     <>
       <Helmet>
@@ -26,10 +49,19 @@ const LocationsPage = () => {
               accessibility notes below.
             </p>
           </header>
+          <LocationsMap locations={LOCATIONS} onSelect={showLocation} />
+          <NearestLocationFinder origin={origin} onOriginChange={setOrigin} />
           {/* Render the full location catalogue so guests can compare hours and amenities. */}
           <div className="grid gap-10">
-            {LOCATIONS.map((location) => (
-              <LocationCard key={location.id} location={location} />
+            {locations.map(({ place, distanceKm }) => (
+              <div
+                key={place.id}
+                id={`location-${place.id}`}
+                tabIndex={-1}
+                className="focus-ring scroll-mt-24 rounded-[28px]"
+              >
+                <LocationCard location={place} distanceKm={distanceKm} />
+              </div>
             ))}
           </div>
         </Container>
@@ -0,0 +1,94 @@
+/**
+ * MenuItemPage Component
+ *
+ * Dish details at /menu/:itemId, rendered by MenuPage's <Outlet />. It opens
+ * a 'menu-item' dialog on the ui.store modal stack (ModalHost draws it over
+ * the filtered list). The URL is the state: a dish can be shared,
+ * bookmarked, and closed again with the back button.
+ *
+ * Data Flow:
+ * 1. MenuPage passes its query service through the outlet context
+ * 2. Look the dish up once the menu has loaded (works on a cold load)
+ * 3. Keep the modal descriptor in step (loading → dish or not found)
+ * 4. Set a per-dish title and description with Helmet
+ * 5. Close → back to the list with the same query params; unmounting the
+ *    route removes the dialog
+ *
+ * URL Examples:
+ * - /menu/kitchen-seawall-burger → Seawall Burger over the full menu
+ * - /menu/kitchen-seawall-burger?category=burgers&sort=price_asc → Over the burgers,
+ *   cheapest first; closing returns to /menu?category=burgers&sort=price_asc
+ */
+
+import { useCallback, useEffect } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useNavigate, useOutletContext, useParams } from 'react-router-dom';
+import type { MenuQueryService } from '../../services/menu.query';
+import { useUIStore } from '../../store/ui.store';
+
+export interface MenuItemOutletContext {
+  menuQueryService: MenuQueryService;
+  // Whether the menu is still loading; lookups wait for it
+  isMenuLoading: boolean;
+  // Changes whenever the loaded menu does (refetch or partial retry)
+  menuVersion: number;
+}
+
+// Set on links from the list, so closing can pop history instead of pushing
+export interface MenuItemLinkState {
+  fromMenu?: boolean;
+}
+
+const MenuItemPage = () => {
+  const { itemId = '' } = useParams();
+  const { menuQueryService, isMenuLoading, menuVersion } =
+    useOutletContext<MenuItemOutletContext>();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const { data: item, isPending } = useQuery({
+    queryKey: ['menu-item', itemId, menuVersion],
+    queryFn: ({ signal }) => menuQueryService.getItem(itemId, { signal }),
+    enabled: !isMenuLoading
+  });
+
+  // Opened from the list: going back restores it exactly (scroll included).
+  // Cold load: there's no list entry to go back to, so replace with one.
+  const handleClose = useCallback(() => {
+    if ((location.state as MenuItemLinkState | null)?.fromMenu) {
+      navigate(-1);
+    } else {
+      navigate({ pathname: '/menu', search: location.search }, { replace: true });
+    }
+  }, [location.state, location.search, navigate]);
+
+  // ModalHost renders the dialog; keep its descriptor in step with the route
+  const modalKey = `menu-item:${itemId}`;
+  const openModal = useUIStore((state) => state.openModal);
+  const closeModal = useUIStore((state) => state.closeModal);
+
+  useEffect(() => {
+    openModal({
+      key: modalKey,
+      type: 'menu-item',
+      props: { item: item ?? null, isPending },
+      onClose: handleClose
+    });
+  }, [openModal, modalKey, item, isPending, handleClose]);
+
+  useEffect(() => () => closeModal(modalKey), [closeModal, modalKey]);
+
+  if (isPending) {
+    return null;
+  }
+
+  return (
+    <Helmet>
+      <title>{`Cascade & Coast Kitchen | ${item ? item.title : 'Dish not found'}`}</title>
+      {item ? <meta name="description" content={item.description} /> : null}
+    </Helmet>
+  );
+};
+
+export default MenuItemPage;
@@ -4,73 +4,173 @@
  * Displays restaurant menu with filtering, sorting, and pagination.
  *
  * Architecture:
- * - URL-driven state (category, search, sort, page in query params)
+ * - URL-driven state (category, favourites, search, sort, origin, diet, avoid,
+ *   tag, price, minPrice, maxPrice, market, view, page in query params)
+ * - Favourites persisted in localStorage (favourites.store.ts); the
+ *   Favourites tab narrows the query to their ids
  * - React Query for data fetching and caching
- * - Client-side filtering/sorting (all data fetched at once)
- * - Zustand for modal state (menu item details)
+ * - MenuQueryService for filtering/sorting/paging (in-process today, see
+ *   services/menu.query.ts)
+ * - Nested route /menu/:itemId for dish details (MenuItemPage, over the list)
  *
  * Data Flow Pipeline:
  * 1. React Query fetches all menu items → cached for 5 minutes
- * 2. Merge remote data + fallback cocktails
- * 3. Filter by category and search text (useMemo)
- * 4. Sort by price or alphabetically (useMemo)
- * 5. Paginate to 9 items per page (useMemo)
- * 6. Render MenuGrid with final items
+ * 2. Compose loaded data with curated dishes (see menu.composition.ts)
+ * 3. Create a local query service over the composed menu (useMemo)
+ * 4. useInfiniteQuery asks it for 9 items at a time, keyed on the query:
+ *    search (with filter tokens), filters, facets and sort
+ * 5. Paged view: ?page=N shows page N alone, fetching cursors up to it;
+ *    Previous/Next step through the pages
+ *    Continuous view: scrolling near the end fetches the next cursor and
+ *    keeps every loaded page; ?page= follows the scroll position
+ * 6. Render MenuGrid (search matches highlighted)
  *
  * URL State Examples:
  * - /menu → All items
  * - /menu?category=burgers → Only burgers
+ * - /menu?favourites=1 → Starred dishes, plus any that left the menu
  * - /menu?category=burgers&sort=price_asc → Burgers sorted by price
+ * - /menu?origin=Austin%2C+TX&sort=rating_desc → Top rated dishes from Austin
+ * - /menu?sort=category,price_asc → Grouped by category, cheapest first
+ * - /menu?diet=vegetarian&avoid=tree-nuts → Vegetarian dishes without tree nuts
+ * - /menu?tag=share-plate&price=under-15,15-25 → Share plates under $25
+ * - /menu?minPrice=15&maxPrice=30&market=exclude → $15–$30, no Market Price dishes
  * - /menu?search=coastal&page=2 → Search results, page 2
+ * - /menu?view=continuous&page=3 → Infinite scroll, scrolled to the third page
+ * - /menu/kitchen-seawall-burger?category=burgers → Burger details over the burgers
+ * - /menu?search=tag:vegetarian+price:<20+smoked → Vegetarian dishes under $20
+ *   matching "smoked"
  */
 
-import { useEffect, useMemo } from 'react';
+import { Suspense, useEffect, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
-import { useQuery } from '@tanstack/react-query';
-import { useSearchParams } from 'react-router-dom';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient
+} from '@tanstack/react-query';
+import { Outlet, useSearchParams } from 'react-router-dom';
+import FacetSidebar from '../../components/menu/FacetSidebar';
+import MenuDiagnostics from '../../components/menu/MenuDiagnostics';
 import MenuFilters from '../../components/menu/MenuFilters';
 import MenuGrid from '../../components/menu/MenuGrid';
 import Container from '../../components/layout/Container';
-import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
-import Modal from '../../components/ui/Modal';
-import { MENU_CATEGORIES, ITEMS_PER_PAGE, CATEGORY_LABELS } from '../../lib/constants';
+import Button from '../../components/ui/Button';
+import Skeleton from '../../components/ui/Skeleton';
+import {
+  CATEGORY_LABELS,
+  ITEMS_PER_PAGE,
+  MENU_CATEGORIES,
+  MENU_VIEWS,
+  MENU_VIEW_LABELS
+} from '../../lib/constants';
+import { isRetryableError } from '../../lib/http';
 import {
-  filterMenuItems,
-  formatCurrency,
+  describeRequestError,
+  getMenuOrigins,
+  isAllergen,
   isCategory,
+  isDietaryFlag,
+  isMenuView,
+  isPriceBandId,
   normalizeQueryParam,
-  paginateItems,
+  parseListParam,
   parsePageParam,
-  sortMenuItems
+  parsePriceParam
 } from '../../lib/utils';
-import type { Category } from '../../lib/types';
-import { fetchMenuItems } from '../../services/menu.service';
-import { useUIStore } from '../../store/ui.store';
-import { FALLBACK_MENU_ITEMS } from '../../lib/fallback-menu';
+import type {
+  Allergen,
+  Category,
+  DietaryFlag,
+  MenuLoadResult,
+  MenuSort,
+  MenuView,
+  PriceBandId
+} from '../../lib/types';
+import {
+  fetchMenuCategories,
+  fetchMenuItems,
+  mergeMenuLoadResults
+} from '../../services/menu.service';
+import { composeMenu, hasSubstitutes, usesLoadedData } from '../../services/menu.composition';
+import { createLocalMenuQueryService } from '../../services/menu.query';
+import { parseMenuQuery } from '../../lib/query';
+import { isTagSlug } from '../../lib/facets';
+import { formatSortParam, parseSortParam } from '../../lib/sort';
+import { listFavourites, useFavouritesStore } from '../../store/favourites.store';
+import type { MenuItemOutletContext } from './MenuItemPage';
 
 const MenuPage = () => {
   // ===== DATA FETCHING (React Query) =====
   // Fetches all menu items from API, cached for 5 minutes
   // On subsequent renders, returns cached data instantly (no loading spinner)
-  const { data, isLoading, isError, error, refetch } = useQuery({
+  const { data, dataUpdatedAt, isLoading, isError, error, refetch } = useQuery({
     queryKey: ['menu-items'],
     queryFn: fetchMenuItems
   });
 
+  // ===== PARTIAL RETRY =====
+  // Re-fetch only the degraded categories and fold them into the cached result,
+  // so a flaky /bbqs doesn't force a reload of every other category
+  const queryClient = useQueryClient();
+  const retryCategories = useMutation({
+    mutationFn: (categories: Category[]) => fetchMenuCategories(categories),
+    onSuccess: (result) => {
+      queryClient.setQueryData<MenuLoadResult>(['menu-items'], (previous) =>
+        previous ? mergeMenuLoadResults(previous, result) : result
+      );
+    }
+  });
+
   // ===== URL STATE (Single Source of Truth) =====
   // All filters/sort/pagination live in URL for shareability and bookmarking
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Read URL parameters
   const categoryParam = searchParams.get('category');
+  const favouritesParam = searchParams.get('favourites');
   const sortParam = searchParams.get('sort');
+  const originParam = normalizeQueryParam(searchParams.get('origin'));
+  const dietParam = searchParams.get('diet');
+  const avoidParam = searchParams.get('avoid');
+  const tagParam = searchParams.get('tag');
+  const priceParam = searchParams.get('price');
+  const minPriceParam = parsePriceParam(searchParams.get('minPrice'));
+  const maxPriceParam = parsePriceParam(searchParams.get('maxPrice'));
+  const marketParam = searchParams.get('market');
   const searchParam = normalizeQueryParam(searchParams.get('search')) ?? '';
+  const viewParam = searchParams.get('view');
   const pageParam = parsePageParam(searchParams.get('page'));
 
   // Validate and normalize URL parameters
-  const category = isCategory(categoryParam) ? categoryParam : undefined;
-  const sort = sortParam === 'price_asc' || sortParam === 'price_desc' ? sortParam : undefined;
+  // The Favourites tab stands in for a category, so ?favourites=1 wins
+  const showFavourites = favouritesParam === '1';
+  const category = !showFavourites && isCategory(categoryParam) ? categoryParam : undefined;
+  // Single key or compound, e.g. ?sort=category,price_asc (unknown keys rejected)
+  const sort = useMemo(() => parseSortParam(sortParam), [sortParam]);
+  const origin = originParam;
+  // Comma lists, e.g. ?diet=vegan,gluten-free&avoid=tree-nuts (unknown values dropped)
+  const dietary = useMemo(() => parseListParam(dietParam, isDietaryFlag), [dietParam]);
+  const excludedAllergens = useMemo(() => parseListParam(avoidParam, isAllergen), [avoidParam]);
+  // Facet selections, e.g. ?tag=share-plate&price=under-15,15-25
+  const tags = useMemo(() => parseListParam(tagParam, isTagSlug), [tagParam]);
+  const priceBands = useMemo(() => parseListParam(priceParam, isPriceBandId), [priceParam]);
+  // Price range, e.g. ?minPrice=15&maxPrice=30 (a reversed range is swapped)
+  const minPrice =
+    minPriceParam !== undefined && maxPriceParam !== undefined
+      ? Math.min(minPriceParam, maxPriceParam)
+      : minPriceParam;
+  const maxPrice =
+    minPriceParam !== undefined && maxPriceParam !== undefined
+      ? Math.max(minPriceParam, maxPriceParam)
+      : maxPriceParam;
+  // "Market Price" dishes stay in unless ?market=exclude
+  const includeUnpriced = marketParam !== 'exclude';
+  const view: MenuView = isMenuView(viewParam) ? viewParam : 'paged';
+  // Paged: the page shown. Continuous: the page scrolled to (earlier ones stay loaded)
   const page = pageParam;
 
   /**
@@ -90,8 +190,18 @@ const MenuPage = () => {
    */
   const updateParams = (updates: {
     category?: Category | undefined;
-    sort?: 'price_asc' | 'price_desc' | undefined;
+    favourites?: boolean;
+    sort?: MenuSort[] | undefined;
+    origin?: string | undefined;
+    dietary?: DietaryFlag[];
+    excludedAllergens?: Allergen[];
+    tags?: string[];
+    priceBands?: PriceBandId[];
+    minPrice?: number | undefined;
+    maxPrice?: number | undefined;
+    includeUnpriced?: boolean;
     search?: string;
+    view?: MenuView;
     page?: number;
   }) => {
     const params = new URLSearchParams(searchParams);
@@ -104,14 +214,86 @@ const MenuPage = () => {
       }
     }
 
+    if ('favourites' in updates) {
+      if (updates.favourites) {
+        params.set('favourites', '1');
+      } else {
+        params.delete('favourites');
+      }
+    }
+
     if ('sort' in updates) {
-      if (updates.sort) {
-        params.set('sort', updates.sort);
+      if (updates.sort && updates.sort.length > 0) {
+        params.set('sort', formatSortParam(updates.sort));
       } else {
         params.delete('sort');
       }
     }
 
+    if ('origin' in updates) {
+      if (updates.origin) {
+        params.set('origin', updates.origin);
+      } else {
+        params.delete('origin');
+      }
+    }
+
+    if ('dietary' in updates) {
+      if (updates.dietary && updates.dietary.length > 0) {
+        params.set('diet', updates.dietary.join(','));
+      } else {
+        params.delete('diet');
+      }
+    }
+
+    if ('excludedAllergens' in updates) {
+      if (updates.excludedAllergens && updates.excludedAllergens.length > 0) {
+        params.set('avoid', updates.excludedAllergens.join(','));
+      } else {
+        params.delete('avoid');
+      }
+    }
+
+    if ('tags' in updates) {
+      if (updates.tags && updates.tags.length > 0) {
+        params.set('tag', updates.tags.join(','));
+      } else {
+        params.delete('tag');
+      }
+    }
+
+    if ('priceBands' in updates) {
+      if (updates.priceBands && updates.priceBands.length > 0) {
+        params.set('price', updates.priceBands.join(','));
+      } else {
+        params.delete('price');
+      }
+    }
+
+    if ('minPrice' in updates) {
+      if (updates.minPrice !== undefined) {
+        params.set('minPrice', String(updates.minPrice));
+      } else {
+        params.delete('minPrice');
+      }
+    }
+
+    if ('maxPrice' in updates) {
+      if (updates.maxPrice !== undefined) {
+        params.set('maxPrice', String(updates.maxPrice));
+      } else {
+        params.delete('maxPrice');
+      }
+    }
+
+    if ('includeUnpriced' in updates) {
+      if (updates.includeUnpriced === false) {
+        params.set('market', 'exclude');
+      } else {
+        params.delete('market');  // Included by default
+      }
+    }
+
     if ('search' in updates) {
       if (updates.search) {
         params.set('search', updates.search);
@@ -120,6 +302,14 @@ const MenuPage = () => {
       }
     }
 
+    if ('view' in updates) {
+      if (updates.view && updates.view !== 'paged') {
+        params.set('view', updates.view);
+      } else {
+        params.delete('view');  // Paged by default
+      }
+    }
+
     if ('page' in updates) {
       params.set('page', String(updates.page));
     }
@@ -128,57 +318,165 @@ const MenuPage = () => {
   };
 
   // ===== DATA PREPARATION =====
-  // Merge remote API data with fallback cocktails (business requirement)
-  const remoteItems = Array.isArray(data) ? data : [];
-  const hasRemoteData = remoteItems.length > 0;
-  const shouldUseFallback = !hasRemoteData && !isLoading;
-
-  // Cocktails always use fallback data (never from API)
-  const cocktailItems = FALLBACK_MENU_ITEMS.filter(item => item.category === 'cocktails');
-  const nonCocktailRemoteItems = hasRemoteData ? remoteItems.filter(item => item.category !== 'cocktails') : [];
-
-  // Three scenarios:
-  // 1. API success: remote items + fallback cocktails
-  // 2. API error: all fallback items
-  // 3. Loading: just cocktails (show something while loading)
-  const items = hasRemoteData
-    ? [...nonCocktailRemoteItems, ...cocktailItems]
-    : shouldUseFallback
-      ? FALLBACK_MENU_ITEMS
-      : cocktailItems;
-  const usingFallback = shouldUseFallback && !hasRemoteData;
-
-  // ===== FILTERING & SORTING (Performance Optimized with useMemo) =====
-  // useMemo prevents re-filtering/re-sorting on every render
-  // Only recomputes when dependencies change: [items, category, searchParam, sort]
-  const filteredItems = useMemo(() => {
-    const filtered = filterMenuItems(items, { category, search: searchParam });
-    return sortMenuItems(filtered, sort);
-  }, [items, category, searchParam, sort]);
+  // Compose loaded data with our curated dishes per MENU_COMPOSITION
+  // (cocktails are always curated; failed categories get curated stand-ins)
+  // Stand-ins wait until loading settles so the grid doesn't flash the house menu
+  const items = useMemo(
+    () => composeMenu(data, { substituteMissing: !isLoading }),
+    [data, isLoading]
+  );
+  const showcasingSignatureDishes = hasSubstitutes(items);
+
+  // Categories that loaded partially or not at all. Categories served only
+  // from curated dishes are skipped since their load status doesn't matter.
+  const categoryStatus = data?.categories;
+  const degradedCategories = MENU_CATEGORIES.filter((menuCategory) => {
+    const status = categoryStatus?.[menuCategory];
+    return usesLoadedData(menuCategory) && status !== undefined && status.state !== 'ok';
+  });
+
+  // Filter tokens in the search text (tag:vegetarian price:<20) are applied
+  // by the query service; parsing here only surfaces typos under the input
+  const searchErrors = useMemo(() => parseMenuQuery(searchParam).errors, [searchParam]);
+
+  // ===== FAVOURITES =====
+  // Stored by id with a title snapshot. Once the menu has loaded, favourites
+  // missing from it are listed as no longer available rather than dropped.
+  const favourites = useFavouritesStore((state) => state.favourites);
+  const removeFavourite = useFavouritesStore((state) => state.removeFavourite);
+  const favouriteIds = useMemo(() => Object.keys(favourites), [favourites]);
+  const unavailableFavourites = useMemo(() => {
+    if (isLoading) {
+      return [];
+    }
+    const menuIds = new Set(items.map((item) => item.id));
+    return listFavourites(favourites).filter((entry) => !menuIds.has(entry.id));
+  }, [favourites, items, isLoading]);
+  const availableFavouritesCount = isLoading
+    ? undefined
+    : favouriteIds.length - unavailableFavourites.length;
+
+  // Origin options come from the whole menu so picking one never hides the rest
+  const origins = useMemo(() => getMenuOrigins(items), [items]);
+
+  // ===== MENU QUERY (filter, sort, page) =====
+  // The query service does the filtering, facet counting, sorting and paging.
+  // Today it runs locally over the composed menu (see menu.query.ts); a
+  // backend implementation can replace it without touching this page.
+  const menuQueryService = useMemo(() => createLocalMenuQueryService(items), [items]);
+  const menuQuery = useMemo(
+    () => ({
+      filters: {
+        category,
+        ids: showFavourites ? favouriteIds : undefined,
+        search: searchParam,
+        origin,
+        dietary,
+        excludeAllergens: excludedAllergens,
+        tags,
+        priceBands,
+        minPrice,
+        maxPrice,
+        includeUnpriced
+      },
+      sort,
+      limit: ITEMS_PER_PAGE
+    }),
+    [
+      category,
+      showFavourites,
+      favouriteIds,
+      searchParam,
+      origin,
+      dietary,
+      excludedAllergens,
+      tags,
+      priceBands,
+      minPrice,
+      maxPrice,
+      includeUnpriced,
+      sort
+    ]
+  );
+
+  // Keyed on the query; dataUpdatedAt re-keys it when the local menu changes
+  // (a refetch or partial retry). keepPreviousData stops the grid flashing
+  // skeletons on every keystroke.
+  const results = useInfiniteQuery({
+    queryKey: ['menu-query', menuQuery, dataUpdatedAt],
+    queryFn: ({ pageParam, signal }) =>
+      menuQueryService.query({ ...menuQuery, cursor: pageParam }, { signal }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !isLoading,
+    placeholderData: keepPreviousData
+  });
+  const { fetchNextPage, hasNextPage, isFetchingNextPage, isPlaceholderData } = results;
+  const pages = useMemo(() => results.data?.pages ?? [], [results.data]);
+  const facets = pages[0]?.facets;
+  const totalItems = pages[0]?.total ?? 0;
 
   // ===== PAGINATION =====
-  const totalItems = filteredItems.length;
   const totalPages = Math.max(1, Math.ceil(totalItems / ITEMS_PER_PAGE));
   const currentPage = Math.min(page, totalPages);
-  const paginatedItems = useMemo(
-    () => paginateItems(filteredItems, currentPage, ITEMS_PER_PAGE),
-    [filteredItems, currentPage]
+  // Continuous keeps every fetched page; paged shows only the current one
+  const shownPages = useMemo(() => {
+    if (view === 'continuous') {
+      return pages;
+    }
+    const current = pages[currentPage - 1];
+    return current ? [current] : [];
+  }, [view, pages, currentPage]);
+  const visibleItems = useMemo(() => shownPages.flatMap((result) => result.items), [shownPages]);
+  const highlights = useMemo(
+    () => Object.assign({}, ...shownPages.map((result) => result.highlights)),
+    [shownPages]
   );
+  // Paged view waits on the cursors leading up to its page
+  const isLoadingResults =
+    isLoading || results.isPending || (view === 'paged' && totalItems > 0 && !shownPages.length);
+
+  // Cursors only go forward, so ?page=3 (a shared link, a reload, or Next)
+  // fetches pages one by one until it has the third
+  useEffect(() => {
+    if (!isPlaceholderData && pages.length < currentPage && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  }, [isPlaceholderData, pages.length, currentPage, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Continuous view: the grid asks for more as its last row nears the viewport
+  const loadNextPage = () => {
+    if (!isPlaceholderData && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  };
+
+  // Continuous view: keep ?page= on the page at the top of the screen, so
+  // back navigation and shared links land in the same place
+  const handleTopIndexChange = (index: number) => {
+    const topPage = Math.floor(index / ITEMS_PER_PAGE) + 1;
+    if (topPage !== page) {
+      updateParams({ page: topPage });
+    }
+  };
 
   // Auto-correct: If user is on page 5 but filters reduce results to 2 pages,
   // redirect to page 2 (prevent showing empty "page 5 of 2")
   useEffect(() => {
-    if (page > totalPages) {
+    if (results.isSuccess && !isPlaceholderData && page > totalPages) {
       updateParams({ page: totalPages });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, totalPages]);
+  }, [results.isSuccess, isPlaceholderData, page, totalPages]);
 
-  // ===== MODAL STATE (Zustand Global State) =====
-  // Used for menu item detail modal
-  // MenuCard calls openMenuItem() directly (no prop drilling)
-  const activeMenuItem = useUIStore((state) => state.activeMenuItem);
-  const closeMenuItem = useUIStore((state) => state.closeMenuItem);
+  // ===== DISH ROUTE (/menu/:itemId) =====
+  // MenuCard links to the nested route; it looks dishes up through the same
+  // service, once the menu has loaded
+  const menuItemContext: MenuItemOutletContext = {
+    menuQueryService,
+    isMenuLoading: isLoading,
+    menuVersion: dataUpdatedAt
+  };
 
   return (
     <>
@@ -205,9 +503,15 @@ const MenuPage = () => {
             categories={MENU_CATEGORIES}
             activeCategory={category}
             onCategoryChange={(nextCategory) => {
-              updateParams({ category: nextCategory, page: 1 });
+              updateParams({ category: nextCategory, favourites: false, page: 1 });
+            }}
+            showFavourites={showFavourites}
+            favouritesCount={availableFavouritesCount}
+            onFavouritesSelect={() => {
+              updateParams({ category: undefined, favourites: true, page: 1 });
             }}
             search={searchParam}
+            searchErrors={searchErrors}
             onSearchChange={(value) => {
               updateParams({ search: value, page: 1 });
             }}
@@ -215,99 +519,257 @@ const MenuPage = () => {
             onSortChange={(nextSort) => {
               updateParams({ sort: nextSort, page: 1 });
             }}
+            origins={origins}
+            origin={origin}
+            onOriginChange={(nextOrigin) => {
+              updateParams({ origin: nextOrigin, page: 1 });
+            }}
             totalItems={totalItems}
+            facets={facets}
+            categoryStatus={categoryStatus}
           />
           {isError ? (
             <div className="rounded-3xl border border-red-200 bg-red-50 p-8 text-center text-sm text-red-700">
-              <p>
-                We hit a snag while fetching the menu:{' '}
-                {error instanceof Error ? error.message : 'Unknown error'}.
-              </p>
+              <p>We hit a snag while fetching the menu: {describeRequestError(error)}.</p>
               <p className="mt-2 text-slate-600">
                 We are serving our curated house menu while we reconnect.
               </p>
-              <Button className="mt-4" onClick={() => refetch()}>
-                Retry
-              </Button>
+              {/* Only offer a retry when the failure can plausibly clear up on its own */}
+              {isRetryableError(error) ? (
+                <Button className="mt-4" onClick={() => refetch()}>
+                  Retry
+                </Button>
+              ) : null}
             </div>
           ) : null}
-          {!isError && usingFallback ? (
-            <div className="rounded-3xl border border-brand-200 bg-brand-50 p-6 text-center text-sm text-brand-700">
-              We are showcasing our signature dishes while new menu data loads.
-            </div>
-          ) : null}
-          {!isLoading && !isError && totalItems === 0 ? (
-            <div className="rounded-3xl border border-stone-200 bg-white p-12 text-center text-sm text-slate-600 shadow-lg shadow-brand-100/50">
-              <p>No dishes match your filters.</p>
+          {!isError && degradedCategories.length > 0 ? (
+            <div
+              role="status"
+              className="rounded-3xl border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800"
+            >
+              <p>
+                Some sections are running on limited data:{' '}
+                {degradedCategories
+                  .map((menuCategory) =>
+                    categoryStatus?.[menuCategory]?.state === 'failed'
+                      ? `${CATEGORY_LABELS[menuCategory]} (unavailable)`
+                      : `${CATEGORY_LABELS[menuCategory]} (partially loaded)`
+                  )
+                  .join(', ')}
+                .
+              </p>
               <Button
                 className="mt-4"
                 variant="secondary"
-                onClick={() =>
-                  updateParams({ category: undefined, search: '', sort: undefined, page: 1 })
-                }
+                size="sm"
+                disabled={retryCategories.isPending}
+                onClick={() => retryCategories.mutate(degradedCategories)}
               >
-                Reset filters
+                {retryCategories.isPending ? 'Retrying…' : 'Retry these sections'}
               </Button>
             </div>
           ) : null}
-          <MenuGrid items={paginatedItems} isLoading={isLoading} />
-          {totalPages > 1 ? (
-            <div className="flex items-center justify-between gap-4">
-              <Button
-                variant="secondary"
-                size="sm"
-                disabled={currentPage === 1}
-                onClick={() => updateParams({ page: currentPage - 1 })}
-              >
-                Previous
-              </Button>
-              <div className="flex items-center gap-3 text-sm text-slate-600">
-                <span>Page</span>
-                <Badge color="neutral">{currentPage}</Badge>
-                <span className="text-slate-400">of</span>
-                <span>{totalPages}</span>
-              </div>
-              <Button
-                variant="secondary"
-                size="sm"
-                disabled={currentPage === totalPages}
-                onClick={() => updateParams({ page: currentPage + 1 })}
-              >
-                Next
-              </Button>
+          {!isError && showcasingSignatureDishes ? (
+            <div className="rounded-3xl border border-brand-200 bg-brand-50 p-6 text-center text-sm text-brand-700">
+              We are showcasing our signature dishes while new menu data loads.
             </div>
           ) : null}
-        </Container>
-      </section>
-      <Modal
-        isOpen={Boolean(activeMenuItem)}
-        onClose={closeMenuItem}
-        title={activeMenuItem?.title ?? ''}
-        description={activeMenuItem ? CATEGORY_LABELS[activeMenuItem.category] : undefined}
-      >
-        {activeMenuItem ? (
-          <div className="space-y-4">
-            <img
-              src={activeMenuItem.imageUrl ?? '/src/assets/placeholder.jpg'}
-              alt={activeMenuItem.title}
-              className="h-56 w-full rounded-3xl border border-white object-cover"
-            />
-            <p className="text-sm text-slate-600">{activeMenuItem.description}</p>
-            <p className="text-sm font-semibold text-slate-900">
-              {formatCurrency(activeMenuItem.price)}
-            </p>
-            {activeMenuItem.tags ? (
-              <div className="flex flex-wrap gap-2">
-                {activeMenuItem.tags.map((tag) => (
-                  <Badge key={tag} color="neutral">
-                    {tag}
-                  </Badge>
-                ))}
+          <div className="grid gap-8 lg:grid-cols-[18rem_minmax(0,1fr)] lg:items-start">
+            {facets ? (
+              <FacetSidebar
+                facets={facets}
+                dietary={dietary}
+                onDietaryChange={(nextDietary) => {
+                  updateParams({ dietary: nextDietary, page: 1 });
+                }}
+                excludedAllergens={excludedAllergens}
+                onExcludedAllergensChange={(nextAllergens) => {
+                  updateParams({ excludedAllergens: nextAllergens, page: 1 });
+                }}
+                tags={tags}
+                onTagsChange={(nextTags) => {
+                  updateParams({ tags: nextTags, page: 1 });
+                }}
+                priceBands={priceBands}
+                onPriceBandsChange={(nextBands) => {
+                  updateParams({ priceBands: nextBands, page: 1 });
+                }}
+                minPrice={minPrice}
+                maxPrice={maxPrice}
+                onPriceRangeChange={(range) => {
+                  updateParams({ ...range, page: 1 });
+                }}
+                includeUnpriced={includeUnpriced}
+                onIncludeUnpricedChange={(include) => {
+                  updateParams({ includeUnpriced: include, page: 1 });
+                }}
+                onClear={() =>
+                  updateParams({
+                    dietary: [],
+                    excludedAllergens: [],
+                    tags: [],
+                    priceBands: [],
+                    minPrice: undefined,
+                    maxPrice: undefined,
+                    includeUnpriced: true,
+                    page: 1
+                  })
+                }
+              />
+            ) : (
+              <Skeleton className="h-96 w-full" />
+            )}
+            <div className="space-y-10">
+              {showFavourites && unavailableFavourites.length > 0 ? (
+                <section
+                  aria-labelledby="unavailable-favourites"
+                  className="rounded-3xl border border-stone-200 bg-stone-50 p-6 text-sm text-slate-600"
+                >
+                  <h2 id="unavailable-favourites" className="font-semibold text-slate-900">
+                    No longer available
+                  </h2>
+                  <ul className="mt-3 space-y-2">
+                    {unavailableFavourites.map((entry) => {
+                      // A dish from a section that failed to load may well come back
+                      const status = categoryStatus?.[entry.category];
+                      const isSectionDown = status !== undefined && status.state !== 'ok';
+                      return (
+                        <li key={entry.id} className="flex items-center justify-between gap-4">
+                          <span>
+                            <span className="font-medium text-slate-700">{entry.title}</span>
+                            {' · '}
+                            {isSectionDown
+                              ? `${CATEGORY_LABELS[entry.category]} is temporarily unavailable`
+                              : `No longer on our ${CATEGORY_LABELS[entry.category]} menu`}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label={`Remove ${entry.title} from favourites`}
+                            onClick={() => removeFavourite(entry.id)}
+                          >
+                            Remove
+                          </Button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              ) : null}
+              {!isLoadingResults && !isError && totalItems === 0 ? (
+                <div className="rounded-3xl border border-stone-200 bg-white p-12 text-center text-sm text-slate-600 shadow-lg shadow-brand-100/50">
+                  <p>
+                    {showFavourites && favouriteIds.length === 0
+                      ? 'No favourites yet. Tap the star on any dish to save it here.'
+                      : 'No dishes match your filters.'}
+                  </p>
+                  <Button
+                    className="mt-4"
+                    variant="secondary"
+                    onClick={() =>
+                      updateParams({
+                        category: undefined,
+                        favourites: false,
+                        search: '',
+                        sort: undefined,
+                        origin: undefined,
+                        dietary: [],
+                        excludedAllergens: [],
+                        tags: [],
+                        priceBands: [],
+                        minPrice: undefined,
+                        maxPrice: undefined,
+                        includeUnpriced: true,
+                        page: 1
+                      })
+                    }
+                  >
+                    Reset filters
+                  </Button>
+                </div>
+              ) : null}
+              <div className="flex justify-end">
+                <div
+                  role="group"
+                  aria-label="Menu layout"
+                  className="inline-flex gap-1 rounded-2xl border border-stone-200 bg-white p-1"
+                >
+                  {MENU_VIEWS.map((menuView) => (
+                    <Button
+                      key={menuView}
+                      variant={view === menuView ? 'secondary' : 'ghost'}
+                      size="sm"
+                      aria-pressed={view === menuView}
+                      onClick={() => updateParams({ view: menuView })}
+                    >
+                      {MENU_VIEW_LABELS[menuView]}
+                    </Button>
+                  ))}
+                </div>
               </div>
-            ) : null}
+              <MenuGrid
+                items={visibleItems}
+                isLoading={isLoadingResults}
+                highlights={highlights}
+                view={view}
+                initialIndex={(currentPage - 1) * ITEMS_PER_PAGE}
+                onTopIndexChange={handleTopIndexChange}
+                onEndReached={loadNextPage}
+              />
+              {view === 'paged' && totalPages > 1 ? (
+                <div className="flex items-center justify-between gap-4">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={currentPage === 1}
+                    onClick={() => updateParams({ page: currentPage - 1 })}
+                  >
+                    Previous
+                  </Button>
+                  <div className="flex items-center gap-3 text-sm text-slate-600">
+                    <span>Page</span>
+                    <Badge color="neutral">{currentPage}</Badge>
+                    <span className="text-slate-400">of</span>
+                    <span>{totalPages}</span>
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={currentPage === totalPages}
+                    onClick={() => updateParams({ page: currentPage + 1 })}
+                  >
+                    Next
+                  </Button>
+                </div>
+              ) : null}
+              {/* Continuous view also offers a button for when scrolling can't trigger a load */}
+              {view === 'continuous' && !isLoadingResults && totalItems > 0 ? (
+                <div className="flex flex-col items-center gap-3 text-sm text-slate-600">
+                  <p aria-live="polite">
+                    Showing {visibleItems.length} of {totalItems} dishes
+                  </p>
+                  {hasNextPage ? (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={isFetchingNextPage}
+                      onClick={loadNextPage}
+                    >
+                      {isFetchingNextPage ? 'Loading…' : 'Show more dishes'}
+                    </Button>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
           </div>
-        ) : null}
-      </Modal>
+          {/* Dev builds only: category status and validation rejections */}
+          {import.meta.env.DEV && data ? <MenuDiagnostics result={data} /> : null}
+        </Container>
+      </section>
+      {/* Dish details at /menu/:itemId open over the list (see MenuItemPage) */}
+      <Suspense fallback={null}>
+        <Outlet context={menuItemContext} />
+      </Suspense>
     </>
   );
 };
@@ -0,0 +1,389 @@
+/**
+ * ReservePage Component
+ *
+ * Table bookings at /reserve: pick a location, date, party size and one of
+ * the seating times generated from that location's hours, then leave a name
+ * and contact details.
+ *
+ * Architecture:
+ * - URL-driven choices (location, date, party in query params) so the
+ *   Locations page can link straight to a location and a reload keeps them
+ * - React Query for availability (keyed on location/date/party) and a
+ *   mutation for booking, both through ReservationService
+ * - ReservationRequestSchema (zod) checks the form before submitting; the
+ *   service validates again and its errors land on the same fields
+ *
+ * URL State Examples:
+ * - /reserve → First location, today, party of 2
+ * - /reserve?location=yaletown&date=2024-07-05&party=4 → Yaletown, July 5th, four guests
+ */
+
+import { useId, useState } from 'react';
+import type { FormEvent, ReactNode } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import clsx from 'clsx';
+import Container from '../../components/layout/Container';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Skeleton from '../../components/ui/Skeleton';
+import {
+  LOCATIONS,
+  MAX_PARTY_SIZE,
+  MIN_PARTY_SIZE,
+  RESERVATION_BOOKING_WINDOW_DAYS
+} from '../../lib/constants';
+import { addDays, getHoursOverride, getZonedDateTime } from '../../lib/hours';
+import {
+  formatReservationDate,
+  formatSeatingTime,
+  getReservationFieldErrors,
+  ReservationRequestSchema
+} from '../../lib/reservations';
+import type { ReservationFieldErrors } from '../../lib/reservations';
+import type { Reservation, ReservationRequest } from '../../lib/types';
+import {
+  reservationService,
+  ReservationValidationError,
+  SlotUnavailableError
+} from '../../services/reservation.service';
+
+const PARTY_SIZES = Array.from(
+  { length: MAX_PARTY_SIZE - MIN_PARTY_SIZE + 1 },
+  (_, index) => MIN_PARTY_SIZE + index
+);
+
+interface FieldProps {
+  id: string;
+  label: string;
+  error?: string;
+  hint?: string;
+  children: ReactNode;
+}
+
+// Label, control and error message; controls reference `${id}-error` themselves
+const Field = ({ id, label, error, hint, children }: FieldProps) => (
+  <div className="space-y-2">
+    <label htmlFor={id} className="block text-sm font-medium text-slate-700">
+      {label}
+      {hint ? <span className="ml-2 text-xs font-normal text-slate-500">{hint}</span> : null}
+    </label>
+    {children}
+    {error ? (
+      <p id={`${id}-error`} className="text-xs text-red-700">
+        {error}
+      </p>
+    ) : null}
+  </div>
+);
+
+const ReservePage = () => {
+  const fieldId = useId();
+  const queryClient = useQueryClient();
+
+  // ===== FORM STATE =====
+  const [time, setTime] = useState('');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<ReservationFieldErrors>({});
+  const [confirmed, setConfirmed] = useState<Reservation | null>(null);
+
+  // ===== URL STATE =====
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Dates are Vancouver dates, so "today" is the restaurant's today
+  const today = getZonedDateTime(new Date()).date;
+  const lastBookableDate = addDays(today, RESERVATION_BOOKING_WINDOW_DAYS);
+
+  const locationParam = searchParams.get('location');
+  const dateParam = searchParams.get('date');
+  const partyParam = Number(searchParams.get('party'));
+
+  // Unknown or out-of-range values fall back to the defaults
+  const location =
+    LOCATIONS.find((candidate) => candidate.id === locationParam) ?? LOCATIONS[0];
+  const isBookableDate =
+    dateParam !== null &&
+    /^\d{4}-\d{2}-\d{2}$/.test(dateParam) &&
+    dateParam >= today &&
+    dateParam <= lastBookableDate;
+  const date = isBookableDate ? dateParam : today;
+  const partySize = PARTY_SIZES.includes(partyParam) ? partyParam : 2;
+  const specialHours = getHoursOverride(location, date);
+
+  const updateParams = (updates: { location?: string; date?: string; party?: number }) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => params.set(key, String(value)));
+    setSearchParams(params, { replace: true });
+    // Seating times depend on all three, so pick again
+    setTime('');
+  };
+
+  // ===== AVAILABILITY =====
+  const availability = useQuery({
+    queryKey: ['reservation-slots', location.id, date, partySize],
+    queryFn: ({ signal }) =>
+      reservationService.getAvailability({ locationId: location.id, date, partySize }, { signal })
+  });
+  const slots = availability.data ?? [];
+
+  // ===== BOOKING =====
+  const booking = useMutation({
+    mutationFn: (request: ReservationRequest) => reservationService.book(request),
+    onSuccess: (reservation) => {
+      setConfirmed(reservation);
+      void queryClient.invalidateQueries({ queryKey: ['reservation-slots'] });
+    },
+    onError: (error) => {
+      if (error instanceof ReservationValidationError) {
+        setFieldErrors(getReservationFieldErrors(error.issues));
+      } else if (error instanceof SlotUnavailableError) {
+        setTime('');
+        setFieldErrors({
+          time: `The ${formatSeatingTime(error.time)} seating just filled up. Please choose another time.`
+        });
+        void queryClient.invalidateQueries({ queryKey: ['reservation-slots'] });
+      }
+    }
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    // Blank optional fields are left out rather than validated as empty
+    const request: ReservationRequest = {
+      locationId: location.id,
+      date,
+      time,
+      partySize,
+      name,
+      email,
+      phone: phone.trim() || undefined,
+      notes: notes.trim() || undefined
+    };
+    const parsed = ReservationRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      setFieldErrors(getReservationFieldErrors(parsed.error.issues));
+      return;
+    }
+
+    setFieldErrors({});
+    booking.mutate(parsed.data);
+  };
+
+  const handleStartOver = () => {
+    setConfirmed(null);
+    setTime('');
+    setNotes('');
+    booking.reset();
+  };
+
+  // Wires a control to its Field error message
+  const describedBy = (field: keyof ReservationRequest) => ({
+    'aria-invalid': fieldErrors[field] ? true : undefined,
+    'aria-describedby': fieldErrors[field] ? `${fieldId}-${field}-error` : undefined
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>Cascade &amp; Coast Kitchen | Reserve a Table</title>
+        <meta
+          name="description"
+          content="Book a table at any Cascade & Coast Kitchen location in Downtown Vancouver. Pick a room, date, party size and seating time."
+        />
+      </Helmet>
+      <section className="py-20">
+        <Container className="max-w-3xl space-y-10">
+          <header className="space-y-4 text-center">
+            <p className="text-xs uppercase tracking-[0.4em] text-brand-600">Reservations</p>
+            <h1 className="font-display text-4xl font-semibold text-slate-900">Reserve a table</h1>
+            <p className="mx-auto max-w-2xl text-sm text-slate-600">
+              Book up to {RESERVATION_BOOKING_WINDOW_DAYS} days ahead for parties of up to{' '}
+              {MAX_PARTY_SIZE}. Larger groups and private events, please call the location directly.
+            </p>
+          </header>
+          {confirmed ? (
+            <div
+              role="status"
+              className="space-y-4 rounded-[28px] border border-brand-200 bg-brand-50 p-8 text-center text-sm text-brand-700"
+            >
+              <h2 className="font-display text-2xl font-semibold text-slate-900">
+                You're booked, {confirmed.name}
+              </h2>
+              <p>
+                Party of {confirmed.partySize} at{' '}
+                {LOCATIONS.find((candidate) => candidate.id === confirmed.locationId)?.name} on{' '}
+                {formatReservationDate(confirmed.date)} at {formatSeatingTime(confirmed.time)}.
+              </p>
+              <p>
+                Your reference is <strong className="font-semibold">{confirmed.id}</strong>. A
+                confirmation is on its way to {confirmed.email}.
+              </p>
+              <Button variant="secondary" onClick={handleStartOver}>
+                Make another reservation
+              </Button>
+            </div>
+          ) : (
+            <form
+              noValidate
+              onSubmit={handleSubmit}
+              className="space-y-8 rounded-[28px] border border-stone-200 bg-white p-8 shadow-lg shadow-brand-100/50"
+            >
+              <div className="grid gap-6 sm:grid-cols-3">
+                <Field id={`${fieldId}-locationId`} label="Location" error={fieldErrors.locationId}>
+                  <Select
+                    id={`${fieldId}-locationId`}
+                    value={location.id}
+                    onChange={(event) => updateParams({ location: event.target.value })}
+                    {...describedBy('locationId')}
+                  >
+                    {LOCATIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.name}
+                      </option>
+                    ))}
+                  </Select>
+                </Field>
+                <Field id={`${fieldId}-date`} label="Date" error={fieldErrors.date}>
+                  <Input
+                    id={`${fieldId}-date`}
+                    type="date"
+                    value={date}
+                    min={today}
+                    max={lastBookableDate}
+                    onChange={(event) => {
+                      if (event.target.value) {
+                        updateParams({ date: event.target.value });
+                      }
+                    }}
+                    {...describedBy('date')}
+                  />
+                </Field>
+                <Field id={`${fieldId}-partySize`} label="Party size" error={fieldErrors.partySize}>
+                  <Select
+                    id={`${fieldId}-partySize`}
+                    value={partySize}
+                    onChange={(event) => updateParams({ party: Number(event.target.value) })}
+                    {...describedBy('partySize')}
+                  >
+                    {PARTY_SIZES.map((size) => (
+                      <option key={size} value={size}>
+                        {size === 1 ? '1 guest' : `${size} guests`}
+                      </option>
+                    ))}
+                  </Select>
+                </Field>
+              </div>
+              <fieldset className="space-y-3" {...describedBy('time')}>
+                <legend className="text-sm font-medium text-slate-700">Time</legend>
+                {specialHours ? (
+                  <p className="text-sm font-medium text-amber-700">
+                    {specialHours.closed
+                      ? `${location.name} is closed ${formatReservationDate(date)}`
+                      : `Special hours ${formatReservationDate(date)}: ${specialHours.hours}`}
+                    {specialHours.note ? ` (${specialHours.note})` : null}
+                  </p>
+                ) : null}
+                {availability.isPending ? (
+                  <Skeleton className="h-20 w-full" />
+                ) : slots.length === 0 ? (
+                  <p className="text-sm text-slate-600">
+                    {date === today
+                      ? `No seatings left today at ${location.name}. Try another day.`
+                      : `${location.name} isn't taking reservations that day. Try another day.`}
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {slots.map((slot) => (
+                      <button
+                        key={slot.time}
+                        type="button"
+                        aria-pressed={time === slot.time}
+                        disabled={!slot.available}
+                        onClick={() => setTime(slot.time)}
+                        className={clsx(
+                          'focus-ring rounded-2xl border px-3 py-1.5 text-sm font-medium transition disabled:cursor-not-allowed disabled:line-through disabled:opacity-50',
+                          time === slot.time
+                            ? 'border-brand-300 bg-brand-100 text-brand-700 shadow-sm'
+                            : 'border-stone-200 bg-white text-slate-600 hover:border-brand-200 hover:bg-brand-50/60'
+                        )}
+                      >
+                        {formatSeatingTime(slot.time)}
+                        {slot.available ? null : <span className="sr-only"> (fully booked)</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {fieldErrors.time ? (
+                  <p id={`${fieldId}-time-error`} className="text-xs text-red-700">
+                    {fieldErrors.time}
+                  </p>
+                ) : null}
+              </fieldset>
+              <div className="grid gap-6 sm:grid-cols-2">
+                <Field id={`${fieldId}-name`} label="Name" error={fieldErrors.name}>
+                  <Input
+                    id={`${fieldId}-name`}
+                    autoComplete="name"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    {...describedBy('name')}
+                  />
+                </Field>
+                <Field id={`${fieldId}-email`} label="Email" error={fieldErrors.email}>
+                  <Input
+                    id={`${fieldId}-email`}
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(event) => setEmail(event.target.value)}
+                    {...describedBy('email')}
+                  />
+                </Field>
+                <Field id={`${fieldId}-phone`} label="Phone" hint="Optional" error={fieldErrors.phone}>
+                  <Input
+                    id={`${fieldId}-phone`}
+                    type="tel"
+                    autoComplete="tel"
+                    value={phone}
+                    onChange={(event) => setPhone(event.target.value)}
+                    {...describedBy('phone')}
+                  />
+                </Field>
+                <Field id={`${fieldId}-notes`} label="Notes" hint="Optional" error={fieldErrors.notes}>
+                  <textarea
+                    id={`${fieldId}-notes`}
+                    rows={2}
+                    placeholder="Allergies, celebrations, seating requests"
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    className="focus-ring w-full rounded-2xl border border-stone-300 bg-white px-4 py-2 text-sm text-slate-700 placeholder:text-stone-400"
+                    {...describedBy('notes')}
+                  />
+                </Field>
+              </div>
+              {booking.isError &&
+              !(booking.error instanceof ReservationValidationError) &&
+              !(booking.error instanceof SlotUnavailableError) ? (
+                <p role="alert" className="text-sm text-red-700">
+                  We couldn't complete your booking. Please try again or call {location.phone}.
+                </p>
+              ) : null}
+              <div className="flex justify-end">
+                <Button type="submit" size="lg" disabled={booking.isPending}>
+                  {booking.isPending ? 'Booking…' : 'Book table'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </Container>
+      </section>
+    </>
+  );
+};
+
+export default ReservePage;
@@ -0,0 +1,112 @@
+/**
+ * Menu Composition
+ *
+ * Combines loaded menu data with our curated FALLBACK_MENU_ITEMS according
+ * to MENU_COMPOSITION, and stamps every item with provenance so the UI can
+ * tell signature dishes from loaded ones and stand-ins from the real thing.
+ *
+ * Per-category strategies:
+ * - 'remote': loaded items; if the category failed (or nothing at all
+ *   loaded) curated dishes stand in, marked role: 'substitute'
+ * - 'curated': curated dishes only (e.g., cocktails)
+ * - 'merge': curated dishes first, then loaded items not already present
+ *
+ * Stand-ins are only used once loading has settled, so the grid doesn't
+ * flash the curated menu while the first request is in flight.
+ */
+
+import { MENU_CATEGORIES, MENU_COMPOSITION } from '../lib/constants';
+import { FALLBACK_MENU_ITEMS } from '../lib/fallback-menu';
+import type {
+  Category,
+  MenuCompositionStrategy,
+  MenuItem,
+  MenuItemProvenance,
+  MenuLoadResult
+} from '../lib/types';
+import { dedupeMenuItems } from '../lib/utils';
+
+export interface ComposeMenuOptions {
+  // Allow curated stand-ins for missing data (false while the first load is pending)
+  substituteMissing: boolean;
+
+  // Per-category strategies, defaults to MENU_COMPOSITION
+  strategies?: Record<Category, MenuCompositionStrategy>;
+
+  // Curated dishes, defaults to FALLBACK_MENU_ITEMS
+  curated?: MenuItem[];
+}
+
+function withProvenance(items: MenuItem[], provenance: MenuItemProvenance): MenuItem[] {
+  return items.map((item) => ({ ...item, provenance }));
+}
+
+/**
+ * Build the displayed menu from a load result
+ *
+ * Examples (default strategies):
+ * - Still loading (no result) → curated cocktails only
+ * - Load failed entirely → every curated dish, non-cocktails as substitutes
+ * - Burgers ok, sandwiches failed → loaded burgers, curated sandwiches
+ *   (substitute), curated cocktails
+ *
+ * Items are grouped in MENU_CATEGORIES order.
+ */
+export function composeMenu(
+  result: MenuLoadResult | undefined,
+  {
+    substituteMissing,
+    strategies = MENU_COMPOSITION,
+    curated = FALLBACK_MENU_ITEMS
+  }: ComposeMenuOptions
+): MenuItem[] {
+  const loadedItems = result?.items ?? [];
+  const nothingLoaded = loadedItems.length === 0;
+
+  return MENU_CATEGORIES.flatMap((category) => {
+    const curatedItems = curated.filter((item) => item.category === category);
+    const curatedPrimary = withProvenance(curatedItems, { source: 'curated', role: 'primary' });
+    const loaded = withProvenance(
+      loadedItems.filter((item) => item.category === category),
+      { source: result?.categories[category]?.source ?? 'remote', role: 'primary' }
+    );
+
+    switch (strategies[category]) {
+      case 'curated':
+        return curatedPrimary;
+      case 'merge':
+        return dedupeMenuItems([...curatedPrimary, ...loaded]);
+      case 'remote':
+      default: {
+        const failed = result?.categories[category]?.state === 'failed';
+        if (substituteMissing && loaded.length === 0 && (failed || nothingLoaded)) {
+          return withProvenance(curatedItems, { source: 'curated', role: 'substitute' });
+        }
+
+        return loaded;
+      }
+    }
+  });
+}
+
+/**
+ * Whether any displayed dish is a curated stand-in for missing data
+ *
+ * Drives the "showcasing our signature dishes" banner on MenuPage.
+ */
+export function hasSubstitutes(items: MenuItem[]): boolean {
+  return items.some((item) => item.provenance?.role === 'substitute');
+}
+
+/**
+ * Whether a category's loaded data reaches the guest at all
+ *
+ * Load problems in 'curated' categories don't affect the menu, so MenuPage
+ * doesn't flag them as degraded.
+ */
+export function usesLoadedData(
+  category: Category,
+  strategies: Record<Category, MenuCompositionStrategy> = MENU_COMPOSITION
+): boolean {
+  return strategies[category] !== 'curated';
+}
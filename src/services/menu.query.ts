@@ -0,0 +1,161 @@
+/**
+ * Menu Query Service
+ *
+ * The contract MenuPage uses to ask for "this slice of the menu": filters,
+ * sort, cursor and limit in; one page of items, the next cursor, the total
+ * and the facet counts out. The dish route (/menu/:itemId) looks single
+ * dishes up through the same service.
+ *
+ * Today the only implementation is local: it runs the search index, filters,
+ * facets and sort in-process over the composed menu. A backend can implement
+ * the same interface over HTTP later without MenuPage changing; results are
+ * plain data (no Maps or Sets) so they survive JSON.
+ *
+ * Example:
+ * const service = createLocalMenuQueryService(items);
+ * const first = await service.query({ filters: { category: 'burgers' }, limit: 9 });
+ * const second = await service.query({ filters: { category: 'burgers' }, limit: 9, cursor: first.nextCursor });
+ */
+
+import { computeMenuFacets, type MenuFacets } from '../lib/facets';
+import { parseMenuQuery } from '../lib/query';
+import { createSearchIndex } from '../lib/search';
+import type { MenuFilters, MenuItem, MenuSort } from '../lib/types';
+import { filterMenuItems, sortMenuItems } from '../lib/utils';
+
+export interface MenuQuery {
+  // Control, facet and search-box filters; `search` may carry filter tokens
+  // (tag:vegetarian price:<20) as well as free text (see lib/query.ts)
+  filters: Omit<MenuFilters, 'sort' | 'page'>;
+  // Defaults to relevance while searching, otherwise menu order
+  sort?: MenuSort[];
+  // Opaque; pass back nextCursor from the previous page
+  cursor?: string;
+  limit: number;
+}
+
+export interface MenuQueryResult {
+  items: MenuItem[];
+  // Absent on the last page
+  nextCursor?: string;
+  // Matches across all pages
+  total: number;
+  // Counts for the whole result set, not just this page
+  facets: MenuFacets;
+  // Matched search words per item id on this page, for highlighting
+  highlights: Record<string, string[]>;
+}
+
+export interface MenuQueryService {
+  query: (query: MenuQuery, options?: { signal?: AbortSignal }) => Promise<MenuQueryResult>;
+  // null when the dish isn't on the menu (removed, or a stale link)
+  getItem: (id: string, options?: { signal?: AbortSignal }) => Promise<MenuItem | null>;
+}
+
+const CURSOR_PREFIX = 'offset:';
+
+function encodeCursor(offset: number): string {
+  return btoa(`${CURSOR_PREFIX}${offset}`);
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (cursor === undefined) {
+    return 0;
+  }
+
+  let decoded = '';
+  try {
+    decoded = atob(cursor);
+  } catch {
+    // Fall through to the error below
+  }
+
+  const offset = decoded.startsWith(CURSOR_PREFIX) ? Number(decoded.slice(CURSOR_PREFIX.length)) : NaN;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid menu cursor "${cursor}"`);
+  }
+  return offset;
+}
+
+/**
+ * Answer menu queries in-process over a snapshot of the menu
+ *
+ * The search index is built once per snapshot; MenuPage creates a new
+ * service whenever the loaded menu changes.
+ */
+export function createLocalMenuQueryService(menu: MenuItem[]): MenuQueryService {
+  const searchIndex = createSearchIndex(menu);
+
+  const query = async (
+    { filters, sort, cursor, limit }: MenuQuery,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<MenuQueryResult> => {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    const {
+      search = '',
+      category,
+      ids,
+      dietary,
+      tags,
+      priceBands,
+      minPrice,
+      maxPrice,
+      includeUnpriced,
+      ...rest
+    } = filters;
+    const parsed = parseMenuQuery(search);
+    const hits = parsed.text ? searchIndex.search(parsed.text) : undefined;
+
+    // Everything but the facets; the facet engine counts against this set
+    const searched = filterMenuItems(filterMenuItems(menu, rest), parsed.filters).filter(
+      (item) => !hits || hits.has(item.id)
+    );
+    const selection = {
+      category,
+      ids,
+      dietary,
+      tags,
+      priceBands,
+      minPrice,
+      maxPrice,
+      includeUnpriced
+    };
+    const matches = sortMenuItems(
+      filterMenuItems(searched, selection),
+      sort ?? (hits ? ['relevance'] : undefined),
+      hits
+    );
+
+    const offset = decodeCursor(cursor);
+    const items = matches.slice(offset, offset + limit);
+    const nextOffset = offset + items.length;
+
+    return {
+      items,
+      nextCursor: nextOffset < matches.length ? encodeCursor(nextOffset) : undefined,
+      total: matches.length,
+      facets: computeMenuFacets(searched, selection, menu),
+      highlights: Object.fromEntries(
+        items.flatMap((item) => {
+          const hit = hits?.get(item.id);
+          return hit ? [[item.id, [...hit.terms]]] : [];
+        })
+      )
+    };
+  };
+
+  const getItem = async (
+    id: string,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<MenuItem | null> => {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    return menu.find((item) => item.id === id) ?? null;
+  };
+
+  return { query, getItem };
+}
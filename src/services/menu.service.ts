@@ -1,330 +1,214 @@
 /**
  * Menu Service
  *
- * Handles fetching menu data from external API, normalizing it to our format,
- * and managing category-based filtering.
+ * Public entry point for menu data. Delegates the actual loading to the
+ * active MenuSource (see sources/menu.source.ts) and aggregates categories.
  *
  * Data Flow:
- * 1. Fetch raw data from API endpoints (burgers, drinks, steaks, etc.)
- * 2. Validate with Zod schema
- * 3. Normalize to MenuItem format (clean prices, validate images, etc.)
- * 4. Filter by category keywords (e.g., "old fashioned" → cocktails)
- * 5. Deduplicate items
- * 6. Sort by price and name
- * 7. Limit to MAX_ITEMS_PER_CATEGORY (9 per category)
+ * 1. Resolve the configured source (remote API, static JSON, or fallback)
+ * 2. Ask the source for each category in MENU_CATEGORIES, sharing one
+ *    payload cache so endpoints used by several categories load once
+ * 3. Record a load status per category (ok / partial / failed)
+ * 4. Collect items rejected by item-level validation
+ * 5. Deduplicate items across categories
  *
  * Error Handling:
- * - Individual category failures are logged but don't stop other categories
- * - Only throws error if ALL categories fail
+ * - Individual category failures are recorded in the result envelope
+ *   instead of being swallowed, so the UI can flag degraded tabs
+ * - Only throws error if ALL requested categories fail
  * - Graceful degradation (some data is better than no data)
  */
 
-import { z } from 'zod';
+import { createLimiter } from '../lib/concurrency';
 import {
-  API_BASE_URL,
-  CATEGORY_ENDPOINTS,
-  CATEGORY_KEYWORDS,
-  MAX_ITEMS_PER_CATEGORY,
-  MENU_CATEGORIES
+  MENU_CATEGORIES,
+  MENU_FETCH_CONCURRENCY,
+  MENU_REQUEST_TIMEOUT_MS,
+  MENU_RETRY_POLICY
 } from '../lib/constants';
-import { httpGet } from '../lib/http';
-import type { Category, MenuItem } from '../lib/types';
+import type { Category, CategoryLoadStatus, MenuLoadResult } from '../lib/types';
+import { dedupeMenuItems, describeRequestError } from '../lib/utils';
+import { createRequestPayloadCache } from './payload.cache';
+import { getMenuSource, type MenuFetchContext } from './sources/menu.source';
 
 /**
- * Zod Schema for Raw API Response
+ * Build the per-call context shared by every category in one fetch
  *
- * The external API returns inconsistent data formats:
- * - IDs can be strings or numbers
- * - Prices can be "$24.50" or 24.5
- * - Some fields are optional
- *
- * This schema validates and normalizes the data before processing.
- */
-const RawMenuItemSchema = z
-  .object({
-    id: z.union([z.string(), z.number()]),
-    name: z.string().optional(),
-    dsc: z.string().optional(),
-    price: z.union([z.string(), z.number()]).optional(),
-    img: z.string().optional(),
-    rate: z.union([z.string(), z.number()]).optional(),
-    country: z.string().optional()
-  })
-  .passthrough();
-
-type RawMenuItem = z.infer<typeof RawMenuItemSchema>;
-
-const PRICE_SANITIZE_REGEX = /[^0-9.]/g;
-const FALLBACK_DESCRIPTION = 'Chef-crafted for Cascade & Coast Kitchen guests.';
-
-/**
- * Check if item title matches category keywords
- *
- * Example: "Maple Old Fashioned" contains "old fashioned" → matches cocktails
- *
- * This allows items from generic endpoints (like /drinks) to be categorized
- * into either cocktails or beverages based on keywords.
- */
-function matchesCategory(title: string, category: Category): boolean {
-  const keywords = CATEGORY_KEYWORDS[category];
-  if (!keywords || keywords.length === 0) {
-    return true;
-  }
-
-  const haystack = title.toLowerCase();
-  return keywords.some((keyword) => haystack.includes(keyword));
-}
-
-/**
- * Parse price from various formats
- *
- * Handles:
- * - Numbers: 24.5 → 24.5
- * - Strings with $: "$24.50" → 24.5
- * - Invalid values: "N/A" → null
- */
-function parsePrice(value: RawMenuItem['price']): number | null {
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : null;
-  }
-
-  if (typeof value === 'string') {
-    const sanitized = value.replace(PRICE_SANITIZE_REGEX, '');
-    const parsed = Number.parseFloat(sanitized);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-
-  return null;
-}
-
-/**
- * Validate image URL
- *
- * Only accept http/https URLs, reject relative paths or invalid URLs
+ * - payloads: lets /bbqs and /drinks be downloaded once per call
+ * - limit: at most MENU_FETCH_CONCURRENCY requests in flight
+ * - signal: React Query's AbortSignal, cancels in-flight requests on unmount
  */
-function isValidImage(url?: string): boolean {
-  return Boolean(url && /^https?:\/\//.test(url));
+function createFetchContext(signal?: AbortSignal): MenuFetchContext {
+  return {
+    payloads: createRequestPayloadCache(),
+    limit: createLimiter(MENU_FETCH_CONCURRENCY),
+    signal,
+    timeoutMs: MENU_REQUEST_TIMEOUT_MS,
+    retry: MENU_RETRY_POLICY,
+    rejections: new Map()
+  };
 }
 
 /**
- * Build user-friendly description from raw API data
+ * Main export: Fetch menu items
  *
- * Examples:
- * - dish="Smoky Burger", venue="Harbor Grill" → "Smoky Burger from Harbor Grill."
- * - dish="Harbor Grill", venue="Harbor Grill" → "Featured by Harbor Grill."
- * - No data → "Chef-crafted for Cascade & Coast Kitchen guests."
- */
-function buildDescription(raw: RawMenuItem): string {
-  const dish = raw.dsc?.trim();
-  const venue = raw.name?.trim();
-
-  if (dish && venue && !venue.toLowerCase().includes(dish.toLowerCase())) {
-    return `${dish} from ${venue}.`;
-  }
-
-  if (venue) {
-    return `Featured by ${venue}.`;
-  }
-
-  return FALLBACK_DESCRIPTION;
-}
-
-/**
- * Normalize raw API item to MenuItem format
+ * Supports three modes:
+ * 1. fetchMenuItems() or fetchMenuItems('all') → Fetch all categories
+ * 2. fetchMenuItems('burgers') → Fetch only burgers
+ * 3. fetchMenuItems({ queryKey: [...], signal }) → React Query compatibility
  *
- * Returns null if:
- * - No title available
- * - Title doesn't match category keywords
+ * Resolves with a MenuLoadResult: the items plus a status per category.
  *
- * This filters out irrelevant items (e.g., "Coffee" from /drinks when fetching cocktails)
- */
-function normalizeMenuItem(raw: RawMenuItem, category: Category): MenuItem | null {
-  const title = raw.dsc?.trim() ?? raw.name?.trim();
-
-  if (!title || !matchesCategory(title, category)) {
-    return null;
-  }
-
-  return {
-    id: String(raw.id),
-    title,
-    description: buildDescription(raw),
-    price: parsePrice(raw.price),
-    imageUrl: isValidImage(raw.img) ? raw.img : undefined,
-    category
-  };
-}
-
-/**
- * Fetch and normalize items from a single API endpoint
+ * When called by React Query, its AbortSignal is forwarded to every request
+ * so leaving /menu cancels whatever is still in flight.
  *
- * Example: fetchEndpointMenuItems('/burgers', 'burgers')
- * - GET https://free-food-menus-api-two.vercel.app/burgers
- * - Validate with Zod schema
- * - Normalize each item
- * - Deduplicate by ID
+ * Used by React Query in MenuPage.tsx
  */
-async function fetchEndpointMenuItems(endpoint: string, category: Category): Promise<MenuItem[]> {
-  const payload = await httpGet<unknown>(`${API_BASE_URL}${endpoint}`);
-  const parsed = z.array(RawMenuItemSchema).safeParse(payload);
-
-  if (!parsed.success) {
-    throw new Error(`Failed to validate menu response for ${category}`);
+export async function fetchMenuItems(
+  categoryOrContext?: Category | 'all' | { queryKey: unknown; signal?: AbortSignal }
+): Promise<MenuLoadResult> {
+  if (categoryOrContext === 'all') {
+    return fetchAllMenuItems();
   }
 
-  const normalized: MenuItem[] = [];
-  const seen = new Set<string>();
-
-  for (const item of parsed.data) {
-    const normalizedItem = normalizeMenuItem(item, category);
-    if (!normalizedItem || seen.has(normalizedItem.id)) {
-      continue;
-    }
-
-    seen.add(normalizedItem.id);
-    normalized.push(normalizedItem);
+  if (typeof categoryOrContext === 'string') {
+    return fetchCategoryMenuItems(categoryOrContext);
   }
 
-  return normalized;
+  return fetchAllMenuItems(categoryOrContext?.signal);
 }
 
 /**
- * Remove duplicate items by ID
+ * Fetch a set of categories and report how each one loaded
  *
- * Some items appear in multiple endpoints (e.g., BBQ in both sandwiches and sides)
- * Keep only first occurrence
- */
-function dedupe(items: MenuItem[]): MenuItem[] {
-  const existing = new Set<string>();
-  const unique: MenuItem[] = [];
-
-  for (const item of items) {
-    if (existing.has(item.id)) {
-      continue;
-    }
-
-    existing.add(item.id);
-    unique.push(item);
-  }
-
-  return unique;
-}
-
-/**
- * Fetch all items for a specific category
+ * Examples:
+ * - Every endpoint answered → { state: 'ok', itemCount: 9 }
+ * - /bbqs timed out, /sandwiches answered → { state: 'partial', failedEndpoints: ['/bbqs'] }
+ * - /drinks returned 503 → { state: 'failed', reason: 'the kitchen is having trouble...' }
  *
- * Some categories fetch from multiple endpoints:
- * - sandwiches: ['/sandwiches', '/bbqs']
- * - desserts: ['/desserts', '/chocolates', '/ice-cream']
+ * Error handling (Graceful degradation):
+ * - If burgers fail → Still shows other categories, burgers marked 'failed'
+ * - Only throws if ALL requested categories fail; the last error is
+ *   rethrown so the UI and React Query's retry can tell a timeout from a 404
  *
- * Error handling:
- * - Individual endpoint failures are logged but don't stop other endpoints
- * - Only throws if ALL endpoints for the category fail
+ * Used directly by MenuPage to retry only the degraded categories.
  */
-async function fetchCategoryMenuItems(category: Category): Promise<MenuItem[]> {
-  const endpoints = CATEGORY_ENDPOINTS[category];
-
-  if (!endpoints || endpoints.length === 0) {
-    throw new Error(`Unsupported menu category: ${category}`);
-  }
-
-  const aggregated: MenuItem[] = [];
+export async function fetchMenuCategories(
+  categories: Category[],
+  signal?: AbortSignal
+): Promise<MenuLoadResult> {
+  const source = getMenuSource();
+  const context = createFetchContext(signal);
+  const statuses: MenuLoadResult['categories'] = {};
   let lastError: unknown;
 
-  // Fetch from all endpoints for this category
-  for (const endpoint of endpoints) {
-    try {
-      const items = await fetchEndpointMenuItems(endpoint, category);
-      aggregated.push(...items);
-    } catch (error) {
-      console.warn(`[menu] Failed to load ${endpoint} for ${category}:`, error);
-      lastError = error;
-    }
-  }
-
-  // Deduplicate items
-  const unique = dedupe(aggregated);
-
-  // Sort by price (ascending), then alphabetically
-  unique.sort((a, b) => {
-    const priceDelta = (a.price ?? Number.POSITIVE_INFINITY) - (b.price ?? Number.POSITIVE_INFINITY);
-    if (priceDelta !== 0 && Number.isFinite(priceDelta)) {
-      return priceDelta;
-    }
-    return a.title.localeCompare(b.title);
-  });
-
-  // Limit to MAX_ITEMS_PER_CATEGORY to avoid overwhelming UI
-  const limited = unique.slice(0, MAX_ITEMS_PER_CATEGORY);
+  const results = await Promise.all(
+    categories.map(async (category) => {
+      try {
+        const { items, failures } = await source.fetchCategory(category, context);
+        const status: CategoryLoadStatus = {
+          state: failures.length > 0 ? 'partial' : 'ok',
+          source: source.id,
+          itemCount: items.length
+        };
+
+        if (failures.length > 0) {
+          status.reason = describeRequestError(failures[0].error);
+          status.failedEndpoints = failures.map((failure) => failure.endpoint);
+        }
+
+        statuses[category] = status;
+        return items;
+      } catch (error) {
+        // Cancellation is not a category failure; let React Query see the abort
+        signal?.throwIfAborted();
+        console.warn(`[menu] Category ${category} temporarily unavailable:`, error);
+        lastError = error;
+        statuses[category] = {
+          state: 'failed',
+          source: source.id,
+          itemCount: 0,
+          reason: describeRequestError(error)
+        };
+        return [];  // Return empty array, don't fail entire fetch
+      }
+    })
+  );
 
-  // Only throw error if we got zero items
-  if (limited.length === 0) {
+  // Only throw if every requested category failed outright
+  if (categories.every((category) => statuses[category]?.state === 'failed')) {
     if (lastError instanceof Error) {
       throw lastError;
     }
 
-    throw new Error(`Menu category ${category} is temporarily unavailable.`);
+    throw new Error('Menu data is temporarily unavailable.');
   }
 
-  return limited;
+  return {
+    items: dedupeMenuItems(results.flat()),
+    categories: statuses,
+    rejections: [...context.rejections.values()].flat()
+  };
 }
 
 /**
- * Main export: Fetch menu items
- *
- * Supports three modes:
- * 1. fetchMenuItems() or fetchMenuItems('all') → Fetch all categories
- * 2. fetchMenuItems('burgers') → Fetch only burgers
- * 3. fetchMenuItems({ queryKey: [...] }) → React Query compatibility
+ * Fetch a single category (see fetchMenuCategories)
  *
- * Used by React Query in MenuPage.tsx
+ * Example: fetchCategoryMenuItems('burgers')
+ * - remote source → GET /burgers, normalize, categorize
+ * - static source → read public/menu.json, keep burgers
  */
-export async function fetchMenuItems(
-  categoryOrContext?: Category | 'all' | { queryKey: unknown }
-): Promise<MenuItem[]> {
-  if (categoryOrContext === 'all') {
-    return fetchAllMenuItems();
-  }
-
-  if (typeof categoryOrContext === 'string') {
-    return fetchCategoryMenuItems(categoryOrContext);
-  }
-
-  return fetchAllMenuItems();
+async function fetchCategoryMenuItems(
+  category: Category,
+  signal?: AbortSignal
+): Promise<MenuLoadResult> {
+  return fetchMenuCategories([category], signal);
 }
 
 /**
  * Fetch all menu items across all categories
  *
- * Fetches all 7 categories in parallel with Promise.all:
+ * Fetches all 7 categories in parallel:
  * - burgers, sandwiches, sides, cocktails, beverages, desserts, mains
- *
- * Error handling (Graceful degradation):
- * - If burgers fail → Still shows other categories
- * - Only throws if ALL categories fail (zero items total)
+ * - Requests share one limiter, so only MENU_FETCH_CONCURRENCY run at once
  *
  * This ensures users always see some menu data even if API is partially down
  */
-async function fetchAllMenuItems(): Promise<MenuItem[]> {
-  const results = await Promise.all(
-    MENU_CATEGORIES.map(async (category) => {
-      try {
-        return await fetchCategoryMenuItems(category);
-      } catch (error) {
-        console.warn(`[menu] Category ${category} temporarily unavailable:`, error);
-        return [];  // Return empty array, don't fail entire fetch
-      }
-    })
-  );
-
-  const combined = dedupe(results.flat());
+async function fetchAllMenuItems(signal?: AbortSignal): Promise<MenuLoadResult> {
+  return fetchMenuCategories(MENU_CATEGORIES, signal);
+}
 
-  // Only throw if we got zero items from ALL categories
-  if (combined.length === 0) {
-    throw new Error('Menu data is temporarily unavailable.');
-  }
+/**
+ * Fold a retry of some categories back into an earlier result
+ *
+ * Items from the retried categories are replaced wholesale; everything else
+ * is kept. Items stay grouped in MENU_CATEGORIES order. Rejections from
+ * re-fetched endpoints replace the earlier report for those endpoints.
+ *
+ * Example:
+ * - previous: burgers ok, sides failed
+ * - next (retry of sides): sides ok
+ * → burgers from previous, sides from next, both statuses 'ok'
+ */
+export function mergeMenuLoadResults(
+  previous: MenuLoadResult,
+  next: MenuLoadResult
+): MenuLoadResult {
+  const retried = new Set(Object.keys(next.categories));
+  const kept = previous.items.filter((item) => !retried.has(item.category));
+  const order = (category: Category) => MENU_CATEGORIES.indexOf(category);
+  const refetchedEndpoints = new Set(next.rejections.map((rejection) => rejection.endpoint));
 
-  return combined;
+  return {
+    items: dedupeMenuItems([...kept, ...next.items]).sort(
+      (a, b) => order(a.category) - order(b.category)
+    ),
+    categories: { ...previous.categories, ...next.categories },
+    rejections: [
+      ...previous.rejections.filter((rejection) => !refetchedEndpoints.has(rejection.endpoint)),
+      ...next.rejections
+    ]
+  };
 }
 
 export { fetchAllMenuItems, fetchCategoryMenuItems };
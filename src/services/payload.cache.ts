@@ -0,0 +1,176 @@
+/**
+ * Payload Cache
+ *
+ * Memoizes endpoint payloads by key so several categories can share one
+ * download. CATEGORY_ENDPOINTS maps /bbqs to three categories and /drinks to
+ * two; without this they would be fetched and validated once per category.
+ *
+ * Two layers are used by menu.service.ts:
+ * - Session cache (module-level): keeps payloads for MENU_PAYLOAD_TTL_MS so
+ *   repeat fetchMenuItems calls within a session reuse them
+ * - Request cache (one per fetchAllMenuItems call): guarantees each endpoint
+ *   is loaded once per call even when the session TTL is 0
+ *
+ * In-flight promises are cached, so concurrent callers share one request.
+ * Rejected loads are evicted immediately so a retry actually hits the network.
+ *
+ * Cancellation: a shared load runs on its own signal, not the first caller's.
+ * A caller that aborts stops waiting (its promise rejects with its own abort
+ * reason) and leaves the others unaffected; the load itself is only aborted
+ * once every caller sharing it has aborted.
+ *
+ * Example:
+ * const cache = createPayloadCache(60_000);
+ * await cache.get('/drinks', (signal) => httpGet('/drinks', { signal }), { signal }); // network
+ * await cache.get('/drinks', (signal) => httpGet('/drinks', { signal }), { signal }); // cached
+ */
+
+import { MENU_PAYLOAD_TTL_MS } from '../lib/constants';
+
+export type PayloadLoader<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface PayloadCache {
+  // Return the cached value for key, or run load() and cache its result.
+  // load() gets a signal that aborts once every waiting caller has aborted.
+  get: <T>(
+    key: string,
+    load: PayloadLoader<T>,
+    options?: { signal?: AbortSignal }
+  ) => Promise<T>;
+
+  // Drop every entry (used by tests and manual refreshes)
+  clear: () => void;
+}
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number;
+  settled: boolean;
+  // Aborts the shared load
+  controller: AbortController;
+  // Callers still waiting on the load; an unsignalled caller never leaves
+  waiting: number;
+}
+
+// Never aborts; for callers that didn't pass a signal
+const NEVER_ABORTED = new AbortController().signal;
+
+/**
+ * Create a payload cache
+ *
+ * @param ttlMs - How long a resolved payload stays valid. 0 disables caching,
+ *   Infinity keeps entries until clear() (request-scoped caches).
+ * @param now - Clock override for tests
+ */
+export function createPayloadCache(ttlMs: number, now: () => number = Date.now): PayloadCache {
+  const entries = new Map<string, CacheEntry>();
+
+  const evict = (key: string, entry: CacheEntry) => {
+    if (entries.get(key) === entry) {
+      entries.delete(key);
+    }
+  };
+
+  // Wait for an entry on behalf of one caller, who may stop waiting early
+  const join = <T>(key: string, entry: CacheEntry, signal?: AbortSignal): Promise<T> => {
+    const promise = entry.promise as Promise<T>;
+    if (entry.settled) {
+      return promise;
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    entry.waiting += 1;
+    if (!signal) {
+      return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        entry.waiting -= 1;
+        // Nobody is left waiting: stop the load and let the next caller start over
+        if (entry.waiting === 0 && !entry.settled) {
+          evict(key, entry);
+          entry.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+
+  const get = <T>(
+    key: string,
+    load: PayloadLoader<T>,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<T> => {
+    const existing = entries.get(key);
+    if (existing && existing.expiresAt > now()) {
+      return join<T>(key, existing, signal);
+    }
+
+    if (ttlMs <= 0) {
+      entries.delete(key);
+      return load(signal ?? NEVER_ABORTED);
+    }
+
+    const controller = new AbortController();
+    const entry: CacheEntry = {
+      promise: load(controller.signal),
+      expiresAt: now() + ttlMs,
+      settled: false,
+      controller,
+      waiting: 0
+    };
+    entries.set(key, entry);
+
+    entry.promise.then(
+      () => {
+        entry.settled = true;
+      },
+      () => {
+        entry.settled = true;
+        // Evict failures so the next caller retries instead of replaying the error
+        evict(key, entry);
+      }
+    );
+
+    return join<T>(key, entry, signal);
+  };
+
+  return {
+    get,
+    clear: () => entries.clear()
+  };
+}
+
+// Module-level cache that outlives individual fetchMenuItems calls
+const sessionPayloadCache = createPayloadCache(MENU_PAYLOAD_TTL_MS);
+
+/**
+ * Create a request-scoped cache layered over the session cache
+ *
+ * Every category in one fetchAllMenuItems call shares the returned cache;
+ * misses fall through to the session cache before hitting the network.
+ */
+export function createRequestPayloadCache(): PayloadCache {
+  const requestCache = createPayloadCache(Number.POSITIVE_INFINITY);
+
+  return {
+    get: (key, load, options) =>
+      requestCache.get(key, (signal) => sessionPayloadCache.get(key, load, { signal }), options),
+    clear: () => requestCache.clear()
+  };
+}
+
+/**
+ * Forget all session payloads
+ *
+ * Forces the next fetchMenuItems call to go back to the network.
+ */
+export function clearPayloadCache(): void {
+  sessionPayloadCache.clear();
+}
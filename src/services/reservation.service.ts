@@ -0,0 +1,213 @@
+/**
+ * Reservation Service
+ *
+ * The contract ReservePage books tables through: seating availability for a
+ * location, date and party size, and booking itself. Requests are validated
+ * with ReservationRequestSchema (lib/reservations.ts) and re-checked against
+ * the location's seating times, the booking window and remaining seats
+ * before anything is saved.
+ *
+ * The only implementation today is local, for development and tests:
+ * bookings are kept in localStorage (or in memory when there is none) and
+ * each seating time holds RESERVATION_SEATS_PER_SLOT guests. A backend can
+ * implement the same interface later without ReservePage changing.
+ *
+ * Errors:
+ * - ReservationValidationError: the request failed validation (zod issues,
+ *   including a time that isn't a seating time that day, or a date more than
+ *   RESERVATION_BOOKING_WINDOW_DAYS ahead)
+ * - SlotUnavailableError: the seating time filled up before booking
+ *
+ * Example:
+ * const service = createLocalReservationService({ storage: null });
+ * const slots = await service.getAvailability({ locationId: 'yaletown', date: '2024-07-05', partySize: 4 });
+ * const reservation = await service.book({ locationId: 'yaletown', date: '2024-07-05', time: '18:30', ... });
+ */
+
+import type { ZodIssue } from 'zod';
+import {
+  LOCATIONS,
+  RESERVATION_BOOKING_WINDOW_DAYS,
+  RESERVATION_SEATS_PER_SLOT
+} from '../lib/constants';
+import { addDays, getZonedDateTime } from '../lib/hours';
+import { getSeatingTimes, ReservationRequestSchema } from '../lib/reservations';
+import type { SeatingOptions } from '../lib/reservations';
+import type { Reservation, ReservationRequest, TimeSlot } from '../lib/types';
+
+export const RESERVATIONS_STORAGE_KEY = 'cascade-coast:reservations';
+
+export interface AvailabilityQuery {
+  locationId: string;
+  // YYYY-MM-DD
+  date: string;
+  partySize: number;
+}
+
+export interface ReservationService {
+  // Every seating time that day, marked unavailable when the party won't fit
+  // (rejects dates past the booking window)
+  getAvailability: (
+    query: AvailabilityQuery,
+    options?: { signal?: AbortSignal }
+  ) => Promise<TimeSlot[]>;
+  // Validate and save a booking
+  book: (request: ReservationRequest, options?: { signal?: AbortSignal }) => Promise<Reservation>;
+}
+
+export class ReservationValidationError extends Error {
+  readonly issues: ZodIssue[];
+
+  constructor(issues: ZodIssue[]) {
+    super(issues[0]?.message ?? 'Reservation details are invalid');
+    this.name = 'ReservationValidationError';
+    this.issues = issues;
+  }
+}
+
+export class SlotUnavailableError extends Error {
+  readonly time: string;
+
+  constructor(time: string) {
+    super(`The ${time} seating is fully booked`);
+    this.name = 'SlotUnavailableError';
+    this.time = time;
+  }
+}
+
+export interface LocalReservationServiceOptions {
+  // Where bookings are kept; null keeps them in memory. Defaults to localStorage
+  storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+  // Seating interval and last seating (defaults from constants)
+  seating?: Omit<SeatingOptions, 'now'>;
+  seatsPerSlot?: number;
+  // How many days ahead bookings open
+  bookingWindowDays?: number;
+  // Clock override for tests
+  now?: () => Date;
+}
+
+function createReservationId(): string {
+  return `CC-${Math.random().toString(36).slice(2, 8).toUpperCase().padEnd(6, '0')}`;
+}
+
+/**
+ * Book tables in the browser (localStorage) or in memory
+ */
+export function createLocalReservationService({
+  storage = typeof localStorage === 'undefined' ? null : localStorage,
+  seating,
+  seatsPerSlot = RESERVATION_SEATS_PER_SLOT,
+  bookingWindowDays = RESERVATION_BOOKING_WINDOW_DAYS,
+  now = () => new Date()
+}: LocalReservationServiceOptions = {}): ReservationService {
+  let memory: Reservation[] = [];
+
+  const load = (): Reservation[] => {
+    if (!storage) {
+      return memory;
+    }
+    try {
+      const stored: unknown = JSON.parse(storage.getItem(RESERVATIONS_STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? (stored as Reservation[]) : [];
+    } catch {
+      // Unreadable data shouldn't block new bookings
+      return [];
+    }
+  };
+
+  const save = (reservations: Reservation[]) => {
+    memory = reservations;
+    storage?.setItem(RESERVATIONS_STORAGE_KEY, JSON.stringify(reservations));
+  };
+
+  // Seats already booked per seating time at a location on a date
+  const bookedSeats = (locationId: string, date: string): Map<string, number> => {
+    const seats = new Map<string, number>();
+    for (const reservation of load()) {
+      if (reservation.locationId === locationId && reservation.date === date) {
+        seats.set(reservation.time, (seats.get(reservation.time) ?? 0) + reservation.partySize);
+      }
+    }
+    return seats;
+  };
+
+  const seatingTimes = (locationId: string, date: string): string[] => {
+    const location = LOCATIONS.find((candidate) => candidate.id === locationId);
+    return location ? getSeatingTimes(location, date, { ...seating, now: now() }) : [];
+  };
+
+  // Counted from today in Vancouver, like the seating times
+  const assertWithinBookingWindow = (date: string) => {
+    const lastBookableDate = addDays(getZonedDateTime(now()).date, bookingWindowDays);
+    if (date > lastBookableDate) {
+      throw new ReservationValidationError([
+        {
+          code: 'custom',
+          path: ['date'],
+          message: `Bookings open ${bookingWindowDays} days ahead; choose an earlier date`
+        }
+      ]);
+    }
+  };
+
+  const getAvailability = async (
+    { locationId, date, partySize }: AvailabilityQuery,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<TimeSlot[]> => {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    assertWithinBookingWindow(date);
+
+    const booked = bookedSeats(locationId, date);
+    return seatingTimes(locationId, date).map((time) => ({
+      time,
+      available: (booked.get(time) ?? 0) + partySize <= seatsPerSlot
+    }));
+  };
+
+  const book = async (
+    request: ReservationRequest,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<Reservation> => {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    const parsed = ReservationRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new ReservationValidationError(parsed.error.issues);
+    }
+
+    const details: ReservationRequest = parsed.data;
+    assertWithinBookingWindow(details.date);
+    if (!seatingTimes(details.locationId, details.date).includes(details.time)) {
+      throw new ReservationValidationError([
+        {
+          code: 'custom',
+          path: ['time'],
+          message: 'Choose one of the available times for that day'
+        }
+      ]);
+    }
+
+    const booked = bookedSeats(details.locationId, details.date).get(details.time) ?? 0;
+    if (booked + details.partySize > seatsPerSlot) {
+      throw new SlotUnavailableError(details.time);
+    }
+
+    const reservation: Reservation = {
+      ...details,
+      id: createReservationId(),
+      createdAt: now().toISOString()
+    };
+    save([...load(), reservation]);
+    return reservation;
+  };
+
+  return { getAvailability, book };
+}
+
+// Shared instance used by ReservePage
+export const reservationService = createLocalReservationService();
@@ -0,0 +1,22 @@
+/**
+ * Fallback Menu Source
+ *
+ * Serves the curated in-memory FALLBACK_MENU_ITEMS. Never touches the
+ * network, which makes it handy for offline demos and tests.
+ */
+
+import { FALLBACK_MENU_ITEMS } from '../../lib/fallback-menu';
+import type { Category } from '../../lib/types';
+import type { MenuSource, SourceCategoryResult } from './menu.source';
+
+async function fetchCategory(category: Category): Promise<SourceCategoryResult> {
+  return {
+    items: FALLBACK_MENU_ITEMS.filter((item) => item.category === category),
+    failures: []
+  };
+}
+
+export const fallbackMenuSource: MenuSource = {
+  id: 'fallback',
+  fetchCategory
+};
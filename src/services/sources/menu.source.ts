@@ -0,0 +1,106 @@
+/**
+ * Menu Source Contract
+ *
+ * A MenuSource knows how to load the items for one category from a single
+ * backing store. menu.service.ts never talks to an API or file directly; it
+ * asks the active source, so the site can be pointed at our own kitchen data
+ * without touching MenuPage or the React Query key.
+ *
+ * Implementations:
+ * - remote.source.ts: free-food-menus API (rule-categorized)
+ * - static.source.ts: public/menu.json maintained by the kitchen
+ * - fallback.source.ts: in-memory FALLBACK_MENU_ITEMS
+ *
+ * The active source is chosen by MENU_SOURCE (VITE_MENU_SOURCE env var).
+ */
+
+import { MENU_SOURCE } from '../../lib/constants';
+import type { Limiter } from '../../lib/concurrency';
+import type { RetryPolicy } from '../../lib/http';
+import type { Category, MenuItem, MenuItemRejection, MenuSourceId } from '../../lib/types';
+import type { PayloadCache } from '../payload.cache';
+import { fallbackMenuSource } from './fallback.source';
+import { remoteMenuSource } from './remote.source';
+import { staticMenuSource } from './static.source';
+
+/**
+ * Per-call state handed to a source by menu.service.ts
+ *
+ * One context is shared by every category in a single fetchAllMenuItems call.
+ */
+export interface MenuFetchContext {
+  // Shared endpoint payloads (/bbqs, /drinks are downloaded once per call)
+  payloads: PayloadCache;
+
+  // Caps how many requests run at once across all categories
+  limit: Limiter;
+
+  // Aborted by React Query when /menu unmounts or the query is cancelled
+  signal?: AbortSignal;
+
+  // Per-request timeout handed to httpGet
+  timeoutMs: number;
+
+  // Per-request retry policy handed to httpGet
+  retry: RetryPolicy;
+
+  // Items rejected during validation, keyed by endpoint so a payload shared
+  // by several categories is only reported once
+  rejections: Map<string, MenuItemRejection[]>;
+}
+
+// One endpoint that failed while the rest of the category loaded
+export interface SourceFailure {
+  endpoint: string;
+  error: unknown;
+}
+
+export interface SourceCategoryResult {
+  items: MenuItem[];
+  failures: SourceFailure[];
+}
+
+export interface MenuSource {
+  id: MenuSourceId;
+
+  /**
+   * Load every item the source has for a category.
+   *
+   * Resolves with no items when the source simply has nothing for the
+   * category, and lists failures when only some endpoints answered.
+   * Rejects only when the data could not be loaded at all.
+   */
+  fetchCategory: (category: Category, context: MenuFetchContext) => Promise<SourceCategoryResult>;
+}
+
+const MENU_SOURCES: Record<MenuSourceId, MenuSource> = {
+  remote: remoteMenuSource,
+  static: staticMenuSource,
+  fallback: fallbackMenuSource
+};
+
+/**
+ * Type guard: Check if string names a registered menu source
+ *
+ * Examples:
+ * - isMenuSourceId('static') → true
+ * - isMenuSourceId('cms') → false
+ */
+export function isMenuSourceId(value: string | null | undefined): value is MenuSourceId {
+  return Boolean(value && value in MENU_SOURCES);
+}
+
+/**
+ * Resolve a menu source by id
+ *
+ * Defaults to the configured MENU_SOURCE. Unknown ids are logged and resolve
+ * to the remote source so a typo in .env never leaves the menu empty.
+ */
+export function getMenuSource(id: string = MENU_SOURCE): MenuSource {
+  if (isMenuSourceId(id)) {
+    return MENU_SOURCES[id];
+  }
+
+  console.warn(`[menu] Unknown menu source "${id}", using remote.`);
+  return MENU_SOURCES.remote;
+}
@@ -0,0 +1,338 @@
+/**
+ * Remote Menu Source
+ *
+ * Loads menu data from the free-food-menus API, normalizes it to our format,
+ * and sorts items into curated categories with the categorization engine.
+ *
+ * Data Flow:
+ * 1. Fetch raw data from API endpoints (burgers, drinks, steaks, etc.)
+ * 2. Validate each item with Zod (once per endpoint, shared via context.payloads);
+ *    malformed items are skipped and reported, the rest are kept
+ * 3. Normalize to MenuItem format (clean prices, ratings, origins, validate images)
+ * 4. Keep items the categorization engine assigns to this category
+ *    (e.g., "old fashioned" → cocktails, see lib/categorize.ts)
+ * 5. Deduplicate items
+ * 6. Sort by price and name
+ * 7. Limit to MAX_ITEMS_PER_CATEGORY (24 per category)
+ */
+
+import { z } from 'zod';
+import { categorizeItem } from '../../lib/categorize';
+import { API_BASE_URL, CATEGORY_ENDPOINTS, MAX_ITEMS_PER_CATEGORY } from '../../lib/constants';
+import { httpGet } from '../../lib/http';
+import type { Category, MenuItem } from '../../lib/types';
+import { dedupeMenuItems } from '../../lib/utils';
+import { validateItems, type ValidatedPayload } from './validation';
+import type {
+  MenuFetchContext,
+  MenuSource,
+  SourceCategoryResult,
+  SourceFailure
+} from './menu.source';
+
+/**
+ * Zod Schema for Raw API Response
+ *
+ * The external API returns inconsistent data formats:
+ * - IDs can be strings or numbers
+ * - Prices can be "$24.50" or 24.5
+ * - Some fields are optional
+ *
+ * This schema validates and normalizes the data before processing.
+ */
+const RawMenuItemSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    name: z.string().optional(),
+    dsc: z.string().optional(),
+    price: z.union([z.string(), z.number()]).optional(),
+    img: z.string().optional(),
+    rate: z.union([z.string(), z.number()]).optional(),
+    country: z.string().optional()
+  })
+  .passthrough();
+
+type RawMenuItem = z.infer<typeof RawMenuItemSchema>;
+
+const PRICE_SANITIZE_REGEX = /[^0-9.]/g;
+const FALLBACK_DESCRIPTION = 'Chef-crafted for Cascade & Coast Kitchen guests.';
+
+/**
+ * Categories that share each endpoint
+ *
+ * Example: '/bbqs' → ['sandwiches', 'sides', 'mains']
+ *
+ * An item from a shared endpoint competes only among these categories, so a
+ * /drinks item can become a cocktail or a beverage but never a dessert.
+ */
+const ENDPOINT_CATEGORIES = (Object.keys(CATEGORY_ENDPOINTS) as Category[]).reduce<
+  Record<string, Category[]>
+>((map, category) => {
+  for (const endpoint of CATEGORY_ENDPOINTS[category]) {
+    (map[endpoint] ??= []).push(category);
+  }
+  return map;
+}, {});
+
+/**
+ * Parse price from various formats
+ *
+ * Handles:
+ * - Numbers: 24.5 → 24.5
+ * - Strings with $: "$24.50" → 24.5
+ * - Invalid values: "N/A" → null
+ */
+function parsePrice(value: RawMenuItem['price']): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'string') {
+    const sanitized = value.replace(PRICE_SANITIZE_REGEX, '');
+    const parsed = Number.parseFloat(sanitized);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse rating onto our 0–5 scale
+ *
+ * Handles:
+ * - Numbers: 4 → 4
+ * - Strings: "4.56" → 4.6 (one decimal)
+ * - Out of range or invalid: 7, -1, "great" → undefined
+ */
+function parseRating(value: RawMenuItem['rate']): number | undefined {
+  const parsed = typeof value === 'string' ? Number.parseFloat(value) : value;
+
+  if (parsed === undefined || !Number.isFinite(parsed) || parsed < 0 || parsed > 5) {
+    return undefined;
+  }
+
+  return Math.round(parsed * 10) / 10;
+}
+
+/**
+ * Clean up the API's country field for display
+ *
+ * Examples:
+ * - "  Austin,   TX " → "Austin, TX"
+ * - "" → undefined
+ */
+function normalizeOrigin(value: RawMenuItem['country']): string | undefined {
+  const origin = value?.replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ').trim();
+  return origin ? origin : undefined;
+}
+
+/**
+ * Validate image URL
+ *
+ * Only accept http/https URLs, reject relative paths or invalid URLs
+ */
+function isValidImage(url?: string): boolean {
+  return Boolean(url && /^https?:\/\//.test(url));
+}
+
+/**
+ * Build user-friendly description from raw API data
+ *
+ * Examples:
+ * - dish="Smoky Burger", venue="Harbor Grill" → "Smoky Burger from Harbor Grill."
+ * - dish="Harbor Grill", venue="Harbor Grill" → "Featured by Harbor Grill."
+ * - No data → "Chef-crafted for Cascade & Coast Kitchen guests."
+ */
+function buildDescription(raw: RawMenuItem): string {
+  const dish = raw.dsc?.trim();
+  const venue = raw.name?.trim();
+
+  if (dish && venue && !venue.toLowerCase().includes(dish.toLowerCase())) {
+    return `${dish} from ${venue}.`;
+  }
+
+  if (venue) {
+    return `Featured by ${venue}.`;
+  }
+
+  return FALLBACK_DESCRIPTION;
+}
+
+/**
+ * Normalize raw API item to MenuItem format
+ *
+ * Returns null if:
+ * - No title available
+ * - The categorization engine places the item in a different category
+ *   (or in none of the endpoint's categories)
+ *
+ * This filters out irrelevant items (e.g., "Coffee" from /drinks when fetching cocktails)
+ */
+function normalizeMenuItem(
+  raw: RawMenuItem,
+  endpoint: string,
+  category: Category
+): MenuItem | null {
+  const title = raw.dsc?.trim() ?? raw.name?.trim();
+
+  if (!title) {
+    return null;
+  }
+
+  const match = categorizeItem(title, ENDPOINT_CATEGORIES[endpoint] ?? [category]);
+  if (match?.category !== category) {
+    return null;
+  }
+
+  return {
+    id: String(raw.id),
+    title,
+    description: buildDescription(raw),
+    price: parsePrice(raw.price),
+    imageUrl: isValidImage(raw.img) ? raw.img : undefined,
+    category,
+    rating: parseRating(raw.rate),
+    origin: normalizeOrigin(raw.country)
+  };
+}
+
+/**
+ * Fetch and validate a single API endpoint payload
+ *
+ * Goes through the shared payload cache, so /bbqs is downloaded and
+ * validated once even though sandwiches, sides and mains all need it.
+ *
+ * Only a non-array response fails the endpoint; individual bad items are
+ * dropped and recorded in context.rejections.
+ */
+async function fetchEndpointPayload(
+  endpoint: string,
+  context: MenuFetchContext
+): Promise<RawMenuItem[]> {
+  const validated = await context.payloads.get<ValidatedPayload<RawMenuItem>>(
+    endpoint,
+    async (signal) => {
+      const payload = await context.limit(() =>
+        httpGet<unknown>(`${API_BASE_URL}${endpoint}`, {
+          signal,
+          timeoutMs: context.timeoutMs,
+          retry: context.retry
+        })
+      );
+
+      if (!Array.isArray(payload)) {
+        throw new Error(`Failed to validate menu response for ${endpoint}`);
+      }
+
+      return validateItems(RawMenuItemSchema, payload, endpoint);
+    },
+    { signal: context.signal }
+  );
+
+  context.rejections.set(endpoint, validated.rejections);
+  return validated.items;
+}
+
+/**
+ * Normalize items from a single API endpoint for one category
+ *
+ * Example: fetchEndpointMenuItems('/burgers', 'burgers', context)
+ * - GET https://free-food-menus-api-two.vercel.app/burgers (or reuse cached payload)
+ * - Normalize each item, keeping those categorized as burgers
+ * - Deduplicate by ID
+ */
+async function fetchEndpointMenuItems(
+  endpoint: string,
+  category: Category,
+  context: MenuFetchContext
+): Promise<MenuItem[]> {
+  const payload = await fetchEndpointPayload(endpoint, context);
+
+  const normalized: MenuItem[] = [];
+  const seen = new Set<string>();
+
+  for (const item of payload) {
+    const normalizedItem = normalizeMenuItem(item, endpoint, category);
+    if (!normalizedItem || seen.has(normalizedItem.id)) {
+      continue;
+    }
+
+    seen.add(normalizedItem.id);
+    normalized.push(normalizedItem);
+  }
+
+  return normalized;
+}
+
+/**
+ * Fetch all items for a specific category
+ *
+ * Some categories fetch from multiple endpoints:
+ * - sandwiches: ['/sandwiches', '/bbqs']
+ * - desserts: ['/desserts', '/chocolates', '/ice-cream']
+ *
+ * Endpoints are requested concurrently (bounded by context.limit) and
+ * merged back in CATEGORY_ENDPOINTS order so results stay deterministic.
+ *
+ * Error handling:
+ * - Individual endpoint failures are logged and reported in `failures`
+ *   (the category is then 'partial') but don't stop other endpoints
+ * - Only throws if ALL endpoints for the category fail
+ * - No failures and no matching items is a legitimately empty category
+ */
+async function fetchCategory(
+  category: Category,
+  context: MenuFetchContext
+): Promise<SourceCategoryResult> {
+  const endpoints = CATEGORY_ENDPOINTS[category];
+
+  if (!endpoints || endpoints.length === 0) {
+    throw new Error(`Unsupported menu category: ${category}`);
+  }
+
+  const aggregated: MenuItem[] = [];
+  const failures: SourceFailure[] = [];
+
+  // Fetch from all endpoints for this category in parallel
+  const results = await Promise.allSettled(
+    endpoints.map((endpoint) => fetchEndpointMenuItems(endpoint, category, context))
+  );
+
+  // Navigation away cancelled the load; don't report it as endpoint failures
+  context.signal?.throwIfAborted();
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      aggregated.push(...result.value);
+      return;
+    }
+
+    console.warn(`[menu] Failed to load ${endpoints[index]} for ${category}:`, result.reason);
+    failures.push({ endpoint: endpoints[index], error: result.reason });
+  });
+
+  // Every endpoint failed: surface the last error instead of an empty category
+  if (failures.length === endpoints.length) {
+    throw failures[failures.length - 1].error;
+  }
+
+  // Deduplicate items
+  const unique = dedupeMenuItems(aggregated);
+
+  // Sort by price (ascending), then alphabetically
+  unique.sort((a, b) => {
+    const priceDelta = (a.price ?? Number.POSITIVE_INFINITY) - (b.price ?? Number.POSITIVE_INFINITY);
+    if (priceDelta !== 0 && Number.isFinite(priceDelta)) {
+      return priceDelta;
+    }
+    return a.title.localeCompare(b.title);
+  });
+
+  // Limit to MAX_ITEMS_PER_CATEGORY to keep payloads and the menu manageable
+  return { items: unique.slice(0, MAX_ITEMS_PER_CATEGORY), failures };
+}
+
+export const remoteMenuSource: MenuSource = {
+  id: 'remote',
+  fetchCategory
+};
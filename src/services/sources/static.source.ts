@@ -0,0 +1,88 @@
+/**
+ * Static Menu Source
+ *
+ * Reads the kitchen-maintained menu bundled at public/menu.json. Unlike the
+ * remote API, items are already in MenuItem shape with an explicit category,
+ * so there is no categorization or per-category limit.
+ *
+ * File format:
+ * {
+ *   "version": 1,
+ *   "items": [{ "id": "...", "title": "...", "category": "burgers", ... }]
+ * }
+ */
+
+import { z } from 'zod';
+import { ALLERGENS, DIETARY_FLAGS, MENU_CATEGORIES, STATIC_MENU_URL } from '../../lib/constants';
+import { withDietaryInfo } from '../../lib/dietary';
+import { httpGet } from '../../lib/http';
+import type { Allergen, Category, DietaryFlag } from '../../lib/types';
+import type { MenuFetchContext, MenuSource, SourceCategoryResult } from './menu.source';
+import { validateItems, type ValidatedPayload } from './validation';
+
+const StaticMenuItemSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  price: z.number().nullable(),
+  imageUrl: z.string().optional(),
+  category: z.enum(MENU_CATEGORIES as [Category, ...Category[]]),
+  tags: z.array(z.string()).optional(),
+  rating: z.number().min(0).max(5).optional(),
+  origin: z.string().optional(),
+  allergens: z.array(z.enum(ALLERGENS as [Allergen, ...Allergen[]])).optional(),
+  dietary: z.array(z.enum(DIETARY_FLAGS as [DietaryFlag, ...DietaryFlag[]])).optional(),
+  addedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  chefsPick: z.boolean().optional()
+});
+
+// Items are validated one by one (see validation.ts), only the envelope here
+const StaticMenuSchema = z.object({
+  version: z.literal(1),
+  items: z.array(z.unknown())
+});
+
+type StaticMenuItem = z.infer<typeof StaticMenuItemSchema>;
+
+/**
+ * Fetch the static menu file and return one category
+ *
+ * The file holds every category, so it is read and validated once through
+ * the shared payload cache and each category filters it locally. A typo in
+ * one entry only drops that entry (reported in context.rejections).
+ */
+async function fetchCategory(
+  category: Category,
+  context: MenuFetchContext
+): Promise<SourceCategoryResult> {
+  const validated = await context.payloads.get<ValidatedPayload<StaticMenuItem>>(
+    STATIC_MENU_URL,
+    async (signal) => {
+      const payload = await context.limit(() =>
+        httpGet<unknown>(STATIC_MENU_URL, {
+          signal,
+          timeoutMs: context.timeoutMs,
+          retry: context.retry
+        })
+      );
+      const parsed = StaticMenuSchema.safeParse(payload);
+
+      if (!parsed.success) {
+        throw new Error(`Failed to validate static menu file ${STATIC_MENU_URL}`);
+      }
+
+      const result = validateItems(StaticMenuItemSchema, parsed.data.items, STATIC_MENU_URL);
+      // Tags like 'Vegetarian' fill in the typed dietary fields
+      return { ...result, items: result.items.map(withDietaryInfo) };
+    },
+    { signal: context.signal }
+  );
+
+  context.rejections.set(STATIC_MENU_URL, validated.rejections);
+  return { items: validated.items.filter((item) => item.category === category), failures: [] };
+}
+
+export const staticMenuSource: MenuSource = {
+  id: 'static',
+  fetchCategory
+};
@@ -0,0 +1,70 @@
+/**
+ * Item-Level Payload Validation
+ *
+ * Validates each item of an endpoint payload on its own so one malformed
+ * entry no longer throws away the whole endpoint. Valid items are kept;
+ * every rejected item is recorded with its endpoint, array index and the
+ * zod issues explaining why.
+ *
+ * The rejection report ends up on MenuLoadResult.rejections, where the
+ * dev-only MenuDiagnostics panel and the unit tests read it.
+ *
+ * Example:
+ * validateItems(RawMenuItemSchema, [{ id: 1 }, { name: 'No id' }], '/burgers')
+ * → items: [{ id: 1 }]
+ * → rejections: [{ endpoint: '/burgers', index: 1, issues: [{ path: ['id'], ... }] }]
+ */
+
+import type { z } from 'zod';
+import type { MenuItemRejection } from '../../lib/types';
+
+export interface ValidatedPayload<T> {
+  items: T[];
+  rejections: MenuItemRejection[];
+}
+
+/**
+ * Best-effort id of a rejected item so the report can point at it
+ */
+function readItemId(raw: unknown): string | undefined {
+  if (raw && typeof raw === 'object' && 'id' in raw) {
+    const { id } = raw as { id: unknown };
+    return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+  }
+
+  return undefined;
+}
+
+export function validateItems<S extends z.ZodTypeAny>(
+  schema: S,
+  payload: unknown[],
+  endpoint: string
+): ValidatedPayload<z.infer<S>> {
+  const items: z.infer<S>[] = [];
+  const rejections: MenuItemRejection[] = [];
+
+  payload.forEach((raw, index) => {
+    const parsed = schema.safeParse(raw);
+
+    if (parsed.success) {
+      items.push(parsed.data);
+      return;
+    }
+
+    rejections.push({
+      endpoint,
+      index,
+      itemId: readItemId(raw),
+      issues: parsed.error.issues
+    });
+  });
+
+  if (rejections.length > 0) {
+    console.warn(
+      `[menu] Rejected ${rejections.length} of ${payload.length} items from ${endpoint}`,
+      rejections
+    );
+  }
+
+  return { items, rejections };
+}
@@ -0,0 +1,87 @@
+/**
+ * Favourites Store (Zustand + persist)
+ *
+ * Dishes guests have starred, kept in localStorage so they survive reloads
+ * and new sessions. Keyed by MenuItem.id.
+ *
+ * Each entry keeps a small snapshot (title, category) so a favourite that
+ * drops off the menu can still be listed as "no longer available" instead of
+ * silently disappearing. MenuPage reconciles entries against the loaded menu.
+ *
+ * Example:
+ * const toggleFavourite = useFavouritesStore(state => state.toggleFavourite);
+ * toggleFavourite(item); // Stars or unstars; persisted immediately
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { Category, MenuItem } from '../lib/types';
+
+export interface FavouriteEntry {
+  id: string;
+  // Snapshot from when the dish was starred, for when it leaves the menu
+  title: string;
+  category: Category;
+  // ISO timestamp; the Favourites list shows newest first
+  savedAt: string;
+}
+
+interface FavouritesState {
+  favourites: Record<string, FavouriteEntry>;
+
+  // Star a dish, or unstar it if it's already a favourite
+  toggleFavourite: (item: MenuItem) => void;
+
+  // Unstar by id (works for dishes no longer on the menu)
+  removeFavourite: (id: string) => void;
+}
+
+export const FAVOURITES_STORAGE_KEY = 'cascade-coast:favourites';
+
+function withoutFavourite(
+  favourites: Record<string, FavouriteEntry>,
+  id: string
+): Record<string, FavouriteEntry> {
+  const next = { ...favourites };
+  delete next[id];
+  return next;
+}
+
+export const useFavouritesStore = create<FavouritesState>()(
+  persist(
+    (set) => ({
+      favourites: {},
+      toggleFavourite: (item) =>
+        set(({ favourites }) => {
+          if (favourites[item.id]) {
+            return { favourites: withoutFavourite(favourites, item.id) };
+          }
+          const entry: FavouriteEntry = {
+            id: item.id,
+            title: item.title,
+            category: item.category,
+            savedAt: new Date().toISOString()
+          };
+          return { favourites: { ...favourites, [item.id]: entry } };
+        }),
+      removeFavourite: (id) =>
+        set(({ favourites }) => ({ favourites: withoutFavourite(favourites, id) }))
+    }),
+    {
+      name: FAVOURITES_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      version: 1
+    }
+  )
+);
+
+/**
+ * Favourites, newest first
+ *
+ * Example:
+ * listFavourites({ a: { savedAt: '2024-01-01T…' }, b: { savedAt: '2024-03-01T…' } })
+ * // → [b, a]
+ */
+export function listFavourites(favourites: Record<string, FavouriteEntry>): FavouriteEntry[] {
+  return Object.values(favourites).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
@@ -4,40 +4,79 @@
  * Manages global UI state across components without prop drilling.
  *
  * Current state:
- * - activeMenuItem: Which menu item's details modal is open
+ * - modalStack: Open dialogs, bottom to top; ModalHost renders them all
  *
  * Usage Pattern (Correct):
- * - MenuCard.tsx calls openMenuItem() directly (no props needed)
- * - MenuPage.tsx reads activeMenuItem to show/hide modal
- * - Modal calls closeMenuItem() directly
+ * - Features call openModal() with a typed descriptor (no Modal in their JSX)
+ * - ModalHost (in App.tsx) is the only place dialogs render: it hands out
+ *   unique ARIA ids, traps focus in the top dialog, restores focus when one
+ *   closes and locks body scroll while any are open
+ * - Route-driven dialogs (e.g. /menu/:itemId) pass onClose so closing
+ *   navigates; the route removes its modal when it unmounts
  *
  * Benefits of Zustand:
- * - No prop drilling (MenuGrid doesn't need to know about modal)
- * - Any component can access state without passing props
+ * - No prop drilling (MenuGrid doesn't need to know about modals)
+ * - Any component can open a dialog without rendering one
  * - Simple API (no providers, just import and use)
  * - Auto re-renders only components that use changed state
  *
  * Example:
- * const openMenuItem = useUIStore(state => state.openMenuItem);
- * openMenuItem(item); // Updates global state, MenuPage auto re-renders
+ * const openModal = useUIStore(state => state.openModal);
+ * openModal({ key: 'menu-item:42', type: 'menu-item', props: { item, isPending: false } });
  */
 
 import { create } from 'zustand';
 import type { MenuItem } from '../lib/types';
 
+/**
+ * Props for each kind of dialog, keyed by descriptor type
+ *
+ * Add an entry here and a renderer in ModalHost to introduce a new dialog.
+ */
+export interface ModalPropsMap {
+  // Dish details; MenuItemPage keeps it in step with /menu/:itemId
+  'menu-item': { item: MenuItem | null; isPending: boolean };
+}
+
+export type ModalType = keyof ModalPropsMap;
+
+export type ModalDescriptor = {
+  [Type in ModalType]: {
+    // Identifies the entry; opening the same key again updates it in place
+    key: string;
+    type: Type;
+    props: ModalPropsMap[Type];
+    // Called instead of removing the entry (Escape, backdrop, Close button);
+    // the owner decides what closing means, e.g. navigating back
+    onClose?: () => void;
+  };
+}[ModalType];
+
 interface UIState {
-  // Current menu item being viewed in modal (null = modal closed)
-  activeMenuItem: MenuItem | null;
+  // Open dialogs; the last one is on top
+  modalStack: ModalDescriptor[];
+
+  // Push a dialog (or update the one with the same key) and return its key
+  openModal: (modal: ModalDescriptor) => string;
 
-  // Open modal with specific menu item
-  openMenuItem: (item: MenuItem) => void;
+  // Remove a dialog wherever it sits in the stack
+  closeModal: (key: string) => void;
 
-  // Close modal
-  closeMenuItem: () => void;
+  // Remove every dialog
+  closeAllModals: () => void;
 }
 
 export const useUIStore = create<UIState>((set) => ({
-  activeMenuItem: null,
-  openMenuItem: (item) => set({ activeMenuItem: item }),
-  closeMenuItem: () => set({ activeMenuItem: null })
+  modalStack: [],
+  openModal: (modal) => {
+    set(({ modalStack }) => ({
+      modalStack: modalStack.some((entry) => entry.key === modal.key)
+        ? modalStack.map((entry) => (entry.key === modal.key ? modal : entry))
+        : [...modalStack, modal]
+    }));
+    return modal.key;
+  },
+  closeModal: (key) =>
+    set(({ modalStack }) => ({ modalStack: modalStack.filter((entry) => entry.key !== key) })),
+  closeAllModals: () => set({ modalStack: [] })
 }));
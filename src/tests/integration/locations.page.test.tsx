@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { HelmetProvider } from 'react-helmet-async';
+import LocationsPage from '../../../src/pages/Locations/LocationsPage';
+
+const renderLocationsPage = () =>
+  render(
+    <HelmetProvider>
+      <MemoryRouter>
+        <LocationsPage />
+      </MemoryRouter>
+    </HelmetProvider>
+  );
+
+const cardNames = () =>
+  screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent);
+
+// jsdom has no Geolocation API; stand one in for a test
+const stubGeolocation = (getCurrentPosition: Geolocation['getCurrentPosition']) => {
+  Object.defineProperty(navigator, 'geolocation', {
+    configurable: true,
+    value: { getCurrentPosition }
+  });
+};
+
+describe('LocationsPage nearest finder', () => {
+  afterEach(() => {
+    cleanup();
+    Reflect.deleteProperty(navigator, 'geolocation');
+  });
+
+  it('keeps the usual order until the guest asks', () => {
+    renderLocationsPage();
+    expect(cardNames()[0]).toBe('Coal Harbour');
+    expect(screen.queryByText(/km away|m away/)).not.toBeInTheDocument();
+  });
+
+  it('sorts by distance from the browser location', async () => {
+    // Outside the Yaletown room
+    stubGeolocation((success) =>
+      success({ coords: { latitude: 49.2759, longitude: -123.1206 } } as GeolocationPosition)
+    );
+    renderLocationsPage();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Find nearest' }));
+
+    expect(await screen.findByText(/Sorted by distance from your location/)).toBeInTheDocument();
+    expect(cardNames()[0]).toBe('Yaletown');
+    expect(screen.getByText('50 m away · 1 min walk')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Clear' }));
+    expect(cardNames()[0]).toBe('Coal Harbour');
+  });
+
+  it('falls back to a postal code or neighbourhood when location is denied', async () => {
+    stubGeolocation((_success, failure) => failure?.({ code: 1 } as GeolocationPositionError));
+    renderLocationsPage();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Find nearest' }));
+    expect(await screen.findByText(/Location access is turned off/)).toBeInTheDocument();
+
+    const search = screen.getByLabelText('Or enter a postal code or neighbourhood');
+    await userEvent.type(search, 'Narnia{Enter}');
+    expect(screen.getByText(/We couldn't find "Narnia"/)).toBeInTheDocument();
+
+    await userEvent.clear(search);
+    await userEvent.type(search, 'v6g 1a1{Enter}');
+    expect(screen.getByText(/Sorted by distance from V6G/)).toBeInTheDocument();
+    expect(cardNames()[0]).toBe('West End');
+  });
+});
+
+describe('LocationsPage map', () => {
+  afterEach(() => {
+    cleanup();
+    Reflect.deleteProperty(Element.prototype, 'scrollIntoView');
+  });
+
+  it('jumps to a location from its pin on the overview map', async () => {
+    // jsdom doesn't implement scrolling
+    const scrollIntoView = vi.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    renderLocationsPage();
+
+    expect(screen.getAllByRole('button', { name: /^Show / })).toHaveLength(5);
+    await userEvent.click(screen.getByRole('button', { name: 'Show Gastown' }));
+
+    const card = document.getElementById('location-gastown');
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.contexts[0]).toBe(card);
+    expect(card).toHaveFocus();
+  });
+
+  it('loads a Google map only when asked', async () => {
+    renderLocationsPage();
+    expect(document.querySelector('iframe')).toBeNull();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Load Yaletown map' }));
+    expect(screen.getByTitle('Yaletown map').tagName).toBe('IFRAME');
+    expect(document.querySelectorAll('iframe')).toHaveLength(1);
+  });
+});
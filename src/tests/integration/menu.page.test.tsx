@@ -1,12 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
-import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RouterProvider, createMemoryRouter } from 'react-router-dom';
 import { HelmetProvider } from 'react-helmet-async';
+import ModalHost from '../../../src/components/layout/ModalHost';
+import MenuItemPage from '../../../src/pages/Menu/MenuItemPage';
 import MenuPage from '../../../src/pages/Menu/MenuPage';
-import type { MenuItem } from '../../../src/lib/types';
-import { fetchMenuItems } from '../../../src/services/menu.service';
+import type { MenuItem, MenuLoadResult } from '../../../src/lib/types';
+import { fetchMenuCategories, fetchMenuItems } from '../../../src/services/menu.service';
+import {
+  FAVOURITES_STORAGE_KEY,
+  useFavouritesStore
+} from '../../../src/store/favourites.store';
 
 vi.mock('../../../src/services/menu.service', async () => {
   const actual = await vi.importActual<typeof import('../../../src/services/menu.service')>(
@@ -14,11 +20,18 @@ vi.mock('../../../src/services/menu.service', async () => {
   );
   return {
     ...actual,
-    fetchMenuItems: vi.fn()
+    fetchMenuItems: vi.fn(),
+    fetchMenuCategories: vi.fn()
   };
 });
 
 const mockedFetchMenuItems = fetchMenuItems as unknown as Mock;
+const mockedFetchMenuCategories = fetchMenuCategories as unknown as Mock;
+
+const toLoadResult = (
+  items: MenuItem[],
+  categories: MenuLoadResult['categories'] = {}
+): MenuLoadResult => ({ items, categories, rejections: [] });
 
 const mockItems: MenuItem[] = [
   {
@@ -59,7 +72,7 @@ const mockItems: MenuItem[] = [
 
 const queryClients: QueryClient[] = [];
 
-const renderMenuPage = () => {
+const renderMenuPage = (initialEntry = '/menu') => {
   const queryClient = new QueryClient({
     defaultOptions: { queries: { retry: false } }
   });
@@ -69,10 +82,16 @@ const renderMenuPage = () => {
     [
       {
         path: '/menu',
-        element: <MenuPage />
+        element: (
+          <>
+            <MenuPage />
+            <ModalHost />
+          </>
+        ),
+        children: [{ path: ':itemId', element: <MenuItemPage /> }]
       }
     ],
-    { initialEntries: ['/menu'] }
+    { initialEntries: [initialEntry] }
   );
 
   render(
@@ -88,14 +107,17 @@ const renderMenuPage = () => {
 
 describe('MenuPage', () => {
   beforeEach(() => {
-    mockedFetchMenuItems.mockResolvedValue(mockItems);
+    mockedFetchMenuItems.mockResolvedValue(toLoadResult(mockItems));
   });
 
   afterEach(() => {
     cleanup();
     mockedFetchMenuItems.mockReset();
+    mockedFetchMenuCategories.mockReset();
     queryClients.forEach((client) => client.clear());
     queryClients.length = 0;
+    useFavouritesStore.setState({ favourites: {} });
+    localStorage.clear();
   });
 
   it('filters by category and syncs URL search params', async () => {
@@ -125,7 +147,10 @@ describe('MenuPage', () => {
       expect(params.get('search')).toBe('old fashioned');
     });
 
-    const oldFashionedElements = screen.getAllByText('Coal Harbour Old Fashioned');
+    // Matched words are wrapped in <mark>, so look the card up by its heading
+    const oldFashionedElements = screen.getAllByRole('heading', {
+      name: 'Coal Harbour Old Fashioned'
+    });
     expect(oldFashionedElements.length).toBeGreaterThan(0);
     expect(screen.queryByText('Seawall Burger')).not.toBeInTheDocument();
 
@@ -145,4 +170,367 @@ describe('MenuPage', () => {
     const headings = screen.getAllByRole('heading', { level: 3 });
     expect(headings[0]).toHaveTextContent('Harbour Steak');
   });
+
+  it('tolerates typos, ranks by relevance and highlights matches', async () => {
+    renderMenuPage();
+    await screen.findByText('Seawall Burger');
+
+    await userEvent.type(screen.getByLabelText(/search the menu/i), 'burgr');
+
+    await waitFor(() => {
+      expect(screen.queryByRole('heading', { name: 'Market Club' })).not.toBeInTheDocument();
+    });
+
+    const headings = screen.getAllByRole('heading', { level: 3 });
+    expect(headings.map((heading) => heading.textContent)).toEqual(['Seawall Burger']);
+    expect(headings[0].querySelector('mark')).toHaveTextContent('Burger');
+    expect(screen.getByRole('option', { name: 'Best Match' })).toBeInTheDocument();
+  });
+
+  it('applies filter tokens from the search param and reports bad ones inline', async () => {
+    const query = 'tag:handheld price:<20 colour:red maple';
+    renderMenuPage(`/menu?search=${encodeURIComponent(query)}`);
+
+    expect(await screen.findByRole('heading', { name: 'Market Club' })).toBeInTheDocument();
+    // Maple also matches the Old Fashioned, but it isn't tagged Handheld
+    expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(1);
+
+    const search = screen.getByLabelText(/search the menu/i);
+    expect(search).toHaveValue(query);
+    expect(search).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByText(/unknown filter "colour:"/i)).toBeInTheDocument();
+  });
+
+  it('reads a compound sort from the URL and keeps it selectable', async () => {
+    renderMenuPage('/menu?sort=name_desc,price_asc');
+    await screen.findByText('Seawall Burger');
+
+    const select = screen.getByLabelText(/sort menu items/i);
+    expect(select).toHaveValue('name_desc,price_asc');
+    expect(screen.getByRole('option', { name: 'Name: Z to A, then Price: Low to High' })).toBeInTheDocument();
+
+    const titles = screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent);
+    expect(titles.slice(0, 2)).toEqual(['Yuzu Margarita', 'Seawall Spritz']);
+  });
+
+  it('pages through dishes one page at a time and restores the page from the URL', async () => {
+    const manyItems = Array.from({ length: 12 }, (_, index) => ({
+      ...mockItems[0],
+      id: `burger-${index + 1}`,
+      title: `Burger No. ${index + 1}`
+    }));
+    mockedFetchMenuItems.mockResolvedValue(toLoadResult(manyItems));
+
+    const { router } = renderMenuPage('/menu?category=burgers');
+
+    expect(await screen.findByRole('heading', { name: 'Burger No. 1' })).toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(9);
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+    // Page 2 replaces page 1 rather than adding to it
+    expect(await screen.findByRole('heading', { name: 'Burger No. 10' })).toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(3);
+    expect(screen.queryByRole('heading', { name: 'Burger No. 1' })).not.toBeInTheDocument();
+    expect(new URLSearchParams(router.state.location.search).get('page')).toBe('2');
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Previous' }));
+
+    expect(await screen.findByRole('heading', { name: 'Burger No. 1' })).toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(9);
+    expect(new URLSearchParams(router.state.location.search).get('page')).toBe('1');
+
+    // A shared link fetches the cursors up to its page and shows only that page
+    cleanup();
+    renderMenuPage('/menu?category=burgers&page=2');
+
+    expect(await screen.findByRole('heading', { name: 'Burger No. 10' })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Burger No. 1' })).not.toBeInTheDocument();
+  });
+
+  it('scrolls continuously, rendering only rows near the viewport', async () => {
+    const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+    const manyItems = Array.from({ length: 30 }, (_, index) => ({
+      ...mockItems[0],
+      id: `burger-${index + 1}`,
+      title: `Burger No. ${index + 1}`
+    }));
+    mockedFetchMenuItems.mockResolvedValue(toLoadResult(manyItems));
+
+    const { router } = renderMenuPage('/menu?category=burgers');
+    await screen.findByRole('heading', { name: 'Burger No. 1' });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Continuous' }));
+
+    // Reaching the last loaded row pulls in the next page, but only the rows
+    // near the viewport exist as cards
+    expect(await screen.findByText(/showing 18 of 30 dishes/i)).toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 }).length).toBeLessThan(18);
+    expect(new URLSearchParams(router.state.location.search).get('view')).toBe('continuous');
+
+    // A shared link scrolls back to its page and renders around it
+    cleanup();
+    const { router: sharedRouter } = renderMenuPage('/menu?category=burgers&view=continuous&page=3');
+
+    expect(await screen.findByRole('heading', { name: 'Burger No. 19' })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Burger No. 1' })).not.toBeInTheDocument();
+    expect(scrollTo).toHaveBeenCalled();
+    expect(new URLSearchParams(sharedRouter.state.location.search).get('page')).toBe('3');
+
+    scrollTo.mockRestore();
+  });
+
+  it('opens dish details at their own URL over the filtered list', async () => {
+    const { router } = renderMenuPage('/menu?category=burgers');
+    await screen.findByRole('heading', { name: 'Seawall Burger' });
+
+    const detailsLink = screen.getByRole('link', { name: /details for seawall burger/i });
+    await userEvent.click(detailsLink);
+
+    const dialog = await screen.findByRole('dialog', { name: 'Seawall Burger' });
+    expect(dialog).toHaveTextContent(/smoked cheddar/i);
+    expect(router.state.location.pathname).toBe('/menu/1');
+    expect(router.state.location.search).toBe('?category=burgers');
+    await waitFor(() => expect(document.title).toBe('Cascade & Coast Kitchen | Seawall Burger'));
+
+    await userEvent.click(screen.getByRole('button', { name: /close/i }));
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(router.state.location.pathname).toBe('/menu');
+    expect(router.state.location.search).toBe('?category=burgers');
+    expect(detailsLink).toHaveFocus();
+  });
+
+  it('opens a shared dish link on a cold load and closes to its list', async () => {
+    const { router } = renderMenuPage('/menu/4?sort=price_desc');
+
+    expect(await screen.findByRole('dialog', { name: 'Harbour Steak' })).toBeInTheDocument();
+
+    await userEvent.keyboard('{Escape}');
+
+    await waitFor(() => expect(router.state.location.pathname).toBe('/menu'));
+    expect(router.state.location.search).toBe('?sort=price_desc');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('explains when a linked dish is no longer on the menu', async () => {
+    renderMenuPage('/menu/retired-special');
+
+    expect(await screen.findByRole('dialog', { name: /dish not found/i })).toBeInTheDocument();
+  });
+
+  it('stars dishes into a persisted Favourites tab and keeps retired ones listed', async () => {
+    useFavouritesStore.setState({
+      favourites: {
+        'retired-special': {
+          id: 'retired-special',
+          title: 'Summer Halibut',
+          category: 'mains',
+          savedAt: '2024-06-01T00:00:00.000Z'
+        }
+      }
+    });
+    const { router } = renderMenuPage();
+    await screen.findByRole('heading', { name: 'Seawall Burger' });
+
+    const star = screen.getByRole('button', { name: 'Favourite Seawall Burger' });
+    await userEvent.click(star);
+    expect(star).toHaveAttribute('aria-pressed', 'true');
+    expect(localStorage.getItem(FAVOURITES_STORAGE_KEY)).toContain('Seawall Burger');
+
+    await userEvent.click(screen.getByRole('tab', { name: /favourites 1/i }));
+
+    await waitFor(() => expect(router.state.location.search).toContain('favourites=1'));
+    await waitFor(() => expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(1));
+    expect(screen.getByRole('heading', { name: 'Seawall Burger' })).toBeInTheDocument();
+    const unavailable = screen.getByRole('region', { name: /no longer available/i });
+    expect(unavailable).toHaveTextContent('Summer Halibut');
+    expect(unavailable).toHaveTextContent(/no longer on our chef specials menu/i);
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Remove Summer Halibut from favourites' })
+    );
+    expect(screen.queryByRole('region', { name: /no longer available/i })).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Favourite Seawall Burger' }));
+    expect(await screen.findByText(/no favourites yet/i)).toBeInTheDocument();
+  });
+
+  it('filters by origin and sorts top rated first', async () => {
+    mockedFetchMenuItems.mockResolvedValue(
+      toLoadResult(
+        mockItems.map((item) =>
+          item.category === 'burgers' || item.category === 'mains'
+            ? { ...item, origin: 'Austin, TX', rating: item.category === 'mains' ? 4.8 : 4.2 }
+            : item
+        )
+      )
+    );
+
+    const { router } = renderMenuPage();
+    await screen.findByText('Seawall Burger');
+
+    await userEvent.selectOptions(screen.getByLabelText(/filter by origin/i), 'Austin, TX');
+    await userEvent.selectOptions(screen.getByLabelText(/sort menu items/i), 'rating_desc');
+
+    await waitFor(() => {
+      const params = new URLSearchParams(router.state.location.search);
+      expect(params.get('origin')).toBe('Austin, TX');
+      expect(params.get('sort')).toBe('rating_desc');
+    });
+
+    const headings = screen.getAllByRole('heading', { level: 3 });
+    expect(headings.map((heading) => heading.textContent)).toEqual(['Harbour Steak', 'Seawall Burger']);
+    expect(screen.getAllByText('Rated').length).toBe(2);
+  });
+
+  it('applies dietary and allergen facets through the URL', async () => {
+    mockedFetchMenuItems.mockResolvedValue(
+      toLoadResult([
+        { ...mockItems[0], dietary: ['gluten-free-option'], allergens: ['milk', 'wheat'] },
+        { ...mockItems[1], dietary: ['vegetarian'], allergens: ['eggs', 'wheat'] },
+        { ...mockItems[3], dietary: ['vegetarian'] }
+      ])
+    );
+
+    const { router } = renderMenuPage();
+    await screen.findByText('Seawall Burger');
+
+    await userEvent.click(screen.getByRole('button', { name: /^vegetarian/i }));
+    await userEvent.click(screen.getByRole('button', { name: 'Eggs' }));
+
+    await waitFor(() => {
+      const params = new URLSearchParams(router.state.location.search);
+      expect(params.get('diet')).toBe('vegetarian');
+      expect(params.get('avoid')).toBe('eggs');
+    });
+
+    expect(screen.getByRole('button', { name: /^vegetarian/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.queryByText('Seawall Burger')).not.toBeInTheDocument();
+    expect(screen.queryByText('Market Club')).not.toBeInTheDocument();
+    // Undeclared allergens never pass an exclusion
+    expect(screen.queryByText('Harbour Steak')).not.toBeInTheDocument();
+    expect(screen.getByText(/without a declared allergen list are hidden/i)).toBeInTheDocument();
+  });
+
+  it('shows live facet counts and keeps facet selections in the URL', async () => {
+    const { router } = renderMenuPage();
+    await screen.findByText('Seawall Burger');
+
+    expect(screen.getByRole('tab', { name: /burgers 1/i })).toBeEnabled();
+    expect(screen.getByRole('tab', { name: /desserts 0/i })).toBeDisabled();
+
+    await userEvent.click(screen.getByRole('button', { name: /^\$35 & up/ }));
+
+    await waitFor(() => {
+      expect(new URLSearchParams(router.state.location.search).get('price')).toBe('35-plus');
+    });
+
+    expect(screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent)).toEqual([
+      'Harbour Steak'
+    ]);
+    expect(screen.getByRole('tab', { name: /burgers 0/i })).toBeDisabled();
+    expect(screen.getByRole('tab', { name: /chef specials 1/i })).toBeEnabled();
+    // Other bands keep their counts so the selection can be widened
+    expect(screen.getByRole('button', { name: /^\$15 – \$25 [1-9]/ })).toBeEnabled();
+  });
+
+  it('filters by a price range from the URL and toggles Market Price dishes', async () => {
+    mockedFetchMenuItems.mockResolvedValue(
+      toLoadResult([...mockItems, { ...mockItems[3], id: '5', title: 'Fanny Bay Oysters', price: null }])
+    );
+
+    const { router } = renderMenuPage('/menu?minPrice=30');
+    await screen.findByText('Harbour Steak');
+
+    // Market Price dishes are included by default
+    expect(screen.getByText('Fanny Bay Oysters')).toBeInTheDocument();
+    expect(screen.queryByText('Seawall Burger')).not.toBeInTheDocument();
+    expect(screen.getByLabelText(/minimum price/i)).toHaveValue('30');
+
+    await userEvent.click(screen.getByLabelText(/include market price dishes/i));
+
+    await waitFor(() => {
+      expect(new URLSearchParams(router.state.location.search).get('market')).toBe('exclude');
+    });
+    await waitFor(() => {
+      expect(screen.queryByText('Fanny Bay Oysters')).not.toBeInTheDocument();
+    });
+
+    // Dragging the upper handle below the steak leaves nothing
+    fireEvent.change(screen.getByLabelText(/maximum price/i), { target: { value: '32' } });
+
+    await waitFor(() => {
+      const params = new URLSearchParams(router.state.location.search);
+      expect(params.get('minPrice')).toBe('30');
+      expect(params.get('maxPrice')).toBe('32');
+    });
+    expect(await screen.findByText(/no dishes match your filters/i)).toBeInTheDocument();
+  });
+
+  it('serves curated cocktails regardless of loaded drinks', async () => {
+    mockedFetchMenuItems.mockResolvedValue(
+      toLoadResult([
+        ...mockItems,
+        {
+          id: 'remote-margarita',
+          title: 'Remote Margarita',
+          description: 'From the API.',
+          price: 12,
+          category: 'cocktails'
+        }
+      ])
+    );
+
+    renderMenuPage();
+    await screen.findByText('Seawall Burger');
+    await userEvent.click(screen.getByRole('tab', { name: /cocktails/i }));
+
+    expect(screen.queryByText('Remote Margarita')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 }).length).toBeGreaterThan(0);
+    expect(screen.queryByText(/showcasing our signature dishes/i)).not.toBeInTheDocument();
+  });
+
+  it('flags degraded categories and retries only those', async () => {
+    mockedFetchMenuItems.mockResolvedValue(
+      toLoadResult(
+        mockItems.filter((item) => item.category !== 'sandwiches'),
+        {
+          burgers: { state: 'ok', source: 'remote', itemCount: 1 },
+          sandwiches: {
+            state: 'failed',
+            source: 'remote',
+            itemCount: 0,
+            reason: 'the kitchen took too long to respond'
+          }
+        }
+      )
+    );
+    mockedFetchMenuCategories.mockResolvedValue(
+      toLoadResult(
+        mockItems.filter((item) => item.category === 'sandwiches'),
+        { sandwiches: { state: 'ok', source: 'remote', itemCount: 1 } }
+      )
+    );
+
+    renderMenuPage();
+
+    const banner = await screen.findByRole('status');
+    expect(banner).toHaveTextContent('Sandwiches (unavailable)');
+    expect(screen.getByRole('tab', { name: /sandwiches \(unavailable\)/i })).toBeInTheDocument();
+    // Curated sandwiches stand in for the failed category
+    expect(screen.getByText(/showcasing our signature dishes/i)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /retry these sections/i }));
+
+    expect(mockedFetchMenuCategories).toHaveBeenCalledWith(['sandwiches']);
+    await waitFor(() => {
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+    expect(screen.getByText('Market Club')).toBeInTheDocument();
+    expect(screen.queryByText(/showcasing our signature dishes/i)).not.toBeInTheDocument();
+    expect(mockedFetchMenuItems).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ModalHost from '../../../src/components/layout/ModalHost';
+import type { MenuItem } from '../../../src/lib/types';
+import { useUIStore } from '../../../src/store/ui.store';
+
+const burger: MenuItem = {
+  id: 'burger',
+  title: 'Seawall Burger',
+  description: 'Smoked cheddar, brioche bun.',
+  price: 23,
+  category: 'burgers'
+};
+
+const steak: MenuItem = {
+  id: 'steak',
+  title: 'Harbour Steak',
+  description: 'Charred striploin.',
+  price: 39,
+  category: 'mains'
+};
+
+const renderHost = () =>
+  render(
+    <>
+      <button
+        type="button"
+        onClick={() =>
+          useUIStore
+            .getState()
+            .openModal({ key: 'burger', type: 'menu-item', props: { item: burger, isPending: false } })
+        }
+      >
+        Open burger
+      </button>
+      <ModalHost />
+    </>
+  );
+
+describe('ModalHost', () => {
+  afterEach(() => {
+    cleanup();
+    act(() => useUIStore.getState().closeAllModals());
+  });
+
+  it('stacks dialogs with their own labels and closes them top first', async () => {
+    renderHost();
+    const opener = screen.getByRole('button', { name: /open burger/i });
+
+    await userEvent.click(opener);
+    act(() => {
+      useUIStore
+        .getState()
+        .openModal({ key: 'steak', type: 'menu-item', props: { item: steak, isPending: false } });
+    });
+
+    const [burgerDialog, steakDialog] = screen.getAllByRole('dialog');
+    expect(burgerDialog).toHaveAccessibleName('Seawall Burger');
+    expect(steakDialog).toHaveAccessibleName('Harbour Steak');
+    expect(burgerDialog.getAttribute('aria-labelledby')).not.toBe(
+      steakDialog.getAttribute('aria-labelledby')
+    );
+
+    // Escape only closes the top dialog; focus goes back into the one below
+    await userEvent.keyboard('{Escape}');
+
+    expect(screen.getAllByRole('dialog')).toHaveLength(1);
+    expect(screen.getByRole('dialog', { name: 'Seawall Burger' })).toContainElement(
+      document.activeElement as HTMLElement
+    );
+
+    await userEvent.keyboard('{Escape}');
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+  });
+
+  it('locks body scroll while any dialog is open', async () => {
+    renderHost();
+
+    await userEvent.click(screen.getByRole('button', { name: /open burger/i }));
+    expect(document.body.style.overflow).toBe('hidden');
+
+    await userEvent.click(screen.getByRole('button', { name: /close/i }));
+    expect(document.body.style.overflow).toBe('');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { RouterProvider, createMemoryRouter } from 'react-router-dom';
+import { HelmetProvider } from 'react-helmet-async';
+import ReservePage from '../../../src/pages/Reserve/ReservePage';
+import { LOCATIONS } from '../../../src/lib/constants';
+import { addDays, getHoursOverride, getZonedDateTime } from '../../../src/lib/hours';
+import { RESERVATIONS_STORAGE_KEY } from '../../../src/services/reservation.service';
+
+const renderReservePage = (initialEntry: string) => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } }
+  });
+  const router = createMemoryRouter([{ path: '/reserve', element: <ReservePage /> }], {
+    initialEntries: [initialEntry]
+  });
+
+  render(
+    <HelmetProvider>
+      <QueryClientProvider client={queryClient}>
+        <RouterProvider router={router} />
+      </QueryClientProvider>
+    </HelmetProvider>
+  );
+
+  return { router };
+};
+
+describe('ReservePage', () => {
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  it('books a seating generated from the location hours', async () => {
+    // A week out, past any special hours so the usual seatings are there
+    let date = addDays(getZonedDateTime(new Date()).date, 7);
+    while (LOCATIONS.some((location) => getHoursOverride(location, date))) {
+      date = addDays(date, 1);
+    }
+    const { router } = renderReservePage(`/reserve?location=yaletown&date=${date}`);
+
+    expect(screen.getByLabelText('Location')).toHaveValue('yaletown');
+    expect(screen.getByLabelText('Date')).toHaveValue(date);
+
+    // Nothing picked yet: the schema's messages appear on the fields
+    await userEvent.click(screen.getByRole('button', { name: 'Book table' }));
+    expect(screen.getByText('Choose a time')).toBeInTheDocument();
+    expect(screen.getByLabelText('Name')).toHaveAttribute('aria-invalid', 'true');
+
+    const times = within(screen.getByRole('group', { name: 'Time' }));
+    const firstSeating = (await times.findAllByRole('button'))[0];
+    await userEvent.click(firstSeating);
+    expect(firstSeating).toHaveAttribute('aria-pressed', 'true');
+
+    await userEvent.selectOptions(screen.getByLabelText('Party size'), '4');
+    await waitFor(() => expect(router.state.location.search).toContain('party=4'));
+    // Changing the party picks the time again
+    expect(times.queryByRole('button', { pressed: true })).not.toBeInTheDocument();
+    await userEvent.click((await times.findAllByRole('button'))[0]);
+
+    await userEvent.type(screen.getByLabelText('Name'), 'Alex Chen');
+    await userEvent.type(screen.getByLabelText('Email'), 'alex@example.com');
+    await userEvent.click(screen.getByRole('button', { name: 'Book table' }));
+
+    const confirmation = await screen.findByRole('status');
+    expect(confirmation).toHaveTextContent("You're booked, Alex Chen");
+    expect(confirmation).toHaveTextContent(/party of 4 at yaletown/i);
+    const stored = JSON.parse(localStorage.getItem(RESERVATIONS_STORAGE_KEY) ?? '[]');
+    expect(stored).toHaveLength(1);
+    expect(confirmation).toHaveTextContent(stored[0].id);
+  });
+
+  it('falls back to today for dates outside the booking window', () => {
+    renderReservePage('/reserve?date=1999-01-01&party=40');
+
+    expect(screen.getByLabelText('Date')).toHaveValue(getZonedDateTime(new Date()).date);
+    expect(screen.getByLabelText('Party size')).toHaveValue('2');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { categorizeItem, createCategorizer, normalizeTitle } from '../../../src/lib/categorize';
+import type { Category } from '../../../src/lib/types';
+
+const DRINKS: Category[] = ['cocktails', 'beverages'];
+const BBQS: Category[] = ['sandwiches', 'sides', 'mains'];
+
+// Representative titles (the `dsc` field) from the /drinks and /bbqs payloads
+const DRINKS_FIXTURES: Array<[string, Category | null]> = [
+  ['Maple Old Fashioned', 'cocktails'],
+  ['Old Fashioned Cocktail Kit', 'cocktails'],
+  ['Classic Margarita Mix', 'cocktails'],
+  ['Bloody Mary Mix', 'cocktails'],
+  ['Moscow Mule Kit', 'cocktails'],
+  ['Whiskey Sour', 'cocktails'],
+  ['Iced Coffee', 'beverages'],
+  ['Cold Brew Coffee Concentrate', 'beverages'],
+  ['Southern Sweet Tea', 'beverages'],
+  ['Fresh Squeezed Orange Juice', 'beverages'],
+  ['Mexican Coke - 12 Pack', 'beverages'],
+  ['Hot Chocolate Bombs', 'beverages'],
+  ['Raspberry Lemonade', 'beverages'],
+  ['Club Soda', 'beverages'],
+  ['Café de Olla Gift Box', null]
+];
+
+const BBQS_FIXTURES: Array<[string, Category | null]> = [
+  ['Pulled Pork Sandwich Kit', 'sandwiches'],
+  ['Brisket Sandwiches for 4', 'sandwiches'],
+  ['Beef Brisket Bun', 'sandwiches'],
+  ['Baby Back Ribs - 2 Racks', 'mains'],
+  ['Texas Brisket', 'mains'],
+  ['Burnt Ends', 'mains'],
+  ['Smoked Turkey Breast', 'mains'],
+  ['Whole Hog Roast', 'mains'],
+  ['Smoked Chicken Wings', 'sides'],
+  ['Jalapeño Cheddar Hot Links', 'sides'],
+  ['Mac & Cheese Family Pack', 'sides'],
+  ['Honey Butter Cornbread', 'sides'],
+  ['Famous BBQ Sauce Trio', null]
+];
+
+describe('categorizeItem', () => {
+  it.each(DRINKS_FIXTURES)('sorts /drinks title "%s" into %s', (title, expected) => {
+    expect(categorizeItem(title, DRINKS)?.category ?? null).toBe(expected);
+  });
+
+  it.each(BBQS_FIXTURES)('sorts /bbqs title "%s" into %s', (title, expected) => {
+    expect(categorizeItem(title, BBQS)?.category ?? null).toBe(expected);
+  });
+
+  it('matches whole words only', () => {
+    expect(categorizeItem('Ribeye Steak', ['beverages'])).toBeNull();
+    expect(categorizeItem('Ribbon Fries', ['mains'])).toBeNull();
+    expect(categorizeItem('Sweet Potato Substitute', ['sandwiches', 'desserts'])).toBeNull();
+  });
+
+  it('accepts plurals of the final keyword word', () => {
+    expect(categorizeItem('Short Ribs', ['mains'])).toMatchObject({ matched: ['rib'] });
+    expect(categorizeItem('Peach Pies', ['desserts'])).toMatchObject({ category: 'desserts' });
+  });
+
+  it('picks a single category and reports confidence', () => {
+    expect(categorizeItem('Maple Old Fashioned', DRINKS)).toEqual({
+      category: 'cocktails',
+      confidence: 1,
+      matched: ['old fashioned']
+    });
+
+    // sandwich (sandwiches) and pork (mains) score equally; priority decides
+    expect(categorizeItem('Pulled Pork Sandwich', BBQS)).toEqual({
+      category: 'sandwiches',
+      confidence: 0.5,
+      matched: ['sandwich']
+    });
+  });
+
+  it('lets phrases outweigh single generic words', () => {
+    // "Long Island Iced Tea" would be a beverage on "tea" alone
+    const categorize = createCategorizer({
+      cocktails: { keywords: ['long island iced tea'], priority: 1 },
+      beverages: { keywords: ['tea'], priority: 5 }
+    });
+
+    expect(categorize('Long Island Iced Tea', DRINKS)).toMatchObject({
+      category: 'cocktails',
+      confidence: 0.8
+    });
+  });
+
+  it('falls back to candidate order when score and priority tie', () => {
+    const categorize = createCategorizer({
+      sides: { keywords: ['platter'], priority: 1 },
+      mains: { keywords: ['platter'], priority: 1 }
+    });
+
+    expect(categorize('Sampler Platter', ['mains', 'sides'])?.category).toBe('mains');
+    expect(categorize('Sampler Platter', ['sides', 'mains'])?.category).toBe('sides');
+  });
+
+  it('only considers the candidate categories', () => {
+    expect(categorizeItem('Chocolate Cake', DRINKS)).toBeNull();
+    expect(categorizeItem('Chocolate Cake')?.category).toBe('desserts');
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('strips accents and punctuation and spells out ampersands', () => {
+    expect(normalizeTitle('Mac & Cheese')).toBe('mac and cheese');
+    expect(normalizeTitle("Shrimp Po' Boy")).toBe('shrimp po boy');
+    expect(normalizeTitle('Café de Olla')).toBe('cafe de olla');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseDietaryTags, withDietaryInfo } from '../../../src/lib/dietary';
+import { FALLBACK_MENU_ITEMS } from '../../../src/lib/fallback-menu';
+import type { MenuItem } from '../../../src/lib/types';
+
+const item: MenuItem = {
+  id: '1',
+  title: 'Charred Broccolini',
+  description: 'Toasted almonds, whipped ricotta.',
+  price: 14,
+  category: 'sides'
+};
+
+describe('parseDietaryTags', () => {
+  it('maps the wording used on our menu to dietary flags', () => {
+    expect(parseDietaryTags(['Vegetarian', 'Share Plate']).dietary).toEqual(['vegetarian']);
+    expect(parseDietaryTags(['Gluten-Free']).dietary).toEqual(['gluten-free']);
+    expect(parseDietaryTags(['Gluten-Friendly Option']).dietary).toEqual(['gluten-free-option']);
+    expect(parseDietaryTags(['Zero Proof']).dietary).toEqual(['alcohol-free']);
+    expect(parseDietaryTags(['Certified Angus', 'Signature'])).toEqual({ dietary: [], allergens: [] });
+  });
+
+  it('adds flags implied by vegan', () => {
+    expect(parseDietaryTags(['Vegan']).dietary).toEqual(['vegan', 'vegetarian', 'dairy-free']);
+  });
+
+  it('reads declared allergens from "Contains" tags', () => {
+    expect(parseDietaryTags(['Contains Peanuts & Sesame']).allergens).toEqual(['peanuts', 'sesame']);
+    expect(parseDietaryTags(['Contains Nuts', 'Contains Shellfish']).allergens).toEqual([
+      'shellfish',
+      'tree-nuts'
+    ]);
+  });
+});
+
+describe('withDietaryInfo', () => {
+  it('merges explicit fields with what the tags say', () => {
+    expect(
+      withDietaryInfo({ ...item, tags: ['Vegetarian'], allergens: ['milk'], dietary: ['nut-free'] })
+    ).toMatchObject({ dietary: ['vegetarian', 'nut-free'], allergens: ['milk'] });
+  });
+
+  it('leaves allergens unknown when nothing declares them', () => {
+    expect(withDietaryInfo({ ...item, tags: ['Vegetarian'] }).allergens).toBeUndefined();
+    expect(withDietaryInfo({ ...item, allergens: [] }).allergens).toEqual([]);
+  });
+
+  it('normalizes the curated menu', () => {
+    const lemonade = FALLBACK_MENU_ITEMS.find((entry) => entry.title === 'Coastal Lemonade');
+    const burger = FALLBACK_MENU_ITEMS.find((entry) => entry.title === 'Seawall Burger');
+
+    expect(lemonade?.dietary).toEqual(['alcohol-free']);
+    expect(burger?.dietary).toEqual(['gluten-free-option']);
+    expect(FALLBACK_MENU_ITEMS.every((entry) => entry.allergens !== undefined)).toBe(true);
+  });
+});
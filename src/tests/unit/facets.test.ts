@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPriceHistogram,
+  computeMenuFacets,
+  isTagSlug,
+  tagSlug
+} from '../../../src/lib/facets';
+import type { MenuItem } from '../../../src/lib/types';
+import { filterMenuItems, isInPriceBand } from '../../../src/lib/utils';
+
+const items: MenuItem[] = [
+  {
+    id: 'burger',
+    title: 'Seawall Burger',
+    description: '',
+    price: 23,
+    category: 'burgers',
+    tags: ['Certified Angus']
+  },
+  {
+    id: 'fries',
+    title: 'Sea Salt Fries',
+    description: '',
+    price: 11,
+    category: 'sides',
+    tags: ['Share Plate', 'Vegetarian'],
+    dietary: ['vegetarian']
+  },
+  {
+    id: 'broccolini',
+    title: 'Charred Broccolini',
+    description: '',
+    price: 16,
+    category: 'sides',
+    tags: ['Vegetarian', 'Share Plate'],
+    dietary: ['vegetarian']
+  },
+  {
+    id: 'oysters',
+    title: 'Fanny Bay Oysters',
+    description: '',
+    price: null,
+    category: 'mains',
+    tags: ['Share Plate']
+  }
+];
+
+describe('computeMenuFacets', () => {
+  it('counts every option with nothing selected', () => {
+    const facets = computeMenuFacets(items, {});
+
+    expect(facets.allCategories).toBe(4);
+    expect(facets.categories).toMatchObject({ burgers: 1, sides: 2, mains: 1, desserts: 0 });
+    expect(facets.dietary).toMatchObject({ vegetarian: 2, vegan: 0 });
+    // Market price dishes sit in no band
+    expect(facets.priceBands).toEqual({ 'under-15': 1, '15-25': 2, '25-35': 0, '35-plus': 0 });
+    // Dietary tags are left to the dietary facet
+    expect(facets.tags).toEqual([
+      { value: 'certified-angus', label: 'Certified Angus', count: 1 },
+      { value: 'share-plate', label: 'Share Plate', count: 3 }
+    ]);
+  });
+
+  it('counts categories and bands across their own selection', () => {
+    const facets = computeMenuFacets(items, { category: 'sides', priceBands: ['under-15'] });
+
+    // Other tabs still show what they would hold within the band
+    expect(facets.categories).toMatchObject({ burgers: 0, sides: 1, mains: 0 });
+    // Other bands still show what they would add within the category
+    expect(facets.priceBands).toMatchObject({ 'under-15': 1, '15-25': 1 });
+    expect(facets.tags.find((tag) => tag.value === 'share-plate')?.count).toBe(1);
+  });
+
+  it('counts tags and dietary flags within the current results', () => {
+    const facets = computeMenuFacets(items, { tags: ['share-plate'], dietary: ['vegetarian'] });
+
+    expect(facets.allCategories).toBe(2);
+    expect(facets.tags.find((tag) => tag.value === 'certified-angus')?.count).toBe(0);
+    expect(facets.dietary.vegetarian).toBe(2);
+  });
+
+  it('counts category tabs across an id selection but narrows the rest', () => {
+    const facets = computeMenuFacets(items, { ids: ['fries', 'oysters'] });
+
+    // Picking a category tab leaves the Favourites tab, so tabs ignore ids
+    expect(facets.categories).toMatchObject({ burgers: 1, sides: 2, mains: 1 });
+    expect(facets.allCategories).toBe(4);
+    expect(facets.dietary.vegetarian).toBe(1);
+    expect(facets.priceBands).toMatchObject({ 'under-15': 1, '15-25': 0 });
+    expect(filterMenuItems(items, { ids: [] })).toEqual([]);
+  });
+
+  it('keeps tag options from the whole menu while results narrow', () => {
+    const facets = computeMenuFacets(items.slice(1), {}, items);
+
+    expect(facets.tags.map((tag) => tag.value)).toEqual(['certified-angus', 'share-plate']);
+    expect(facets.tags[0].count).toBe(0);
+  });
+});
+
+describe('buildPriceHistogram', () => {
+  it('buckets priced dishes and counts market price separately', () => {
+    expect(buildPriceHistogram(items, 2)).toEqual({
+      min: 11,
+      max: 23,
+      unpriced: 1,
+      bins: [
+        { from: 11, to: 17, count: 2 },
+        { from: 17, to: 23, count: 1 }
+      ]
+    });
+  });
+
+  it('handles a single price and no prices', () => {
+    expect(buildPriceHistogram([items[0]]).bins).toEqual([{ from: 23, to: 23, count: 1 }]);
+    expect(buildPriceHistogram([items[3]])).toEqual({ min: 0, max: 0, bins: [], unpriced: 1 });
+  });
+
+  it('ignores the selected price range so the slider can widen again', () => {
+    const facets = computeMenuFacets(items, { maxPrice: 12 });
+
+    expect(facets.allCategories).toBe(1);
+    expect(facets.prices.min).toBe(11);
+    expect(facets.prices.max).toBe(23);
+  });
+});
+
+describe('facet helpers', () => {
+  it('slugs tags for the URL', () => {
+    expect(tagSlug('Bright & Fresh')).toBe('bright-and-fresh');
+    expect(isTagSlug('share-plate')).toBe(true);
+    expect(isTagSlug('Share Plate')).toBe(false);
+  });
+
+  it('matches price bands with an exclusive upper bound', () => {
+    expect(isInPriceBand(15, '15-25')).toBe(true);
+    expect(isInPriceBand(25, '15-25')).toBe(false);
+    expect(isInPriceBand(null, 'under-15')).toBe(false);
+    expect(
+      filterMenuItems(items, { priceBands: ['under-15', '15-25'], tags: ['share-plate'] }).map(
+        (item) => item.id
+      )
+    ).toEqual(['fries', 'broccolini']);
+  });
+});
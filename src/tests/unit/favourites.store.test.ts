@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MenuItem } from '../../../src/lib/types';
+import {
+  FAVOURITES_STORAGE_KEY,
+  listFavourites,
+  useFavouritesStore
+} from '../../../src/store/favourites.store';
+
+const burger: MenuItem = {
+  id: 'burger',
+  title: 'Seawall Burger',
+  description: '',
+  price: 23,
+  category: 'burgers'
+};
+
+const fries: MenuItem = {
+  id: 'fries',
+  title: 'Sea Salt Fries',
+  description: '',
+  price: 11,
+  category: 'sides'
+};
+
+describe('favourites.store', () => {
+  afterEach(() => {
+    useFavouritesStore.setState({ favourites: {} });
+    localStorage.clear();
+  });
+
+  it('toggles a dish by id, keeping a snapshot of it', () => {
+    const { toggleFavourite } = useFavouritesStore.getState();
+
+    toggleFavourite(burger);
+    expect(useFavouritesStore.getState().favourites.burger).toMatchObject({
+      id: 'burger',
+      title: 'Seawall Burger',
+      category: 'burgers'
+    });
+
+    toggleFavourite(burger);
+    expect(useFavouritesStore.getState().favourites).toEqual({});
+  });
+
+  it('persists favourites to localStorage', () => {
+    useFavouritesStore.getState().toggleFavourite(fries);
+
+    const stored = JSON.parse(localStorage.getItem(FAVOURITES_STORAGE_KEY) ?? '{}');
+    expect(Object.keys(stored.state.favourites)).toEqual(['fries']);
+  });
+
+  it('removes favourites by id and lists the rest newest first', () => {
+    const entry = (item: MenuItem, savedAt: string) => ({
+      id: item.id,
+      title: item.title,
+      category: item.category,
+      savedAt
+    });
+    useFavouritesStore.setState({
+      favourites: {
+        burger: entry(burger, '2024-01-01T00:00:00.000Z'),
+        fries: entry(fries, '2024-03-01T00:00:00.000Z'),
+        gone: { ...entry(burger, '2024-02-01T00:00:00.000Z'), id: 'gone' }
+      }
+    });
+
+    useFavouritesStore.getState().removeFavourite('gone');
+
+    const listed = listFavourites(useFavouritesStore.getState().favourites);
+    expect(listed.map((favourite) => favourite.id)).toEqual(['fries', 'burger']);
+  });
+});
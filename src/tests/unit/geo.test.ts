@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { LOCATIONS } from '../../../src/lib/constants';
+import {
+  createMapProjection,
+  distanceKm,
+  estimateWalkMinutes,
+  formatDistance,
+  formatWalkTime,
+  GeolocationError,
+  getCurrentCoordinates,
+  lookupArea,
+  sortByDistance
+} from '../../../src/lib/geo';
+
+const coalHarbour = { lat: 49.2884, lng: -123.1112 };
+const yaletown = { lat: 49.2759, lng: -123.1206 };
+
+describe('distances', () => {
+  it('measures great-circle distances in kilometres', () => {
+    expect(distanceKm(coalHarbour, yaletown)).toBeCloseTo(1.55, 2);
+    expect(distanceKm(yaletown, coalHarbour)).toBeCloseTo(distanceKm(coalHarbour, yaletown), 10);
+    expect(distanceKm(coalHarbour, coalHarbour)).toBe(0);
+    // Vancouver → Toronto, roughly 3,350 km
+    expect(distanceKm(coalHarbour, { lat: 43.6532, lng: -79.3832 })).toBeCloseTo(3355, -1);
+  });
+
+  it('sorts places nearest first, keeping ties in order', () => {
+    const sorted = sortByDistance(LOCATIONS, yaletown);
+    expect(sorted[0]).toEqual({ place: LOCATIONS[1], distanceKm: 0 });
+    expect(sorted.map(({ place }) => place.id)).toEqual([
+      'yaletown',
+      'financial-district',
+      'gastown',
+      'coal-harbour',
+      'west-end'
+    ]);
+
+    const twins = [
+      { id: 'a', ...coalHarbour },
+      { id: 'b', ...coalHarbour }
+    ];
+    expect(sortByDistance(twins, yaletown).map(({ place }) => place.id)).toEqual(['a', 'b']);
+  });
+
+  it('estimates and formats walks', () => {
+    expect(estimateWalkMinutes(1.234)).toBe(15);
+    expect(estimateWalkMinutes(0.01)).toBe(1);
+    expect(estimateWalkMinutes(2, 4)).toBe(30);
+    expect(formatDistance(0.04)).toBe('50 m away');
+    expect(formatDistance(0.349)).toBe('350 m away');
+    expect(formatDistance(1.234)).toBe('1.2 km away');
+    expect(formatDistance(18.6)).toBe('19 km away');
+    expect(formatWalkTime(15)).toBe('15 min walk');
+    expect(formatWalkTime(60)).toBe('1 hr walk');
+    expect(formatWalkTime(95)).toBe('1 hr 35 min walk');
+  });
+});
+
+describe('lookupArea', () => {
+  it('finds postal codes by their first three characters', () => {
+    expect(lookupArea('v6b 1a1')?.postalPrefix).toBe('V6B');
+    expect(lookupArea('V6J')?.postalPrefix).toBe('V6J');
+    expect(lookupArea('M5V 2T6')).toBeNull();
+  });
+
+  it('finds neighbourhoods by name or nickname', () => {
+    expect(lookupArea('  kits ')?.postalPrefix).toBe('V6J');
+    expect(lookupArea('Davie Village')?.postalPrefix).toBe('V6Z');
+    expect(lookupArea('Narnia')).toBeNull();
+    expect(lookupArea('   ')).toBeNull();
+  });
+});
+
+describe('getCurrentCoordinates', () => {
+  const fakeGeolocation = (
+    outcome: { lat: number; lng: number } | { code: number }
+  ): Pick<Geolocation, 'getCurrentPosition'> => ({
+    getCurrentPosition: (success, failure) => {
+      if ('code' in outcome) {
+        failure?.({ code: outcome.code } as GeolocationPositionError);
+      } else {
+        success({
+          coords: { latitude: outcome.lat, longitude: outcome.lng }
+        } as GeolocationPosition);
+      }
+    }
+  });
+
+  it('resolves with the browser position', async () => {
+    await expect(getCurrentCoordinates(fakeGeolocation(yaletown))).resolves.toEqual(yaletown);
+  });
+
+  it('rejects with the reason it failed', async () => {
+    await expect(getCurrentCoordinates(undefined)).rejects.toMatchObject({
+      reason: 'unsupported'
+    });
+    const denied = getCurrentCoordinates(fakeGeolocation({ code: 1 }));
+    await expect(denied).rejects.toBeInstanceOf(GeolocationError);
+    await expect(denied).rejects.toMatchObject({ reason: 'denied' });
+    await expect(getCurrentCoordinates(fakeGeolocation({ code: 3 }))).rejects.toMatchObject({
+      reason: 'timeout'
+    });
+  });
+});
+
+describe('createMapProjection', () => {
+  const bounds = { north: 49.3, south: 49.26, west: -123.16, east: -123.08 };
+  const map = createMapProjection(bounds, 1000);
+
+  it('maps the bounds onto the drawing, keeping distances true to scale', () => {
+    expect(map.project({ lat: 49.3, lng: -123.16 })).toEqual({ x: 0, y: 0 });
+    const southEast = map.project({ lat: 49.26, lng: -123.08 });
+    expect(southEast.x).toBeCloseTo(1000, 6);
+    expect(southEast.y).toBeCloseTo(map.height, 6);
+    // 0.04° of latitude is ~4.45 km; 0.08° of longitude here is ~5.81 km
+    expect(map.height / map.width).toBeCloseTo(4.45 / 5.81, 2);
+  });
+
+  it('knows which points it shows', () => {
+    expect(LOCATIONS.every((location) => map.contains(location))).toBe(true);
+    expect(map.contains({ lat: 49.25, lng: -123.1 })).toBe(false);
+    expect(map.contains({ lat: 49.28, lng: -123.2 })).toBe(false);
+  });
+});
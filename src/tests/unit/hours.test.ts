@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  describeOpenStatus,
+  formatClockTime,
+  getHoursOverride,
+  getHoursText,
+  getOpeningHours,
+  getOpenStatus,
+  getUpcomingOverrides,
+  getWeekday,
+  getZonedDateTime,
+  isOpenAt,
+  nextOpening,
+  parseClockTime,
+  parseHoursRange,
+  parseLocationHours,
+  zonedTimeToInstant
+} from '../../../src/lib/hours';
+import type { LocationSchedule } from '../../../src/lib/hours';
+import type { LocationHours } from '../../../src/lib/types';
+
+const hours: LocationHours = {
+  monday: 'Closed',
+  tuesday: '11:30am – 11:00pm',
+  wednesday: '11:30am – 11:00pm',
+  thursday: '11:30am – 11:00pm',
+  friday: '11:00am – 1:00am',
+  saturday: '10:00am – 1:00am',
+  sunday: '10:00am – 11:00pm'
+};
+
+const closedAllWeek: LocationHours = {
+  monday: 'Closed',
+  tuesday: 'Closed',
+  wednesday: 'Closed',
+  thursday: 'Closed',
+  friday: 'Closed',
+  saturday: 'Closed',
+  sunday: 'Closed'
+};
+
+const schedule: LocationSchedule = { hours };
+
+const at = (iso: string) => new Date(iso);
+
+describe('parsing hours', () => {
+  it('parses 12-hour clock times', () => {
+    expect(parseClockTime('11:00am')).toBe(660);
+    expect(parseClockTime('6:30pm')).toBe(1110);
+    expect(parseClockTime('12:00am')).toBe(0);
+    expect(parseClockTime('12pm')).toBe(720);
+    expect(parseClockTime('13:00pm')).toBeNull();
+    expect(parseClockTime('noon')).toBeNull();
+  });
+
+  it('parses ranges, carrying late closings past midnight', () => {
+    expect(parseHoursRange('11:00am – 11:00pm')).toEqual({ opens: 660, closes: 1380 });
+    expect(parseHoursRange('11:00am – 12:00am')).toEqual({ opens: 660, closes: 1440 });
+    expect(parseHoursRange('10:00am - 1:00am')).toEqual({ opens: 600, closes: 1500 });
+    expect(parseHoursRange('Closed')).toBeNull();
+  });
+
+  it('parses a whole week', () => {
+    const week = parseLocationHours(hours);
+    expect(week.monday).toBeNull();
+    expect(week.friday).toEqual({ opens: 660, closes: 1500 });
+    expect(Object.keys(week)).toHaveLength(7);
+  });
+
+  it('does calendar and clock arithmetic', () => {
+    expect(getWeekday('2024-07-05')).toBe('friday');
+    expect(getWeekday('2024-03-10')).toBe('sunday');
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(formatClockTime(1110)).toBe('6:30pm');
+    expect(formatClockTime(1440)).toBe('12:00am');
+    expect(formatClockTime(1500, { compact: true })).toBe('1am');
+    expect(formatClockTime(690, { compact: true })).toBe('11:30am');
+  });
+});
+
+describe('Vancouver time', () => {
+  it('reads the wall clock in summer and winter', () => {
+    const wallClock = (iso: string) => getZonedDateTime(at(iso));
+    expect(wallClock('2024-07-06T07:30:00Z')).toEqual({ date: '2024-07-06', minutes: 30 });
+    expect(wallClock('2024-01-06T08:30:00Z')).toEqual({ date: '2024-01-06', minutes: 30 });
+    // Midnight is 00:00, never 24:00
+    expect(wallClock('2024-07-06T07:00:00Z')).toEqual({ date: '2024-07-06', minutes: 0 });
+  });
+
+  it('turns wall-clock times back into instants', () => {
+    expect(zonedTimeToInstant('2024-07-05', 660)).toEqual(at('2024-07-05T18:00:00Z'));
+    expect(zonedTimeToInstant('2024-01-05', 660)).toEqual(at('2024-01-05T19:00:00Z'));
+    // Past midnight rolls into the next day
+    expect(zonedTimeToInstant('2024-07-05', 1500)).toEqual(at('2024-07-06T08:00:00Z'));
+  });
+
+  it('resolves DST gaps forward and overlaps to the first occurrence', () => {
+    // 2:30am doesn't exist on 2024-03-10; it becomes 3:30am PDT
+    expect(zonedTimeToInstant('2024-03-10', 150)).toEqual(at('2024-03-10T10:30:00Z'));
+    // 1:30am happens twice on 2024-11-03; the PDT one comes first
+    expect(zonedTimeToInstant('2024-11-03', 90)).toEqual(at('2024-11-03T08:30:00Z'));
+  });
+});
+
+describe('isOpenAt', () => {
+  it('stays open past midnight on the previous day’s hours', () => {
+    // Friday 11:00am – 1:00am, PDT
+    expect(isOpenAt(schedule, at('2024-07-06T06:59:00Z'))).toBe(true); // Fri 11:59pm
+    expect(isOpenAt(schedule, at('2024-07-06T07:00:00Z'))).toBe(true); // Sat 12:00am
+    expect(isOpenAt(schedule, at('2024-07-06T07:59:00Z'))).toBe(true); // Sat 12:59am
+    expect(isOpenAt(schedule, at('2024-07-06T08:00:00Z'))).toBe(false); // Sat 1:00am
+    expect(isOpenAt(schedule, at('2024-07-06T16:59:00Z'))).toBe(false); // Sat 9:59am
+    expect(isOpenAt(schedule, at('2024-07-06T17:00:00Z'))).toBe(true); // Sat 10:00am
+  });
+
+  it('closes at 11pm without spilling into a closed Monday', () => {
+    expect(isOpenAt(schedule, at('2024-07-08T05:59:00Z'))).toBe(true); // Sun 10:59pm
+    expect(isOpenAt(schedule, at('2024-07-08T06:00:00Z'))).toBe(false); // Sun 11:00pm
+    expect(isOpenAt(schedule, at('2024-07-08T07:30:00Z'))).toBe(false); // Mon 12:30am
+    expect(isOpenAt(schedule, at('2024-07-08T19:00:00Z'))).toBe(false); // Mon noon
+  });
+
+  it('follows the wall clock when clocks spring forward', () => {
+    // Saturday 2024-03-09 10am – 1am PST; Sunday opens 10am PDT
+    expect(isOpenAt(schedule, at('2024-03-10T08:59:00Z'))).toBe(true); // 12:59am PST
+    expect(isOpenAt(schedule, at('2024-03-10T09:00:00Z'))).toBe(false); // 1:00am PST
+    expect(isOpenAt(schedule, at('2024-03-10T16:59:00Z'))).toBe(false); // 9:59am PDT
+    expect(isOpenAt(schedule, at('2024-03-10T17:00:00Z'))).toBe(true); // 10:00am PDT
+  });
+
+  it('follows the wall clock when clocks fall back', () => {
+    // Saturday 2024-11-02 10am – 1am PDT; 1am comes round again in PST
+    expect(isOpenAt(schedule, at('2024-11-03T07:59:00Z'))).toBe(true); // 12:59am PDT
+    expect(isOpenAt(schedule, at('2024-11-03T08:00:00Z'))).toBe(false); // 1:00am PDT
+    expect(isOpenAt(schedule, at('2024-11-03T09:30:00Z'))).toBe(false); // 1:30am PST
+    expect(isOpenAt(schedule, at('2024-11-03T17:59:00Z'))).toBe(false); // 9:59am PST
+    expect(isOpenAt(schedule, at('2024-11-03T18:00:00Z'))).toBe(true); // 10:00am PST
+  });
+});
+
+describe('nextOpening and open status', () => {
+  it('finds the next opening across midnight, closed days and DST', () => {
+    expect(nextOpening(schedule, at('2024-07-06T08:00:00Z'))).toEqual(at('2024-07-06T17:00:00Z'));
+    // Sunday night → Monday closed → Tuesday 11:30am
+    expect(nextOpening(schedule, at('2024-07-08T06:30:00Z'))).toEqual(at('2024-07-09T18:30:00Z'));
+    expect(nextOpening(schedule, at('2024-03-10T09:00:00Z'))).toEqual(at('2024-03-10T17:00:00Z'));
+    expect(nextOpening(schedule, at('2024-11-03T08:00:00Z'))).toEqual(at('2024-11-03T18:00:00Z'));
+    // Open now → the following day's opening
+    expect(nextOpening(schedule, at('2024-07-05T20:00:00Z'))).toEqual(at('2024-07-06T17:00:00Z'));
+    expect(nextOpening({ hours: closedAllWeek }, at('2024-07-05T20:00:00Z'))).toBeNull();
+  });
+
+  it('reports closing instants on the right side of a DST change', () => {
+    // Saturday 11pm → closes 1am PST (spring) or 1am PDT (fall)
+    expect(getOpenStatus(schedule, at('2024-03-10T07:00:00Z'))).toEqual({
+      isOpen: true,
+      closesAt: at('2024-03-10T09:00:00Z'),
+      closes: 1500
+    });
+    expect(getOpenStatus(schedule, at('2024-11-03T06:00:00Z'))).toMatchObject({
+      isOpen: true,
+      closesAt: at('2024-11-03T08:00:00Z')
+    });
+  });
+
+  it('describes the status for badges', () => {
+    expect(describeOpenStatus(schedule, at('2024-07-06T07:30:00Z'))).toBe('Open now · closes 1am');
+    expect(describeOpenStatus(schedule, at('2024-07-05T20:00:00Z'))).toBe('Open now · closes 1am');
+    expect(describeOpenStatus(schedule, at('2024-07-06T08:30:00Z'))).toBe('Opens at 10am');
+    expect(describeOpenStatus(schedule, at('2024-07-08T19:00:00Z'))).toBe('Opens tomorrow at 11:30am');
+    expect(describeOpenStatus(schedule, at('2024-07-08T06:30:00Z'))).toBe('Opens Tuesday at 11:30am');
+    expect(describeOpenStatus({ hours: closedAllWeek }, at('2024-07-08T06:30:00Z'))).toBe('Closed');
+  });
+});
+
+describe('special hours', () => {
+  const holidays: LocationSchedule = {
+    hours,
+    specialHours: [
+      // Friday, usually 11am – 1am
+      { date: '2024-07-05', closed: true, note: 'Private event' },
+      // Saturday, usually 10am – 1am
+      { date: '2024-07-06', hours: '4:00pm – 2:00am', note: 'Festival' },
+      // Monday, usually closed
+      { date: '2024-07-01', hours: '12:00pm – 8:00pm', note: 'Canada Day' }
+    ]
+  };
+
+  it('replaces the weekly hours on their date', () => {
+    expect(getHoursOverride(holidays, '2024-07-05')).toMatchObject({ note: 'Private event' });
+    expect(getHoursOverride(holidays, '2024-07-12')).toBeUndefined();
+    expect(getHoursText(holidays, '2024-07-05')).toBe('Closed');
+    expect(getHoursText(holidays, '2024-07-12')).toBe('11:00am – 1:00am');
+    expect(getOpeningHours(holidays, '2024-07-01')).toEqual({ opens: 720, closes: 1200 });
+    expect(getOpeningHours(holidays, '2024-07-06')).toEqual({ opens: 960, closes: 1560 });
+  });
+
+  it('uses special hours for open now and the next opening', () => {
+    expect(isOpenAt(holidays, at('2024-07-01T20:00:00Z'))).toBe(true); // Mon 1pm
+    expect(isOpenAt(holidays, at('2024-07-05T20:00:00Z'))).toBe(false); // Fri 1pm
+    expect(isOpenAt(holidays, at('2024-07-06T17:00:00Z'))).toBe(false); // Sat 10am
+    expect(describeOpenStatus(holidays, at('2024-07-05T20:00:00Z'))).toBe('Opens tomorrow at 4pm');
+    expect(describeOpenStatus(holidays, at('2024-07-06T23:30:00Z'))).toBe(
+      'Open now · closes 2am'
+    );
+  });
+
+  it('keeps each night past midnight on its own day', () => {
+    // Thursday's usual 11pm close isn't extended, and a closed Friday doesn't cut it short
+    expect(isOpenAt(holidays, at('2024-07-05T05:59:00Z'))).toBe(true); // Thu 10:59pm
+    expect(isOpenAt(holidays, at('2024-07-05T06:00:00Z'))).toBe(false); // Thu 11:00pm
+    // Saturday's special 2am close runs into Sunday
+    expect(isOpenAt(holidays, at('2024-07-07T08:30:00Z'))).toBe(true); // Sun 1:30am
+    expect(isOpenAt(holidays, at('2024-07-07T09:00:00Z'))).toBe(false); // Sun 2:00am
+  });
+
+  it('lists upcoming special hours soonest first', () => {
+    const upcoming = getUpcomingOverrides(holidays, at('2024-07-02T19:00:00Z'), 7);
+    expect(upcoming.map((override) => override.date)).toEqual(['2024-07-05', '2024-07-06']);
+    expect(getUpcomingOverrides(holidays, at('2024-07-02T19:00:00Z'), 2)).toEqual([]);
+    expect(getUpcomingOverrides(schedule, at('2024-07-02T19:00:00Z'), 30)).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpStatusError,
+  NetworkError,
+  ParseError,
+  TimeoutError,
+  getRetryDelay,
+  httpGet,
+  httpPost,
+  isRetryableError,
+  parseRetryAfter
+} from '../../../src/lib/http';
+
+const jsonResponse = (data: unknown, status = 200, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(JSON.stringify(data))
+  }) as Response;
+
+// fetch stand-in that never resolves on its own, only rejects when aborted
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (init?.signal?.aborted) {
+      abort();
+    }
+    init?.signal?.addEventListener('abort', abort);
+  });
+
+describe('http', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('merges caller headers with the JSON Accept header', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve([]) } as Response);
+
+    await httpGet('/menu.json', { headers: { 'X-Trace': 'abc' } });
+
+    expect(fetchSpy.mock.calls[0][1]?.headers).toEqual({
+      Accept: 'application/json',
+      'X-Trace': 'abc'
+    });
+  });
+
+  it('aborts requests that exceed the timeout', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(global, 'fetch').mockImplementation(hangingFetch);
+
+    const pending = httpGet('/slow', { timeoutMs: 50 });
+    const assertion = expect(pending).rejects.toThrow('Request to /slow timed out after 50ms');
+    await vi.advanceTimersByTimeAsync(50);
+
+    await assertion;
+    await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('forwards caller cancellation to fetch', async () => {
+    vi.spyOn(global, 'fetch').mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const pending = httpGet('/slow', { signal: controller.signal, timeoutMs: 5000 });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Aborted');
+  });
+
+  it('keeps the timeout and cancellation running while the body is read', async () => {
+    vi.useFakeTimers();
+    // Headers arrive, then the body stalls
+    const stalledBody = {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => new Promise(() => {})
+    } as Response;
+    vi.spyOn(global, 'fetch').mockResolvedValue(stalledBody);
+
+    const timedOut = httpGet('/stalled', { timeoutMs: 50 });
+    const assertion = expect(timedOut).rejects.toBeInstanceOf(TimeoutError);
+    await vi.advanceTimersByTimeAsync(50);
+    await assertion;
+
+    const controller = new AbortController();
+    const cancelled = httpGet('/stalled', { signal: controller.signal, timeoutMs: 5000 });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new DOMException('Aborted', 'AbortError'));
+    await expect(cancelled).rejects.toThrow('Aborted');
+    await expect(cancelled).rejects.not.toBeInstanceOf(TimeoutError);
+  });
+
+  it('raises typed errors that carry the URL, status and body', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(jsonResponse({ error: 'gone' }, 404));
+
+    const error = await httpGet('/bbqs').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toMatchObject({
+      kind: 'status',
+      url: '/bbqs',
+      method: 'GET',
+      status: 404,
+      body: '{"error":"gone"}',
+      retryable: false
+    });
+  });
+
+  it('wraps fetch failures and unreadable bodies', async () => {
+    vi.spyOn(global, 'fetch')
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.reject(new SyntaxError('Unexpected token <'))
+      } as Response);
+
+    await expect(httpGet('/drinks')).rejects.toBeInstanceOf(NetworkError);
+    await expect(httpGet('/drinks')).rejects.toBeInstanceOf(ParseError);
+  });
+
+  it('retries retryable failures and honours Retry-After', async () => {
+    vi.useFakeTimers();
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(jsonResponse({}, 503, { 'Retry-After': '1' }))
+      .mockResolvedValueOnce(jsonResponse(['ok']));
+
+    const pending = httpGet<string[]>('/burgers', { retry: { retries: 2 } });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual(['ok']);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that will not clear up on their own', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(jsonResponse({}, 404));
+
+    await expect(httpGet('/pizza', { retry: { retries: 3 } })).rejects.toBeInstanceOf(
+      HttpStatusError
+    );
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends JSON bodies with httpPost', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(jsonResponse({ id: 'r-1' }, 201));
+
+    await expect(httpPost('/reservations', { partySize: 4 })).resolves.toEqual({ id: 'r-1' });
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      body: '{"partySize":4}',
+      headers: { 'Content-Type': 'application/json' }
+    });
+  });
+
+  it('computes jittered exponential backoff and parses Retry-After', () => {
+    const policy = { retries: 3, baseDelayMs: 300, maxDelayMs: 1000 };
+
+    expect(getRetryDelay(new Error('x'), 0, policy, () => 0.5)).toBe(225);
+    expect(getRetryDelay(new Error('x'), 1, policy, () => 0)).toBe(300);
+    expect(getRetryDelay(new Error('x'), 5, policy, () => 1)).toBe(1000);
+
+    const throttled = new HttpStatusError('/bbqs', 'GET', 429, '', 5000);
+    expect(getRetryDelay(throttled, 0, policy)).toBeUndefined();
+
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('2026-10-21T07:28:00Z'))).toBe(
+      10000
+    );
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(isRetryableError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composeMenu,
+  hasSubstitutes,
+  usesLoadedData
+} from '../../../src/services/menu.composition';
+import type { Category, MenuCompositionStrategy, MenuItem, MenuLoadResult } from '../../../src/lib/types';
+
+const item = (id: string, category: Category): MenuItem => ({
+  id,
+  title: id,
+  description: '',
+  price: 10,
+  category
+});
+
+const curated = [item('house-burger', 'burgers'), item('house-spritz', 'cocktails')];
+
+const strategies: Record<Category, MenuCompositionStrategy> = {
+  burgers: 'remote',
+  sandwiches: 'remote',
+  sides: 'remote',
+  cocktails: 'curated',
+  beverages: 'remote',
+  desserts: 'merge',
+  mains: 'remote'
+};
+
+const compose = (result: MenuLoadResult | undefined, substituteMissing = true) =>
+  composeMenu(result, { substituteMissing, strategies, curated });
+
+describe('composeMenu', () => {
+  it('stamps loaded items with their source and ignores them for curated categories', () => {
+    const result: MenuLoadResult = {
+      items: [item('api-burger', 'burgers'), item('api-margarita', 'cocktails')],
+      categories: {
+        burgers: { state: 'ok', source: 'static', itemCount: 1 },
+        cocktails: { state: 'ok', source: 'static', itemCount: 1 }
+      },
+      rejections: []
+    };
+
+    expect(compose(result).map(({ id, provenance }) => [id, provenance])).toEqual([
+      ['api-burger', { source: 'static', role: 'primary' }],
+      ['house-spritz', { source: 'curated', role: 'primary' }]
+    ]);
+  });
+
+  it('substitutes curated dishes for a failed category once loading settles', () => {
+    const result: MenuLoadResult = {
+      items: [item('api-cake', 'desserts')],
+      categories: {
+        burgers: { state: 'failed', source: 'remote', itemCount: 0, reason: 'timeout' },
+        desserts: { state: 'ok', source: 'remote', itemCount: 1 }
+      },
+      rejections: []
+    };
+
+    const composed = compose(result);
+    expect(composed.find((entry) => entry.id === 'house-burger')?.provenance).toEqual({
+      source: 'curated',
+      role: 'substitute'
+    });
+    expect(hasSubstitutes(composed)).toBe(true);
+    expect(hasSubstitutes(compose(result, false))).toBe(false);
+  });
+
+  it('keeps a legitimately empty category empty', () => {
+    const result: MenuLoadResult = {
+      items: [item('api-cake', 'desserts')],
+      categories: {
+        burgers: { state: 'ok', source: 'remote', itemCount: 0 },
+        desserts: { state: 'ok', source: 'remote', itemCount: 1 }
+      },
+      rejections: []
+    };
+
+    expect(compose(result).some((entry) => entry.category === 'burgers')).toBe(false);
+  });
+
+  it('shows only curated categories while loading and everything curated after a failed load', () => {
+    expect(compose(undefined, false).map((entry) => entry.id)).toEqual(['house-spritz']);
+    expect(compose(undefined).map((entry) => entry.id)).toEqual(['house-burger', 'house-spritz']);
+  });
+
+  it('merges curated dishes ahead of loaded items without duplicates', () => {
+    const mergeCurated = [...curated, item('house-torte', 'desserts')];
+    const result: MenuLoadResult = {
+      items: [item('api-cake', 'desserts'), item('house-torte', 'desserts')],
+      categories: { desserts: { state: 'ok', source: 'remote', itemCount: 2 } },
+      rejections: []
+    };
+
+    const desserts = composeMenu(result, { substituteMissing: true, strategies, curated: mergeCurated })
+      .filter((entry) => entry.category === 'desserts');
+
+    expect(desserts.map(({ id, provenance }) => [id, provenance?.source])).toEqual([
+      ['house-torte', 'curated'],
+      ['api-cake', 'remote']
+    ]);
+  });
+});
+
+describe('usesLoadedData', () => {
+  it('skips categories served only from curated dishes', () => {
+    expect(usesLoadedData('cocktails', strategies)).toBe(false);
+    expect(usesLoadedData('desserts', strategies)).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuItem } from '../../../src/lib/types';
+import { createLocalMenuQueryService } from '../../../src/services/menu.query';
+
+const items: MenuItem[] = [
+  {
+    id: 'burger',
+    title: 'Seawall Burger',
+    description: 'Smoked cheddar and onion jam',
+    price: 23,
+    category: 'burgers',
+    tags: ['Certified Angus']
+  },
+  {
+    id: 'fries',
+    title: 'Sea Salt Fries',
+    description: 'Hand cut, smoked aioli',
+    price: 11,
+    category: 'sides',
+    tags: ['Share Plate', 'Vegetarian'],
+    dietary: ['vegetarian']
+  },
+  {
+    id: 'broccolini',
+    title: 'Charred Broccolini',
+    description: 'Chili crisp and lemon',
+    price: 16,
+    category: 'sides',
+    tags: ['Vegetarian', 'Share Plate'],
+    dietary: ['vegetarian']
+  },
+  {
+    id: 'oysters',
+    title: 'Fanny Bay Oysters',
+    description: 'Mignonette',
+    price: null,
+    category: 'mains',
+    tags: ['Share Plate']
+  }
+];
+
+describe('createLocalMenuQueryService', () => {
+  const service = createLocalMenuQueryService(items);
+
+  it('walks the results one cursor at a time', async () => {
+    const first = await service.query({ filters: {}, sort: ['price_asc'], limit: 2 });
+
+    expect(first.items.map((item) => item.id)).toEqual(['fries', 'broccolini']);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await service.query({
+      filters: {},
+      sort: ['price_asc'],
+      limit: 2,
+      cursor: first.nextCursor
+    });
+
+    expect(second.items.map((item) => item.id)).toEqual(['burger', 'oysters']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('counts facets over the whole result set rather than the page', async () => {
+    const result = await service.query({ filters: { category: 'sides' }, limit: 1 });
+
+    expect(result.items).toHaveLength(1);
+    expect(result.total).toBe(2);
+    expect(result.facets.categories).toMatchObject({ burgers: 1, sides: 2, mains: 1 });
+    expect(result.facets.dietary.vegetarian).toBe(2);
+  });
+
+  it('applies filter tokens from the search text and ranks by relevance', async () => {
+    const result = await service.query({ filters: { search: 'tag:vegetarian smoked' }, limit: 9 });
+
+    expect(result.items.map((item) => item.id)).toEqual(['fries']);
+    expect(result.highlights).toEqual({ fries: ['smoked'] });
+  });
+
+  it('rejects a cursor it did not issue', async () => {
+    await expect(service.query({ filters: {}, limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow(
+      /invalid menu cursor/i
+    );
+  });
+
+  it('looks up single dishes by id', async () => {
+    await expect(service.getItem('broccolini')).resolves.toMatchObject({ title: 'Charred Broccolini' });
+    await expect(service.getItem('missing')).resolves.toBeNull();
+  });
+
+  it('stops when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      service.query({ filters: {}, limit: 2 }, { signal: controller.signal })
+    ).rejects.toBeDefined();
+  });
+});
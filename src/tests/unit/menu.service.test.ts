@@ -1,5 +1,10 @@
 import { describe, expect, it, vi, afterEach } from 'vitest';
-import { fetchMenuItems } from '../../../src/services/menu.service';
+import {
+  fetchMenuCategories,
+  fetchMenuItems,
+  mergeMenuLoadResults
+} from '../../../src/services/menu.service';
+import { clearPayloadCache } from '../../../src/services/payload.cache';
 
 const mockResponse = (data: unknown, ok = true, status = 200) =>
   Promise.resolve({
@@ -11,6 +16,7 @@ const mockResponse = (data: unknown, ok = true, status = 200) =>
 describe('menu.service', () => {
   afterEach(() => {
     vi.restoreAllMocks();
+    clearPayloadCache();
   });
 
   it('normalizes raw menu items and filters into curated categories', async () => {
@@ -21,7 +27,9 @@ describe('menu.service', () => {
           name: 'Smoky Harbor Burger',
           dsc: 'Smoky Harbor Burger',
           price: '$24.50',
-          img: 'https://example.com/burger.jpg'
+          img: 'https://example.com/burger.jpg',
+          rate: '4.56',
+          country: '  Austin,TX '
         }
       ],
       '/drinks': [
@@ -52,18 +60,22 @@ describe('menu.service', () => {
       return mockResponse(payload);
     });
 
-    const result = await fetchMenuItems('all');
+    const { items: result, categories } = await fetchMenuItems('all');
 
     expect(new Set(requestedPaths)).toEqual(
       new Set(['/burgers', '/sandwiches', '/fried-chicken', '/drinks', '/desserts', '/steaks', '/bbqs', '/porks', '/chocolates', '/ice-cream'])
     );
+    // Shared endpoints (/bbqs, /drinks, /porks) are downloaded once per call
+    expect(requestedPaths).toHaveLength(new Set(requestedPaths).size);
 
     expect(result).toHaveLength(3);
     expect(result[0]).toMatchObject({
       id: '1',
       category: 'burgers',
       price: 24.5,
-      imageUrl: 'https://example.com/burger.jpg'
+      imageUrl: 'https://example.com/burger.jpg',
+      rating: 4.6,
+      origin: 'Austin, TX'
     });
     expect(result[1]).toMatchObject({
       id: '2',
@@ -76,6 +88,90 @@ describe('menu.service', () => {
       category: 'mains',
       price: null
     });
+    expect(result[2].rating).toBeUndefined();
+    expect(result[2].origin).toBeUndefined();
+
+    // Empty categories are reported as loaded, not as failures
+    expect(categories.burgers).toEqual({ state: 'ok', source: 'remote', itemCount: 1 });
+    expect(categories.desserts).toEqual({ state: 'ok', source: 'remote', itemCount: 0 });
+  });
+
+  it('keeps valid items and reports malformed ones per endpoint', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(global, 'fetch').mockImplementation((input) => {
+      const url = String(input);
+      if (url.endsWith('/drinks')) {
+        return mockResponse([
+          { id: 1, dsc: 'Iced Coffee', price: 5 },
+          { name: 'Mystery Margarita', price: 12 },
+          { id: 3, dsc: 'Classic Margarita', price: { amount: 14 } },
+          { id: 4, dsc: 'Spicy Margarita', price: 15 }
+        ]);
+      }
+      return mockResponse([]);
+    });
+
+    const { items, categories, rejections } = await fetchMenuCategories([
+      'cocktails',
+      'beverages'
+    ]);
+
+    expect(items.map((item) => item.title)).toEqual(['Spicy Margarita', 'Iced Coffee']);
+    expect(categories.cocktails).toMatchObject({ state: 'ok', itemCount: 1 });
+
+    // /drinks feeds two categories but its rejections are reported once
+    expect(rejections).toHaveLength(2);
+    expect(rejections[0]).toMatchObject({ endpoint: '/drinks', index: 1, itemId: undefined });
+    expect(rejections[0].issues[0].path).toEqual(['id']);
+    expect(rejections[1]).toMatchObject({ endpoint: '/drinks', index: 2, itemId: '3' });
+    expect(rejections[1].issues[0].path).toEqual(['price']);
+  });
+
+  it('reports partial and failed categories instead of swallowing them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(global, 'fetch').mockImplementation((input) => {
+      const url = String(input);
+      if (url.endsWith('/bbqs') || url.endsWith('/drinks')) {
+        return mockResponse({}, false, 404);
+      }
+      return mockResponse([{ id: url, dsc: 'Club Sandwich', price: 14 }]);
+    });
+
+    const { categories } = await fetchMenuCategories(['sandwiches', 'beverages', 'burgers']);
+
+    expect(categories.sandwiches).toMatchObject({
+      state: 'partial',
+      itemCount: 1,
+      failedEndpoints: ['/bbqs'],
+      reason: 'the menu could not be found (404)'
+    });
+    expect(categories.beverages).toMatchObject({ state: 'failed', itemCount: 0 });
+    expect(categories.burgers).toMatchObject({ state: 'ok', itemCount: 0 });
+  });
+
+  it('merges a retry of degraded categories into the previous result', () => {
+    const merged = mergeMenuLoadResults(
+      {
+        items: [
+          { id: 'b1', title: 'Smash Burger', description: '', price: 18, category: 'burgers' },
+          { id: 'd1', title: 'Brownie', description: '', price: 9, category: 'desserts' }
+        ],
+        categories: {
+          burgers: { state: 'ok', source: 'remote', itemCount: 1 },
+          sides: { state: 'failed', source: 'remote', itemCount: 0, reason: 'offline' }
+        },
+        rejections: []
+      },
+      {
+        items: [{ id: 's1', title: 'Fries', description: '', price: 7, category: 'sides' }],
+        categories: { sides: { state: 'ok', source: 'remote', itemCount: 1 } },
+        rejections: []
+      }
+    );
+
+    expect(merged.items.map((item) => item.id)).toEqual(['b1', 's1', 'd1']);
+    expect(merged.categories.sides).toEqual({ state: 'ok', source: 'remote', itemCount: 1 });
+    expect(merged.categories.burgers?.state).toBe('ok');
   });
 
   it('throws when the payload fails validation', async () => {
@@ -88,8 +184,62 @@ describe('menu.service', () => {
     });
 
     await expect(fetchMenuItems('burgers')).rejects.toThrow(
-      'Failed to validate menu response for burgers'
+      'Failed to validate menu response for /burgers'
+    );
+  });
+
+  it('reuses cached payloads across calls within the TTL', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockImplementation(() =>
+      mockResponse([{ id: 1, dsc: 'Smash Burger', price: 18 }])
+    );
+
+    await fetchMenuItems('burgers');
+    await fetchMenuItems('burgers');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    clearPayloadCache();
+    await fetchMenuItems('burgers');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches endpoints concurrently without exceeding the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    vi.spyOn(global, 'fetch').mockImplementation(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return mockResponse([{ id: 1, dsc: 'Smash Burger', price: 18 }]);
+    });
+
+    await fetchMenuItems('all');
+
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(maxInFlight).toBeLessThanOrEqual(4);
+  });
+
+  it('cancels in-flight requests when the React Query signal aborts', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(global, 'fetch').mockImplementation(
+      (_input, init) =>
+        new Promise<Response>((_resolve, reject) => {
+          if (init?.signal?.aborted) {
+            reject(init.signal.reason);
+          }
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
     );
+
+    const controller = new AbortController();
+    const pending = fetchMenuItems({ queryKey: ['menu-items'], signal: controller.signal });
+    controller.abort(new DOMException('Navigated away', 'AbortError'));
+
+    await expect(pending).rejects.toThrow('Navigated away');
+    expect(warnSpy).not.toHaveBeenCalled();
   });
 
   it('throws on non-200 responses', async () => {
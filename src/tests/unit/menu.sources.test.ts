@@ -0,0 +1,109 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { getMenuSource, isMenuSourceId } from '../../../src/services/sources/menu.source';
+import { fallbackMenuSource } from '../../../src/services/sources/fallback.source';
+import { staticMenuSource } from '../../../src/services/sources/static.source';
+import { createPayloadCache } from '../../../src/services/payload.cache';
+import { createLimiter } from '../../../src/lib/concurrency';
+import { FALLBACK_MENU_ITEMS } from '../../../src/lib/fallback-menu';
+
+const mockResponse = (data: unknown, ok = true, status = 200) =>
+  Promise.resolve({
+    ok,
+    status,
+    json: () => Promise.resolve(data)
+  } as Response);
+
+const createContext = () => ({
+  payloads: createPayloadCache(Number.POSITIVE_INFINITY),
+  limit: createLimiter(4),
+  timeoutMs: 1000,
+  retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  rejections: new Map()
+});
+
+describe('menu sources', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves configured sources and falls back to remote for unknown ids', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(isMenuSourceId('static')).toBe(true);
+    expect(isMenuSourceId('cms')).toBe(false);
+    expect(getMenuSource('static').id).toBe('static');
+    expect(getMenuSource('fallback').id).toBe('fallback');
+    expect(getMenuSource('cms').id).toBe('remote');
+  });
+
+  it('serves fallback items for the requested category only', async () => {
+    const { items: cocktails, failures } = await fallbackMenuSource.fetchCategory(
+      'cocktails',
+      createContext()
+    );
+
+    expect(cocktails.length).toBeGreaterThan(0);
+    expect(cocktails.every((item) => item.category === 'cocktails')).toBe(true);
+    expect(cocktails).toEqual(FALLBACK_MENU_ITEMS.filter((item) => item.category === 'cocktails'));
+    expect(failures).toEqual([]);
+  });
+
+  it('reads the static menu file and filters by category', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockImplementation(() =>
+      mockResponse({
+        version: 1,
+        items: [
+          { id: 'k-1', title: 'Seawall Burger', description: 'Brioche.', price: 23, category: 'burgers' },
+          { id: 'k-2', title: 'Coastal Lemonade', description: 'Yuzu.', price: null, category: 'beverages' }
+        ]
+      })
+    );
+
+    const context = createContext();
+    const { items: burgers } = await staticMenuSource.fetchCategory('burgers', context);
+    const { items: beverages } = await staticMenuSource.fetchCategory('beverages', context);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy).toHaveBeenCalledWith('/menu.json', expect.anything());
+    expect(beverages).toHaveLength(1);
+    expect(burgers).toEqual([
+      { id: 'k-1', title: 'Seawall Burger', description: 'Brioche.', price: 23, category: 'burgers' }
+    ]);
+  });
+
+  it('drops malformed static entries and reports them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(global, 'fetch').mockImplementation(() =>
+      mockResponse({
+        version: 1,
+        items: [
+          { id: 'k-1', title: 'Seawall Burger', description: 'Brioche.', price: 23, category: 'burgers' },
+          { id: 'k-2', title: 'Pizza', description: 'Nope.', price: 12, category: 'pizza' }
+        ]
+      })
+    );
+
+    const context = createContext();
+    const { items } = await staticMenuSource.fetchCategory('burgers', context);
+
+    expect(items.map((item) => item.id)).toEqual(['k-1']);
+    expect(context.rejections.get('/menu.json')).toEqual([
+      expect.objectContaining({
+        endpoint: '/menu.json',
+        index: 1,
+        itemId: 'k-2',
+        issues: [expect.objectContaining({ path: ['category'] })]
+      })
+    ]);
+  });
+
+  it('rejects a static menu file that fails validation', async () => {
+    vi.spyOn(global, 'fetch').mockImplementation(() =>
+      mockResponse({ version: 2, items: [] })
+    );
+
+    await expect(staticMenuSource.fetchCategory('burgers', createContext())).rejects.toThrow(
+      'Failed to validate static menu file /menu.json'
+    );
+  });
+});
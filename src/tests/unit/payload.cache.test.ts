@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  clearPayloadCache,
+  createPayloadCache,
+  createRequestPayloadCache
+} from '../../../src/services/payload.cache';
+
+describe('payload.cache', () => {
+  it('shares in-flight and resolved payloads until the TTL expires', async () => {
+    let now = 0;
+    const cache = createPayloadCache(1000, () => now);
+    const load = vi.fn(() => Promise.resolve(['payload']));
+
+    await Promise.all([cache.get('/drinks', load), cache.get('/drinks', load)]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now = 999;
+    await cache.get('/drinks', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await cache.get('/drinks', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep entries when the TTL is zero', async () => {
+    const cache = createPayloadCache(0);
+    const load = vi.fn(() => Promise.resolve('payload'));
+
+    await cache.get('/bbqs', load);
+    await cache.get('/bbqs', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts failed loads so the next call retries', async () => {
+    const cache = createPayloadCache(1000);
+    const load = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('payload');
+
+    await expect(cache.get('/bbqs', load)).rejects.toThrow('offline');
+    await expect(cache.get('/bbqs', load)).resolves.toBe('payload');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  describe('cancellation', () => {
+    // A load that only settles when told to, or rejects when its signal aborts
+    const deferredLoad = () => {
+      let resolve: (value: string) => void = () => {};
+      const signals: AbortSignal[] = [];
+      const load = vi.fn(
+        (signal: AbortSignal) =>
+          new Promise<string>((done, fail) => {
+            signals.push(signal);
+            resolve = done;
+            signal.addEventListener('abort', () => fail(signal.reason));
+          })
+      );
+      return { load, signals, resolve: (value: string) => resolve(value) };
+    };
+
+    it('keeps serving call B when call A aborts while both wait', async () => {
+      const cache = createPayloadCache(1000);
+      const { load, signals, resolve } = deferredLoad();
+      const callerA = new AbortController();
+      const callerB = new AbortController();
+
+      const a = cache.get('/bbqs', load, { signal: callerA.signal });
+      const b = cache.get('/bbqs', load, { signal: callerB.signal });
+      callerA.abort(new DOMException('Left /menu', 'AbortError'));
+
+      await expect(a).rejects.toThrow('Left /menu');
+      expect(signals[0].aborted).toBe(false);
+
+      resolve('payload');
+      await expect(b).resolves.toBe('payload');
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts the shared load once every caller has aborted', async () => {
+      const cache = createPayloadCache(1000);
+      const { load, signals } = deferredLoad();
+      const callerA = new AbortController();
+      const callerB = new AbortController();
+
+      const a = cache.get('/bbqs', load, { signal: callerA.signal });
+      const b = cache.get('/bbqs', load, { signal: callerB.signal });
+      callerA.abort();
+      expect(signals[0].aborted).toBe(false);
+      callerB.abort();
+
+      await expect(a).rejects.toThrow();
+      await expect(b).rejects.toThrow();
+      expect(signals[0].aborted).toBe(true);
+
+      // The aborted load isn't replayed to the next caller
+      const next = deferredLoad();
+      const c = cache.get('/bbqs', next.load);
+      next.resolve('fresh');
+      await expect(c).resolves.toBe('fresh');
+    });
+
+    it('applies across request caches layered over the session cache', async () => {
+      const { load, signals, resolve } = deferredLoad();
+      const callerA = new AbortController();
+
+      const a = createRequestPayloadCache().get('/cancel-test', load, { signal: callerA.signal });
+      const b = createRequestPayloadCache().get('/cancel-test', load, {
+        signal: new AbortController().signal
+      });
+      callerA.abort();
+
+      await expect(a).rejects.toThrow();
+      expect(signals[0].aborted).toBe(false);
+      resolve('payload');
+      await expect(b).resolves.toBe('payload');
+      expect(load).toHaveBeenCalledTimes(1);
+      clearPayloadCache();
+    });
+  });
+});
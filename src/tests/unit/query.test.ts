@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { formatMenuQuery, parseMenuQuery } from '../../../src/lib/query';
+
+describe('parseMenuQuery', () => {
+  it('splits filter tokens from free text', () => {
+    expect(parseMenuQuery('tag:vegetarian price:<20 category:sides smoked')).toEqual({
+      filters: { tags: ['vegetarian'], maxPrice: 19.99, category: 'sides' },
+      text: 'smoked',
+      errors: []
+    });
+  });
+
+  it('treats plain text as search text', () => {
+    expect(parseMenuQuery('seawall burger')).toEqual({
+      filters: {},
+      text: 'seawall burger',
+      errors: []
+    });
+  });
+
+  it('accepts quoted values and category labels', () => {
+    const { filters, text } = parseMenuQuery(
+      'category:"Chef Specials" tag:"Share Plate" origin:"Austin, TX" "cedar salmon"'
+    );
+
+    expect(filters).toEqual({
+      category: 'mains',
+      tags: ['share plate'],
+      origin: 'Austin, TX'
+    });
+    expect(text).toBe('cedar salmon');
+  });
+
+  it('reads price comparisons and ranges as inclusive bounds', () => {
+    expect(parseMenuQuery('price:<=20').filters).toEqual({ maxPrice: 20 });
+    expect(parseMenuQuery('price:>10').filters).toEqual({ minPrice: 10.01 });
+    expect(parseMenuQuery('price:$10-$20').filters).toEqual({ minPrice: 10, maxPrice: 20 });
+    expect(parseMenuQuery('price:15').filters).toEqual({ minPrice: 15, maxPrice: 15 });
+    // Repeated bounds narrow each other
+    expect(parseMenuQuery('price:>=10 price:<30 price:<=25').filters).toEqual({
+      minPrice: 10,
+      maxPrice: 25
+    });
+  });
+
+  it('maps diet, avoid and rating filters onto typed values', () => {
+    expect(parseMenuQuery('diet:vegan diet:"Zero Proof" avoid:Shellfish rating:>=4.5').filters).toEqual({
+      dietary: ['vegan', 'alcohol-free'],
+      excludeAllergens: ['shellfish'],
+      minRating: 4.5
+    });
+  });
+
+  it('reports bad tokens and ignores them', () => {
+    const { filters, text, errors } = parseMenuQuery(
+      'colour:red price:<cheap category:brunch diet: fries'
+    );
+
+    expect(filters).toEqual({});
+    expect(text).toBe('fries');
+    expect(errors.map((error) => error.token)).toEqual([
+      'colour:red',
+      'price:<cheap',
+      'category:brunch',
+      'diet:'
+    ]);
+    expect(errors[1].message).toContain('price:<20');
+  });
+
+  it('rejects conflicting categories', () => {
+    const { filters, errors } = parseMenuQuery('category:burgers category:sides');
+
+    expect(filters.category).toBe('burgers');
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('formatMenuQuery', () => {
+  it('writes a canonical query that parses back to the same filters', () => {
+    const parsed = parseMenuQuery('smoked  price:<20 tag:"Share Plate" category:shareables');
+    const formatted = formatMenuQuery(parsed);
+
+    expect(formatted).toBe('category:sides tag:"share plate" price:<=19.99 smoked');
+    expect(parseMenuQuery(formatted)).toEqual(parsed);
+  });
+
+  it('round-trips every filter kind', () => {
+    const parsed = parseMenuQuery(
+      'diet:vegan avoid:tree-nuts origin:"Austin, TX" price:10-20 rating:4 oyster'
+    );
+
+    expect(parseMenuQuery(formatMenuQuery(parsed))).toEqual(parsed);
+  });
+});
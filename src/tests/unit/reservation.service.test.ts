@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { LOCATIONS } from '../../../src/lib/constants';
+import {
+  createLocalReservationService,
+  RESERVATIONS_STORAGE_KEY,
+  ReservationValidationError,
+  SlotUnavailableError
+} from '../../../src/services/reservation.service';
+
+// Coal Harbour, Friday 2024-07-05 (11:00am – 1:00am); "now" is the Monday before
+const locationId = LOCATIONS[0].id;
+const date = '2024-07-05';
+const now = () => new Date(2024, 6, 1, 12, 0);
+
+const request = {
+  locationId,
+  date,
+  time: '18:30',
+  partySize: 4,
+  name: 'Alex Chen',
+  email: 'alex@example.com'
+};
+
+describe('createLocalReservationService', () => {
+  it('lists seating times and books one', async () => {
+    const service = createLocalReservationService({ storage: null, now });
+
+    const slots = await service.getAvailability({ locationId, date, partySize: 2 });
+    expect(slots[0]).toEqual({ time: '11:00', available: true });
+    expect(slots.map((slot) => slot.time)).toContain('18:30');
+
+    const reservation = await service.book(request);
+    expect(reservation).toMatchObject({ ...request, createdAt: now().toISOString() });
+    expect(reservation.id).toMatch(/^CC-[A-Z0-9]{6}$/);
+  });
+
+  it('marks a seating unavailable once the party no longer fits', async () => {
+    const service = createLocalReservationService({ storage: null, now, seatsPerSlot: 6 });
+    await service.book(request);
+
+    const slot = async (partySize: number) =>
+      (await service.getAvailability({ locationId, date, partySize })).find(
+        (candidate) => candidate.time === '18:30'
+      );
+    expect(await slot(2)).toEqual({ time: '18:30', available: true });
+    expect(await slot(3)).toEqual({ time: '18:30', available: false });
+
+    await expect(service.book({ ...request, partySize: 3 })).rejects.toBeInstanceOf(
+      SlotUnavailableError
+    );
+  });
+
+  it('rejects invalid details and times that are not seatings', async () => {
+    const service = createLocalReservationService({ storage: null, now });
+
+    await expect(service.book({ ...request, email: 'alex' })).rejects.toMatchObject({
+      issues: [expect.objectContaining({ path: ['email'] })]
+    });
+
+    const error = await service.book({ ...request, time: '18:45' }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ReservationValidationError);
+    expect(error.issues[0].path).toEqual(['time']);
+  });
+
+  it('rejects dates past the booking window', async () => {
+    const service = createLocalReservationService({ storage: null, now, bookingWindowDays: 4 });
+    const lastDate = '2024-07-05';
+    const tooFar = '2024-07-06';
+
+    const slots = await service.getAvailability({ locationId, date: lastDate, partySize: 2 });
+    expect(slots).not.toHaveLength(0);
+    expect(await service.book({ ...request, date: lastDate })).toMatchObject({ date: lastDate });
+
+    const availabilityError = await service
+      .getAvailability({ locationId, date: tooFar, partySize: 2 })
+      .catch((caught) => caught);
+    expect(availabilityError).toBeInstanceOf(ReservationValidationError);
+    expect(availabilityError.issues[0].path).toEqual(['date']);
+
+    const bookingError = await service.book({ ...request, date: tooFar }).catch((caught) => caught);
+    expect(bookingError).toBeInstanceOf(ReservationValidationError);
+    expect(bookingError.issues[0].path).toEqual(['date']);
+  });
+
+  it('keeps bookings in the given storage', async () => {
+    const store = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => void store.set(key, value)
+    };
+
+    await createLocalReservationService({ storage, now }).book(request);
+
+    const reopened = createLocalReservationService({ storage, now, seatsPerSlot: 4 });
+    const slots = await reopened.getAvailability({ locationId, date, partySize: 1 });
+    expect(slots.find((slot) => slot.time === '18:30')?.available).toBe(false);
+    expect(JSON.parse(store.get(RESERVATIONS_STORAGE_KEY) ?? '[]')).toHaveLength(1);
+  });
+});
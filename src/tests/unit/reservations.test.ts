@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { LOCATIONS } from '../../../src/lib/constants';
+import {
+  formatReservationDate,
+  formatSeatingTime,
+  getReservationFieldErrors,
+  getSeatingTimes,
+  ReservationRequestSchema
+} from '../../../src/lib/reservations';
+import type { Location } from '../../../src/lib/types';
+
+const location: Location = {
+  ...LOCATIONS[0],
+  hours: {
+    monday: 'Closed',
+    tuesday: '5:00pm – 9:00pm',
+    wednesday: '5:15pm – 9:00pm',
+    thursday: '11:00am – 11:00pm',
+    friday: '11:00am – 1:00am',
+    saturday: '10:00am – 1:00am',
+    sunday: '10:00am – 11:00pm'
+  }
+};
+
+describe('getSeatingTimes', () => {
+  it('seats every interval from opening until the last seating', () => {
+    // Tuesday 2024-07-02: 5pm – 9pm, last seating an hour before close
+    expect(getSeatingTimes(location, '2024-07-02')).toEqual([
+      '17:00',
+      '17:30',
+      '18:00',
+      '18:30',
+      '19:00',
+      '19:30',
+      '20:00'
+    ]);
+    expect(
+      getSeatingTimes(location, '2024-07-02', { intervalMinutes: 60, lastSeatingMinutes: 90 })
+    ).toEqual(['17:00', '18:00', '19:00']);
+  });
+
+  it('starts on an interval boundary and stops at midnight', () => {
+    expect(getSeatingTimes(location, '2024-07-03')[0]).toBe('17:30');
+    // Friday closes at 1am; seatings after midnight are walk-in only
+    expect(getSeatingTimes(location, '2024-07-05').at(-1)).toBe('23:30');
+  });
+
+  it('formats seating times and dates for guests', () => {
+    expect(formatSeatingTime('18:30')).toBe('6:30pm');
+    expect(formatSeatingTime('09:05')).toBe('9:05am');
+    expect(formatReservationDate('2024-07-05')).toBe('Friday, July 5');
+  });
+
+  it('has nothing on closed days, past dates or after the last seating today', () => {
+    expect(getSeatingTimes(location, '2024-07-01')).toEqual([]);
+
+    // 6:10pm in Vancouver on Tuesday, July 2
+    const now = new Date('2024-07-03T01:10:00Z');
+    expect(getSeatingTimes(location, '2024-06-30', { now })).toEqual([]);
+    expect(getSeatingTimes(location, '2024-07-02', { now })).toEqual([
+      '18:30',
+      '19:00',
+      '19:30',
+      '20:00'
+    ]);
+    const afterLastSeating = new Date('2024-07-03T03:00:00Z');
+    expect(getSeatingTimes(location, '2024-07-02', { now: afterLastSeating })).toEqual([]);
+    // Still Tuesday in Vancouver although it's Wednesday in UTC
+    expect(getSeatingTimes(location, '2024-07-03', { now })).toHaveLength(6);
+  });
+
+  it('follows special hours for the date', () => {
+    const holidays: Location = {
+      ...location,
+      specialHours: [
+        { date: '2024-07-01', hours: '6:00pm – 8:00pm', note: 'Canada Day' },
+        { date: '2024-07-02', closed: true }
+      ]
+    };
+    expect(getSeatingTimes(holidays, '2024-07-01')).toEqual(['18:00', '18:30', '19:00']);
+    expect(getSeatingTimes(holidays, '2024-07-02')).toEqual([]);
+    expect(getSeatingTimes(holidays, '2024-07-09')).toHaveLength(7);
+  });
+});
+
+describe('ReservationRequestSchema', () => {
+  const request = {
+    locationId: LOCATIONS[0].id,
+    date: '2024-07-05',
+    time: '18:30',
+    partySize: 4,
+    name: 'Alex Chen',
+    email: 'alex@example.com'
+  };
+
+  it('accepts a complete booking and trims text', () => {
+    const parsed = ReservationRequestSchema.parse({ ...request, name: '  Alex Chen ' });
+    expect(parsed.name).toBe('Alex Chen');
+  });
+
+  it('reports the first problem per field', () => {
+    const result = ReservationRequestSchema.safeParse({
+      ...request,
+      locationId: 'kitsilano',
+      time: '',
+      partySize: 14,
+      email: 'alex',
+      phone: 'call me'
+    });
+
+    expect(result.success).toBe(false);
+    expect(getReservationFieldErrors(result.success ? [] : result.error.issues)).toEqual({
+      locationId: 'Choose one of our locations',
+      time: 'Choose a time',
+      partySize: 'For parties over 10, please call the location',
+      email: 'Enter a valid email address',
+      phone: 'Enter a valid phone number'
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, editDistance, highlightMatches } from '../../../src/lib/search';
+import type { MenuItem } from '../../../src/lib/types';
+
+const items: MenuItem[] = [
+  {
+    id: 'burger',
+    title: 'Seawall Burger',
+    description: 'Smoked cheddar, caramelized onions, brioche.',
+    price: 23,
+    category: 'burgers',
+    tags: ['Certified Angus']
+  },
+  {
+    id: 'salmon',
+    title: 'Pacific Cedar Salmon',
+    description: 'Cedar roasted salmon, miso butter.',
+    price: 34,
+    category: 'mains',
+    dietary: ['gluten-free']
+  },
+  {
+    id: 'fries',
+    title: 'Sea Salt & Herb Fries',
+    description: 'Triple-cooked potatoes, smoked garlic aioli, served beside any burger.',
+    price: 11,
+    category: 'sides',
+    tags: ['Vegetarian']
+  },
+  {
+    id: 'old-fashioned',
+    title: 'Coal Harbour Old Fashioned',
+    description: 'Barrel-aged rye, maple syrup, orange bitters.',
+    price: 17,
+    category: 'cocktails'
+  }
+];
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex(items);
+  const ids = (query: string) =>
+    [...index.search(query).entries()]
+      .sort(([, a], [, b]) => b.score - a.score)
+      .map(([id]) => id);
+
+  it('ranks title matches above description matches', () => {
+    expect(ids('burger')).toEqual(['burger', 'fries']);
+  });
+
+  it('tolerates typos and matches prefixes', () => {
+    expect(ids('burgr')).toEqual(['burger', 'fries']);
+    expect(ids('fashoined')).toEqual(['old-fashioned']);
+    expect(ids('salmo')).toEqual(['salmon']);
+  });
+
+  it('does not fuzz short terms', () => {
+    expect(ids('rye')).toEqual(['old-fashioned']);
+    expect(ids('ry')).toEqual(['old-fashioned']);
+    expect(ids('bye')).toEqual([]);
+  });
+
+  it('requires every meaningful term and ignores stop words', () => {
+    expect(ids('smoked burger')).toEqual(['burger', 'fries']);
+    expect(ids('salmon with miso')).toEqual(['salmon']);
+    expect(ids('salmon burger')).toEqual([]);
+  });
+
+  it('searches tags, dietary labels and category labels', () => {
+    expect(ids('vegetarian')).toEqual(['fries']);
+    expect(ids('gluten free')).toEqual(['salmon']);
+    expect(ids('chef specials')).toEqual(['salmon']);
+    expect(ids('angus')).toEqual(['burger']);
+  });
+
+  it('reports the indexed words that matched', () => {
+    expect(index.search('burgr').get('burger')?.terms).toEqual(new Set(['burger']));
+    expect(index.search('Burgr')).toBe(index.search('burgr'));
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, substitutions and transpositions', () => {
+    expect(editDistance('burgr', 'burger', 2)).toBe(1);
+    expect(editDistance('fashoined', 'fashioned', 2)).toBe(1);
+    expect(editDistance('salmon', 'lemon', 1)).toBe(2);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('marks words whose normalized form matched', () => {
+    expect(highlightMatches('Café de Olla', new Set(['cafe']))).toEqual([
+      { text: 'Café', match: true },
+      { text: ' de Olla', match: false }
+    ]);
+    expect(highlightMatches('Seawall Burger', undefined)).toEqual([
+      { text: 'Seawall Burger', match: false }
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareMenuItems,
+  describeSort,
+  formatSortParam,
+  parseSortParam
+} from '../../../src/lib/sort';
+import type { MenuItem } from '../../../src/lib/types';
+import { sortMenuItems } from '../../../src/lib/utils';
+
+const items: MenuItem[] = [
+  {
+    id: 'club',
+    title: 'Market Club',
+    description: '',
+    price: 18,
+    category: 'sandwiches',
+    rating: 4.2,
+    addedAt: '2023-05-12'
+  },
+  {
+    id: 'burger',
+    title: 'Seawall Burger',
+    description: '',
+    price: 23,
+    category: 'burgers',
+    rating: 4.6,
+    addedAt: '2023-05-12'
+  },
+  {
+    id: 'oysters',
+    title: 'Fanny Bay Oysters',
+    description: '',
+    price: null,
+    category: 'mains',
+    chefsPick: true
+  },
+  {
+    id: 'smash',
+    title: 'Double Smash',
+    description: '',
+    price: 18,
+    category: 'burgers',
+    addedAt: '2025-09-18'
+  },
+  {
+    id: 'risotto',
+    title: 'Harvest Risotto',
+    description: '',
+    price: 28,
+    category: 'mains',
+    rating: 4.6,
+    chefsPick: true,
+    addedAt: '2025-10-02'
+  }
+];
+
+const ids = (sorted: MenuItem[]) => sorted.map((item) => item.id);
+
+describe('sortMenuItems', () => {
+  it('breaks price ties by title and keeps market price last both ways', () => {
+    expect(ids(sortMenuItems(items, 'price_asc'))).toEqual([
+      'smash',
+      'club',
+      'burger',
+      'risotto',
+      'oysters'
+    ]);
+    expect(ids(sortMenuItems(items, 'price_desc'))).toEqual([
+      'risotto',
+      'burger',
+      'smash',
+      'club',
+      'oysters'
+    ]);
+  });
+
+  it('gives the same order whatever order the items arrive in', () => {
+    const reversed = [...items].reverse();
+
+    expect(ids(sortMenuItems(reversed, 'rating_desc'))).toEqual(ids(sortMenuItems(items, 'rating_desc')));
+    expect(ids(sortMenuItems(items, 'rating_desc'))).toEqual([
+      'risotto',
+      'burger',
+      'club',
+      'smash',
+      'oysters'
+    ]);
+  });
+
+  it('sorts by name, newest and chef picks', () => {
+    expect(ids(sortMenuItems(items, 'name_asc'))).toEqual([
+      'smash',
+      'oysters',
+      'risotto',
+      'club',
+      'burger'
+    ]);
+    expect(ids(sortMenuItems(items, 'name_desc'))[0]).toBe('burger');
+    expect(ids(sortMenuItems(items, 'newest'))).toEqual([
+      'risotto',
+      'smash',
+      'club',
+      'burger',
+      'oysters'
+    ]);
+    expect(ids(sortMenuItems(items, 'chefs_pick')).slice(0, 2)).toEqual(['oysters', 'risotto']);
+  });
+
+  it('applies compound keys in order', () => {
+    expect(ids(sortMenuItems(items, ['category', 'price_asc']))).toEqual([
+      'smash',
+      'burger',
+      'club',
+      'risotto',
+      'oysters'
+    ]);
+    expect(ids(sortMenuItems(items, ['chefs_pick', 'rating_desc']))).toEqual([
+      'risotto',
+      'oysters',
+      'burger',
+      'club',
+      'smash'
+    ]);
+  });
+
+  it('ranks by relevance with unscored items last', () => {
+    const relevance = new Map([
+      ['club', { score: 1 }],
+      ['burger', { score: 3 }]
+    ]);
+
+    expect(ids([...items].sort(compareMenuItems(['relevance'], relevance))).slice(0, 2)).toEqual([
+      'burger',
+      'club'
+    ]);
+  });
+
+  it('returns a copy in original order without a sort', () => {
+    const sorted = sortMenuItems(items);
+
+    expect(sorted).not.toBe(items);
+    expect(ids(sorted)).toEqual(ids(items));
+  });
+});
+
+describe('parseSortParam', () => {
+  it('accepts single and compound keys', () => {
+    expect(parseSortParam('newest')).toEqual(['newest']);
+    expect(parseSortParam('category, price_asc')).toEqual(['category', 'price_asc']);
+  });
+
+  it('rejects unknown keys and drops contradicting ones', () => {
+    expect(parseSortParam('category,cheapest')).toBeUndefined();
+    expect(parseSortParam('')).toBeUndefined();
+    expect(parseSortParam(null)).toBeUndefined();
+    expect(parseSortParam('price_asc,price_desc,name_asc')).toEqual(['price_asc', 'name_asc']);
+    expect(parseSortParam('category,chefs_pick,rating_desc,name_asc')).toEqual([
+      'category',
+      'chefs_pick',
+      'rating_desc'
+    ]);
+  });
+
+  it('formats and describes compound sorts', () => {
+    expect(formatSortParam(['category', 'price_asc'])).toBe('category,price_asc');
+    expect(describeSort(['category', 'price_asc'])).toBe('Category, then Price: Low to High');
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MenuItem } from '../../../src/lib/types';
+import { useUIStore } from '../../../src/store/ui.store';
+
+const item: MenuItem = {
+  id: 'burger',
+  title: 'Seawall Burger',
+  description: '',
+  price: 23,
+  category: 'burgers'
+};
+
+const keys = () => useUIStore.getState().modalStack.map((modal) => modal.key);
+
+describe('ui.store modal stack', () => {
+  afterEach(() => {
+    useUIStore.getState().closeAllModals();
+  });
+
+  it('stacks dialogs in the order they open', () => {
+    const { openModal } = useUIStore.getState();
+
+    const key = openModal({ key: 'a', type: 'menu-item', props: { item: null, isPending: true } });
+    expect(key).toBe('a');
+    openModal({ key: 'b', type: 'menu-item', props: { item, isPending: false } });
+
+    expect(keys()).toEqual(['a', 'b']);
+  });
+
+  it('updates a dialog in place when its key opens again', () => {
+    const { openModal } = useUIStore.getState();
+    openModal({ key: 'a', type: 'menu-item', props: { item: null, isPending: true } });
+    openModal({ key: 'b', type: 'menu-item', props: { item: null, isPending: true } });
+
+    openModal({ key: 'a', type: 'menu-item', props: { item, isPending: false } });
+
+    expect(keys()).toEqual(['a', 'b']);
+    expect(useUIStore.getState().modalStack[0].props).toEqual({ item, isPending: false });
+  });
+
+  it('closes a dialog from anywhere in the stack', () => {
+    const { openModal, closeModal } = useUIStore.getState();
+    openModal({ key: 'a', type: 'menu-item', props: { item, isPending: false } });
+    openModal({ key: 'b', type: 'menu-item', props: { item, isPending: false } });
+
+    closeModal('a');
+
+    expect(keys()).toEqual(['b']);
+  });
+});
@@ -1,14 +1,22 @@
 import { describe, expect, it } from 'vitest';
 import {
+  describeRequestError,
   filterMenuItems,
   formatCurrency,
-  paginateItems,
+  formatRating,
+  getMenuOrigins,
+  isAllergen,
+  isDietaryFlag,
+  isMenuSort,
+  parseListParam,
+  parsePriceParam,
   parsePageParam,
   sortMenuItems,
   isCategory,
   normalizeQueryParam
 } from '../../../src/lib/utils';
 import type { MenuItem } from '../../../src/lib/types';
+import { HttpStatusError, TimeoutError } from '../../../src/lib/http';
 
 describe('utils', () => {
   const items: MenuItem[] = [
@@ -53,15 +61,95 @@ describe('utils', () => {
     expect(desc[0].id).toBe('1');
   });
 
-  it('paginates items with a default window', () => {
-    const page = paginateItems(items, 2, 2);
-    expect(page).toHaveLength(1);
-    expect(page[0].id).toBe('3');
+  it('sorts top rated first with unrated dishes last', () => {
+    const rated: MenuItem[] = [
+      { ...items[0], rating: 3.9 },
+      { ...items[1] },
+      { ...items[2], rating: 4.8 }
+    ];
+
+    expect(sortMenuItems(rated, 'rating_desc').map((item) => item.id)).toEqual(['3', '1', '2']);
+    expect(formatRating(4)).toBe('4.0');
+    expect(formatRating(undefined)).toBeUndefined();
+  });
+
+  it('filters by origin case-insensitively and lists distinct origins', () => {
+    const withOrigins: MenuItem[] = [
+      { ...items[0], origin: 'Austin, TX' },
+      { ...items[1], origin: 'austin, tx' },
+      { ...items[2], origin: 'Chicago, IL' }
+    ];
+
+    expect(filterMenuItems(withOrigins, { origin: 'AUSTIN, TX' }).map((item) => item.id)).toEqual([
+      '1',
+      '2'
+    ]);
+    expect(filterMenuItems(items, { origin: 'Austin, TX' })).toHaveLength(0);
+    expect(getMenuOrigins(withOrigins)).toEqual(['Austin, TX', 'Chicago, IL']);
+  });
+
+  it('includes dietary flags and excludes declared allergens', () => {
+    const tagged: MenuItem[] = [
+      { ...items[0], dietary: ['gluten-free-option'], allergens: ['milk', 'wheat'] },
+      { ...items[1], dietary: ['vegan', 'vegetarian', 'gluten-free'], allergens: ['tree-nuts'] },
+      { ...items[2], dietary: ['vegetarian', 'gluten-free'] }
+    ];
+
+    const ids = (filters: Parameters<typeof filterMenuItems>[1]) =>
+      filterMenuItems(tagged, filters).map((item) => item.id);
+
+    expect(ids({ dietary: ['vegetarian', 'gluten-free'] })).toEqual(['2', '3']);
+    expect(ids({ dietary: ['vegan'] })).toEqual(['2']);
+    // Item 3 has no declared allergens, so it can't be shown as shellfish-free
+    expect(ids({ excludeAllergens: ['shellfish'] })).toEqual(['1', '2']);
+    expect(ids({ excludeAllergens: ['milk'], dietary: ['gluten-free'] })).toEqual(['2']);
+  });
+
+  it('filters by tags, price bounds and minimum rating', () => {
+    const detailed: MenuItem[] = [
+      { ...items[0], tags: ['Share Plate'], rating: 4.6 },
+      { ...items[1], dietary: ['vegetarian'], rating: 4.2 },
+      { ...items[2], price: null, tags: ['Share Plate'] }
+    ];
+
+    const ids = (filters: Parameters<typeof filterMenuItems>[1]) =>
+      filterMenuItems(detailed, filters).map((item) => item.id);
+
+    expect(ids({ tags: ['share plate'] })).toEqual(['1', '3']);
+    // Dietary labels count as tags
+    expect(ids({ tags: ['Vegetarian'] })).toEqual(['2']);
+    // Market-price dishes never satisfy a price bound
+    expect(ids({ maxPrice: 19.99 })).toEqual(['2']);
+    expect(ids({ minPrice: 19, maxPrice: 23 })).toEqual(['1', '2']);
+    expect(ids({ minRating: 4.5 })).toEqual(['1']);
+    // The Market Price toggle overrides the default either way
+    expect(ids({ maxPrice: 19.99, includeUnpriced: true })).toEqual(['2', '3']);
+    expect(ids({ includeUnpriced: false })).toEqual(['1', '2']);
+  });
+
+  it('parses price bounds from URL params', () => {
+    expect(parsePriceParam('15')).toBe(15);
+    expect(parsePriceParam('12.5')).toBe(12.5);
+    expect(parsePriceParam('-3')).toBeUndefined();
+    expect(parsePriceParam('cheap')).toBeUndefined();
+    expect(parsePriceParam(null)).toBeUndefined();
+  });
+
+  it('parses comma-separated list params against a guard', () => {
+    expect(parseListParam('vegan,keto, gluten-free,vegan', isDietaryFlag)).toEqual([
+      'vegan',
+      'gluten-free'
+    ]);
+    expect(parseListParam('tree-nuts,gluten', isAllergen)).toEqual(['tree-nuts']);
+    expect(parseListParam(null, isAllergen)).toEqual([]);
   });
 
   it('validates category strings and parses page parameters', () => {
     expect(isCategory('burgers')).toBe(true);
     expect(isCategory('pizza')).toBe(false);
+    expect(isMenuSort('rating_desc')).toBe(true);
+    expect(isMenuSort('newest')).toBe(true);
+    expect(isMenuSort('cheapest')).toBe(false);
     expect(parsePageParam('3')).toBe(3);
     expect(parsePageParam('-5')).toBe(1);
   });
@@ -70,4 +158,14 @@ describe('utils', () => {
     expect(normalizeQueryParam('  ')).toBeUndefined();
     expect(normalizeQueryParam(' salmon ')).toBe(' salmon ');
   });
+
+  it('describes request errors by kind', () => {
+    expect(describeRequestError(new TimeoutError('/bbqs', 'GET', 8000))).toBe(
+      'the kitchen took too long to respond'
+    );
+    expect(describeRequestError(new HttpStatusError('/bbqs', 'GET', 503, ''))).toBe(
+      'the kitchen is having trouble right now (503)'
+    );
+    expect(describeRequestError(new Error('Boom'))).toBe('Boom');
+  });
 });
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getGridColumnCount, getVirtualRange } from '../../../src/lib/virtual';
+
+describe('getVirtualRange', () => {
+  const base = { viewportHeight: 800, rowHeight: 500, rowCount: 20, overscan: 1 };
+
+  it('renders the rows on screen plus the overscan', () => {
+    expect(getVirtualRange({ ...base, scrollOffset: 1200 })).toEqual({ startRow: 1, endRow: 5 });
+  });
+
+  it('starts at the first row while the grid is below the viewport top', () => {
+    expect(getVirtualRange({ ...base, scrollOffset: -300 })).toEqual({ startRow: 0, endRow: 2 });
+  });
+
+  it('stops at the last row', () => {
+    expect(getVirtualRange({ ...base, scrollOffset: 9600 })).toEqual({ startRow: 18, endRow: 20 });
+  });
+
+  it('renders nothing without rows', () => {
+    expect(getVirtualRange({ ...base, rowCount: 0, scrollOffset: 0 })).toEqual({
+      startRow: 0,
+      endRow: 0
+    });
+  });
+});
+
+describe('getGridColumnCount', () => {
+  it('follows the grid breakpoints', () => {
+    expect(getGridColumnCount(375)).toBe(1);
+    expect(getGridColumnCount(640)).toBe(2);
+    expect(getGridColumnCount(1023)).toBe(2);
+    expect(getGridColumnCount(1280)).toBe(3);
+  });
+});
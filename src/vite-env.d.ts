@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MENU_SOURCE?: string;
+  readonly VITE_MENU_PAYLOAD_TTL_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}